@@ -1,5 +1,5 @@
 import { Tabs } from 'expo-router';
-import { Gamepad2, Store, Target, Trophy, Settings } from 'lucide-react-native';
+import { Gamepad2, Store, Target, Trophy, Settings, BarChart3 } from 'lucide-react-native';
 import { View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '@/contexts/GameContext'; // Update this path
@@ -212,6 +212,21 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="stats"
+        options={{
+          title: 'Stats',
+          tabBarIcon: ({ size, color, focused }) => (
+            <TabBarIcon 
+              Icon={BarChart3} 
+              size={size} 
+              color={color} 
+              focused={focused} 
+              theme={currentTheme}
+            />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="shop"
         options={{
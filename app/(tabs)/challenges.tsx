@@ -1,12 +1,17 @@
-import React, { useState, useCallback } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Dimensions } from 'react-native';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Dimensions, Alert } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Star, Lock, Trophy, Award, Play, X } from 'lucide-react-native';
+import { Star, Lock, Trophy, Award, Play, X, ChevronLeft, ChevronRight, Download, Share2, Trash2, Package, PencilRuler } from 'lucide-react-native';
 import { useRouter, useFocusEffect } from 'expo-router';
-import { ChallengeLevel } from '@/types/game';
+import { ChallengeLevel, LevelPack, PackProgress } from '@/types/game';
 import { CHALLENGE_LEVELS } from '@/constants/game';
 import { useTheme } from '@/contexts/GameContext';
 import { useSound } from '@/contexts/SoundContext';
+import { getChallengeLevels } from '@/utils/levelGenerator';
+import { getLevelPacks, saveLevelPack, deleteLevelPack, getPackProgress } from '@/utils/storage';
+import { shareLevelPack } from '@/utils/sharing';
+import { LevelPackImportModal } from '@/components/LevelPackImportModal';
+import { MY_LEVELS_PACK_ID } from '@/utils/levelPacks';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -33,7 +38,13 @@ const PREMIUM_COLORS = {
   currentLevelBorder: 'rgba(16, 185, 129, 0.6)',
 };
 
+// Levels are endless, so the grid is shown a page at a time
+const LEVELS_PER_PAGE = 12;
+
+const getPageForLevel = (levelId: number) => Math.floor((levelId - 1) / LEVELS_PER_PAGE);
+
 const getDifficultyColor = (level: number) => {
+  if (level > CHALLENGE_LEVELS.length) return '#ec4899'; // Generated - Pink
   if (level <= 5) return '#10b981'; // Easy - Green
   if (level <= 10) return '#f59e0b'; // Medium - Amber
   if (level <= 15) return '#ef4444'; // Hard - Red
@@ -41,6 +52,7 @@ const getDifficultyColor = (level: number) => {
 };
 
 const getDifficultyLabel = (level: number) => {
+  if (level > CHALLENGE_LEVELS.length) return 'ENDLESS';
   if (level <= 5) return 'EASY';
   if (level <= 10) return 'MEDIUM';
   if (level <= 15) return 'HARD';
@@ -56,18 +68,43 @@ export default function ChallengesScreen() {
   const { playSound } = useSound();
   const { themeState, getCurrentUnlockedLevel } = useTheme();
   const [selectedLevel, setSelectedLevel] = useState<ChallengeLevel | null>(null);
+  const [section, setSection] = useState<'levels' | 'packs'>('levels');
+  const [packs, setPacks] = useState<LevelPack[]>([]);
+  const [packProgress, setPackProgress] = useState<PackProgress>({});
+  const [showImport, setShowImport] = useState(false);
 
   const currentUnlockedLevel = getCurrentUnlockedLevel();
+  // One page of locked levels past the player's progress is shown as a preview
+  const lastPage = getPageForLevel(currentUnlockedLevel) + 1;
+  const [page, setPage] = useState(() => getPageForLevel(currentUnlockedLevel));
+  const scrollRef = useRef<ScrollView>(null);
+
+  const pageLevels = useMemo(
+    () => getChallengeLevels(page * LEVELS_PER_PAGE + 1, LEVELS_PER_PAGE),
+    [page]
+  );
+
+  const loadPacks = useCallback(async () => {
+    const [storedPacks, storedProgress] = await Promise.all([getLevelPacks(), getPackProgress()]);
+    // My Levels is managed from the editor rather than listed with imported packs
+    setPacks(
+      Object.values(storedPacks)
+        .filter(pack => pack.id !== MY_LEVELS_PACK_ID)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setPackProgress(storedProgress);
+  }, []);
 
   // Auto-close modal when user navigates away from this screen
   useFocusEffect(
     useCallback(() => {
-      // This runs when screen comes into focus
+      // This runs when screen comes into focus; pack progress may have changed in a game
+      loadPacks();
       return () => {
         // This runs when screen loses focus (user navigates away)
         setSelectedLevel(null);
       };
-    }, [])
+    }, [loadPacks])
   );
 
   const handleLevelSelect = (level: ChallengeLevel) => {
@@ -88,6 +125,62 @@ export default function ChallengesScreen() {
     });
   };
 
+  // Pack levels are all open from the start, so tournaments can be played in any order
+  const handleStartPackLevel = (pack: LevelPack, level: ChallengeLevel) => {
+    playSound('success', 0.8);
+
+    router.push({
+      pathname: '/',
+      params: {
+        mode: 'challenge',
+        packId: pack.id,
+        levelId: level.id.toString(),
+        autoStart: 'true'
+      }
+    });
+  };
+
+  const handleImportPack = async (pack: LevelPack) => {
+    await saveLevelPack(pack);
+    await loadPacks();
+    playSound('success', 0.8);
+    setShowImport(false);
+  };
+
+  const handleExportPack = (pack: LevelPack) => {
+    playSound('button', 0.6);
+    shareLevelPack(pack);
+  };
+
+  const handleDeletePack = (pack: LevelPack) => {
+    playSound('button', 0.6);
+    Alert.alert(
+      'Delete Level Pack',
+      `Remove "${pack.name}" and your progress on it?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteLevelPack(pack.id);
+            await loadPacks();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleOpenEditor = () => {
+    playSound('button', 0.6);
+    router.push('/level-editor');
+  };
+
+  const handleSectionChange = (nextSection: 'levels' | 'packs') => {
+    playSound('click', 0.5);
+    setSection(nextSection);
+  };
+
   const handleLockedLevel = () => {
     playSound('failed', 0.5);
   };
@@ -96,6 +189,13 @@ export default function ChallengesScreen() {
     setSelectedLevel(null);
   };
 
+  const handlePageChange = (nextPage: number) => {
+    if (nextPage < 0 || nextPage > lastPage) return;
+    playSound('click', 0.5);
+    setPage(nextPage);
+    scrollRef.current?.scrollTo({ y: 0, animated: false });
+  };
+
   const renderStars = (stars: number, isCurrentLevel: boolean = false) => {
     return (
       <View style={styles.starsContainer}>
@@ -236,6 +336,49 @@ export default function ChallengesScreen() {
     );
   };
 
+  const renderPackCard = (pack: LevelPack) => {
+    const progress = packProgress[pack.id] || {};
+    const packStars = Object.values(progress).reduce((sum, level) => sum + level.stars, 0);
+
+    return (
+      <View key={pack.id} style={styles.packCard}>
+        <View style={styles.packHeader}>
+          <View style={styles.packTitleContainer}>
+            <Text style={styles.packName}>{pack.name}</Text>
+            {pack.author && <Text style={styles.packMeta}>by {pack.author}</Text>}
+          </View>
+          <TouchableOpacity style={styles.packAction} onPress={() => handleExportPack(pack)}>
+            <Share2 size={18} color={PREMIUM_COLORS.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.packAction} onPress={() => handleDeletePack(pack)}>
+            <Trash2 size={18} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
+
+        {pack.description && <Text style={styles.packDescription}>{pack.description}</Text>}
+        <Text style={styles.packMeta}>
+          {pack.levels.length} levels · {packStars}/{pack.levels.length * 3} stars
+          {pack.recommendedTheme ? ` · ${pack.recommendedTheme} theme` : ''}
+        </Text>
+
+        {pack.levels.map(level => (
+          <TouchableOpacity
+            key={level.id}
+            style={styles.packLevelRow}
+            onPress={() => handleStartPackLevel(pack, level)}
+          >
+            <View style={styles.packLevelInfo}>
+              <Text style={styles.packLevelName}>{level.name}</Text>
+              <Text style={styles.packLevelObjective}>{level.objective}</Text>
+            </View>
+            {renderStars(progress[level.id]?.stars || 0)}
+            <Play size={16} color={PREMIUM_COLORS.primary} style={styles.packLevelPlay} />
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
   const completedLevels = Object.values(themeState.challengeProgress).filter(level => level.completed).length;
   const totalStars = Object.values(themeState.challengeProgress).reduce((sum, level) => sum + level.stars, 0);
 
@@ -253,21 +396,91 @@ export default function ChallengesScreen() {
           </View>
         </View>
         <Text style={styles.subtitle}>Test your skills and earn rewards</Text>
+
+        <View style={styles.sectionTabs}>
+          {(['levels', 'packs'] as const).map(tab => (
+            <TouchableOpacity
+              key={tab}
+              style={[styles.sectionTab, section === tab && styles.sectionTabActive]}
+              onPress={() => handleSectionChange(tab)}
+            >
+              <Text style={[styles.sectionTabText, section === tab && styles.sectionTabTextActive]}>
+                {tab === 'levels' ? 'Levels' : 'Level Packs'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
       </View>
 
       {/* Challenge Grid */}
       <ScrollView
+        ref={scrollRef}
         style={styles.scrollContainer}
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
       >
-        <View style={styles.levelsGrid}>
-          {CHALLENGE_LEVELS.map(renderLevelCard)}
-        </View>
+        {section === 'packs' ? (
+          <>
+            <View style={styles.packButtons}>
+              <TouchableOpacity style={styles.importButton} onPress={() => setShowImport(true)}>
+                <Download size={18} color={PREMIUM_COLORS.textPrimary} />
+                <Text style={styles.importButtonText}>Import Pack</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.importButton} onPress={handleOpenEditor}>
+                <PencilRuler size={18} color={PREMIUM_COLORS.textPrimary} />
+                <Text style={styles.importButtonText}>My Levels</Text>
+              </TouchableOpacity>
+            </View>
+
+            {packs.length === 0 ? (
+              <View style={styles.emptyPacks}>
+                <Package size={40} color={PREMIUM_COLORS.locked} />
+                <Text style={styles.emptyPacksText}>No level packs yet. Import one to play custom levels.</Text>
+              </View>
+            ) : (
+              packs.map(renderPackCard)
+            )}
+          </>
+        ) : (
+          <>
+            <View style={styles.levelsGrid}>
+              {pageLevels.map(renderLevelCard)}
+            </View>
+
+            {/* Pagination */}
+            <View style={styles.pagination}>
+              <TouchableOpacity
+                style={[styles.pageButton, page === 0 && styles.pageButtonDisabled]}
+                onPress={() => handlePageChange(page - 1)}
+                disabled={page === 0}
+              >
+                <ChevronLeft size={20} color={PREMIUM_COLORS.textPrimary} />
+              </TouchableOpacity>
+
+              <Text style={styles.pageText}>
+                Levels {page * LEVELS_PER_PAGE + 1}–{(page + 1) * LEVELS_PER_PAGE}
+              </Text>
+
+              <TouchableOpacity
+                style={[styles.pageButton, page >= lastPage && styles.pageButtonDisabled]}
+                onPress={() => handlePageChange(page + 1)}
+                disabled={page >= lastPage}
+              >
+                <ChevronRight size={20} color={PREMIUM_COLORS.textPrimary} />
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
 
         <View style={styles.footer} />
       </ScrollView>
 
+      <LevelPackImportModal
+        visible={showImport}
+        onImport={handleImportPack}
+        onClose={() => setShowImport(false)}
+      />
+
       {/* Level Selection Modal */}
       {selectedLevel && (
         <View style={styles.modalOverlay}>
@@ -392,6 +605,145 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     gap: 16,
   },
+  sectionTabs: {
+    flexDirection: 'row',
+    alignSelf: 'center',
+    marginTop: 16,
+    backgroundColor: PREMIUM_COLORS.cardBackground,
+    borderRadius: 20,
+    padding: 4,
+  },
+  sectionTab: {
+    paddingHorizontal: 18,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  sectionTabActive: {
+    backgroundColor: PREMIUM_COLORS.primary,
+  },
+  sectionTabText: {
+    color: PREMIUM_COLORS.textTertiary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  sectionTabTextActive: {
+    color: PREMIUM_COLORS.textPrimary,
+  },
+  packButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  importButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: PREMIUM_COLORS.cardBorderHover,
+  },
+  importButtonText: {
+    color: PREMIUM_COLORS.textPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyPacks: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 12,
+  },
+  emptyPacksText: {
+    color: PREMIUM_COLORS.textTertiary,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  packCard: {
+    backgroundColor: PREMIUM_COLORS.cardBackground,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: PREMIUM_COLORS.cardBorder,
+    padding: 16,
+    marginBottom: 16,
+  },
+  packHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  packTitleContainer: {
+    flex: 1,
+  },
+  packName: {
+    color: PREMIUM_COLORS.textPrimary,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  packMeta: {
+    color: PREMIUM_COLORS.textTertiary,
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  packDescription: {
+    color: PREMIUM_COLORS.textSecondary,
+    fontSize: 14,
+    marginBottom: 6,
+  },
+  packAction: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  packLevelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  packLevelInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  packLevelName: {
+    color: PREMIUM_COLORS.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  packLevelObjective: {
+    color: PREMIUM_COLORS.textTertiary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  packLevelPlay: {
+    marginLeft: 10,
+  },
+  pagination: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 20,
+    marginTop: 8,
+  },
+  pageButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: PREMIUM_COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  pageButtonDisabled: {
+    backgroundColor: PREMIUM_COLORS.locked,
+    opacity: 0.5,
+  },
+  pageText: {
+    color: PREMIUM_COLORS.textSecondary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
   levelCard: {
     width: (SCREEN_WIDTH - 64) / 2,
     borderRadius: 16,
@@ -1,40 +1,41 @@
-import Animated, {
-  useAnimatedStyle,
-  withTiming,
-  useSharedValue,
-  runOnJS,
-  cancelAnimation,
-  Easing
-} from 'react-native-reanimated';
+import Animated from 'react-native-reanimated';
 import React, { useEffect, useRef, useState } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
-import { View, StyleSheet, TouchableWithoutFeedback } from 'react-native';
+import { View, Text, StyleSheet, TouchableWithoutFeedback } from 'react-native';
 import { useLocalSearchParams } from 'expo-router';
 import { Background } from '../../components/Background';
 import { Block } from '../../components/Block';
+import { Debris } from '../../components/Debris';
 import { GameUI } from '../../components/GameUI';
 import { TimeAttackUI } from '../../components/TimeAttackUI';
 import { ChallengeUI } from '../../components/ChallengeUI';
+import { ZenUI } from '../../components/ZenUI';
+import { VersusScoreboard } from '../../components/VersusScoreboard';
+import { VersusSetupModal } from '../../components/VersusSetupModal';
+import { RaceTrack } from '../../components/RaceTrack';
+import { getVersusStandings } from '../../utils/versus';
+import { getRaceWinner } from '../../utils/race';
+import { getGhostDelta } from '../../utils/ghost';
+import { getChallengeLevel } from '../../utils/levelGenerator';
 import { GameOverScreen } from '../../components/GameOverScreen';
 import { ModeSelector } from '../../components/ModeSelector';
 import { PauseMenu } from '../../components/PauseMenu';
 import { DailyChallengeModal } from '../../components/DailyChallengeModal';
 import { ThemeSelector } from '../../components/ThemeSelector';
 import { useGameState } from '../../hooks/useGameState';
-import { useHighScore } from '../../hooks/useHighScore';
+import { useFrameLoop } from '../../hooks/useFrameLoop';
+import { useTowerCamera } from '../../hooks/useTowerCamera';
 import { useTheme } from '../../contexts/GameContext';
 import { useSound } from '../../contexts/SoundContext';
-import { GAME_CONFIG, ANIMATION_CONFIG, CHALLENGE_LEVELS, THEMES } from '../../constants/game';
-import { GameMode, ChallengeLevel, DailyChallenge } from '../../types/game';
-import { generateDailyChallenge, calculateChallengeStars } from '../../utils/gameLogic';
-import { saveGameData, loadGameData, saveScore } from '../../utils/storage';
-
-// Optimize animation frame rate for Android
-// Optimized animation constants for higher speeds
-const ANIMATION_FRAME_RATE = 60;
-const TARGET_FRAME_TIME = 1000 / ANIMATION_FRAME_RATE; // ~16.67ms for 60fps
-const MAX_DELTA_TIME = TARGET_FRAME_TIME * 2; // Prevent large jumps
-const POSITION_UPDATE_THRESHOLD = 0.5; // Lower threshold for smoother movement
+import { GAME_CONFIG, ANIMATION_CONFIG, THEMES } from '../../constants/game';
+import { GameMode, ChallengeLevel, DailyChallenge, LevelPack } from '../../types/game';
+import { generateDailyChallenge, calculateContinueCost } from '../../utils/gameLogic';
+import { saveScore, getReplay, getLevelPack, savePackLevelResult } from '../../utils/storage';
+import { getProgression, loadProgression } from '../../utils/progressionStore';
+import { MY_LEVELS_PACK_ID, upsertMyLevel, validateChallengeLevel } from '../../utils/levelPacks';
+import { areObjectivesMet } from '../../utils/objectives';
+import { verifyReplay } from '../../utils/replay';
+import { StarRating, rateChallengeRun } from '../../utils/starRating';
 
 // Game flow states
 type GameFlow = 'mode_select' | 'playing' | 'paused' | 'game_over';
@@ -44,21 +45,32 @@ export default function StackTowerGame() {
   const {
     gameState,
     startGame,
+    startVersus,
+    startRace,
     dropBlock,
+    dropRaceBlock,
     resetGame,
-    updateCurrentBlockPosition,
-    updateTimer,
+    tick,
+    activatePowerUp,
+    continueRun,
+    finishRun,
+    startReplay,
+    getReplay: getRunReplay,
+    getRunStats,
+    isReplaying,
+    debris,
+    removeDebris,
+    ghost,
+    completeDailyChallenge,
     setGameState,
   } = useGameState();
 
-  const { highScore, updateHighScore } = useHighScore();
   const {
     themeState,
     spendCoins,
     addCoins,
     unlockTheme,
     setCurrentTheme,
-    updateThemeState,
     completeChallengeLevel,
     getCurrentUnlockedLevel,
     updateHighScore: updateContextHighScore,
@@ -68,67 +80,123 @@ export default function StackTowerGame() {
   // Sound management
   const { playSound, stopAllSounds, soundEnabled, toggleSound } = useSound();
 
-  // Refs and animated values
-  const animationRef = useRef<number | undefined>(undefined);
-  const timerRef = useRef<number | null>(null);
-  const cameraY = useSharedValue(0);
-  const cameraScale = useSharedValue(1);
-
   // UI State
   const [gameFlow, setGameFlow] = useState<GameFlow>('mode_select');
   const [selectedMode, setSelectedMode] = useState<GameMode>('classic');
   const [selectedLevel, setSelectedLevel] = useState<ChallengeLevel | undefined>(undefined);
+  // Set while playing a level from an imported pack instead of the built-in list
+  const [selectedPack, setSelectedPack] = useState<LevelPack | undefined>(undefined);
+  // Set while playing an editor level that may not be saved yet; nothing from the run is recorded
+  const [isTestPlay, setIsTestPlay] = useState(false);
   const [showThemeSelector, setShowThemeSelector] = useState(false);
   const [dailyChallenge, setDailyChallenge] = useState<DailyChallenge | null>(null);
   const [showDailyChallenge, setShowDailyChallenge] = useState(false);
   const [coinsEarnedThisGame, setCoinsEarnedThisGame] = useState(0);
-  const [challengeStarsEarned, setChallengeStarsEarned] = useState(0);
+  const [continueDeclined, setContinueDeclined] = useState(false);
+  const [showVersusSetup, setShowVersusSetup] = useState(false);
+  const [starRating, setStarRating] = useState<StarRating | null>(null);
   const [isPaused, setIsPaused] = useState(false);
-  const [isDataLoaded, setIsDataLoaded] = useState(false);
   const [previousHighScore, setPreviousHighScore] = useState(0);
 
-  // Performance optimization: Use refs for animation control
-  const isAnimatingRef = useRef(false);
-  const lastFrameTimeRef = useRef(0);
-  const accumulatedTimeRef = useRef(0); // For consistent frame timing
-
   // Handle navigation from challenges screen
   useEffect(() => {
+    if (params.mode === 'challenge' && params.testLevel && params.autoStart === 'true') {
+      startTestLevel(params.testLevel as string);
+      return;
+    }
+
     if (params.mode === 'challenge' && params.levelId && params.autoStart === 'true') {
       const levelId = parseInt(params.levelId as string);
-      const challengeLevel = CHALLENGE_LEVELS.find(l => l.id === levelId);
+
+      if (params.packId) {
+        startPackLevel(params.packId as string, levelId);
+        return;
+      }
+
+      const challengeLevel = getChallengeLevel(levelId);
 
       if (challengeLevel) {
         setSelectedMode('challenge');
         setSelectedLevel(challengeLevel);
+        setSelectedPack(undefined);
+        setIsTestPlay(false);
         startGame('challenge', challengeLevel);
       }
     }
     // only run when these specific values change
-  }, [params.mode, params.levelId, params.autoStart]);
+  }, [params.mode, params.levelId, params.packId, params.testLevel, params.autoStart]);
+
+  // Pack levels are looked up in storage; the pack's recommended theme is used if it's owned
+  const startPackLevel = async (packId: string, levelId: number) => {
+    const pack = await getLevelPack(packId);
+    const level = pack?.levels.find(l => l.id === levelId);
+    if (!pack || !level) return;
+
+    if (pack.recommendedTheme && themeState.unlockedThemes.includes(pack.recommendedTheme)) {
+      setCurrentTheme(pack.recommendedTheme);
+    }
+
+    setSelectedMode('challenge');
+    setSelectedLevel(level);
+    setSelectedPack(pack);
+    setIsTestPlay(false);
+    startGame('challenge', level, undefined, pack.id);
+  };
+
+  // Levels from the editor are played as part of My Levels, whether or not they were saved yet.
+  // The pack isn't written here, so test plays are rated but leave no scores or progress behind
+  const startTestLevel = async (levelJson: string) => {
+    let level: ChallengeLevel;
+    try {
+      level = JSON.parse(levelJson);
+    } catch (error) {
+      return;
+    }
+    if (validateChallengeLevel(level).length > 0) return;
+
+    const pack = upsertMyLevel(await getLevelPack(MY_LEVELS_PACK_ID), level);
+
+    setSelectedMode('challenge');
+    setSelectedLevel(level);
+    setSelectedPack(pack);
+    setIsTestPlay(true);
+    startGame('challenge', level, undefined, pack.id);
+  };
+
+  // Handle replay playback requests from the leaderboard
+  useEffect(() => {
+    if (!params.replayId) return;
+
+    const loadReplay = async () => {
+      const replay = await getReplay(params.replayId as string);
+      if (!replay) return;
+
+      const pack = replay.packId ? await getLevelPack(replay.packId) : null;
+      const challengeLevel = replay.level === undefined
+        ? undefined
+        : pack
+        ? pack.levels.find(l => l.id === replay.level)
+        : getChallengeLevel(replay.level);
+
+      setSelectedMode(replay.mode);
+      setSelectedLevel(challengeLevel);
+      setSelectedPack(pack || undefined);
+      setIsTestPlay(false);
+      startReplay(replay, challengeLevel);
+    };
+
+    loadReplay();
+  }, [params.replayId]);
 
   // Handle app state changes for better performance
   useEffect(() => {
     const handleAppStateChange = (nextAppState: AppStateStatus) => {
       if (nextAppState === 'background' || nextAppState === 'inactive') {
-        // Pause animations, save state, and stop sounds when app goes to background
-        if (animationRef.current) {
-          cancelAnimationFrame(animationRef.current);
-        }
+        // Pause the frame loop and stop sounds when app goes to background; progress is flushed by the theme provider
         setIsPaused(true);
 
         // Stop all sounds when app goes to background
         stopAllSounds();
-
-        // Save current game state
-        runOnJS(() => {
-          saveGameData({
-            ...gameState,
-            coins: themeState.coins,
-            currentTheme: themeState.currentTheme,
-            unlockedThemes: themeState.unlockedThemes,
-          });
-        })();
       } else if (nextAppState === 'active' && gameState.gameStarted && !gameState.gameOver) {
         // Resume animations when app becomes active
         setIsPaused(false);
@@ -137,77 +205,23 @@ export default function StackTowerGame() {
 
     const subscription = AppState.addEventListener('change', handleAppStateChange);
     return () => subscription?.remove();
-  }, [gameState, themeState, stopAllSounds]);
+  }, [gameState, stopAllSounds]);
 
-  // Load saved game data on mount
+  // Offer the daily challenge unless the save shows it was already done today
   useEffect(() => {
-    const loadSavedData = async () => {
-      const savedData = await loadGameData();
-      if (Object.keys(savedData).length > 0) {
-        setGameState(prev => ({ ...prev, ...savedData }));
-        updateThemeState({
-          coins: savedData.coins || 0,
-          currentTheme: savedData.currentTheme || 'default',
-          unlockedThemes: savedData.unlockedThemes || ['default'],
-        });
-        setIsDataLoaded(true);
-      }
-
-      // Check for daily challenge
+    const checkDailyChallenge = async () => {
+      const progression = await loadProgression();
       const today = new Date().toDateString();
-      if (savedData.lastDailyChallengeDate !== today) {
+      if (progression.lastDailyChallengeDate !== today) {
         const challenge = generateDailyChallenge();
         setDailyChallenge(challenge);
         setShowDailyChallenge(true);
       }
     };
 
-    loadSavedData();
+    checkDailyChallenge();
   }, []);
 
-  // Optimized save with debouncing
-  const saveGameDataDebounced = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  // Save game data when relevant state changes
-  useEffect(() => {
-    if (!isDataLoaded) return; // ⬅ prevent overwriting before load
-    // Debounce saves to prevent excessive storage operations
-    if (saveGameDataDebounced.current) {
-      clearTimeout(saveGameDataDebounced.current);
-    }
-
-    saveGameDataDebounced.current = setTimeout(() => {
-      saveGameData({
-        coins: themeState.coins,
-        currentTheme: themeState.currentTheme,
-        unlockedThemes: themeState.unlockedThemes,
-        unlockedSkins: gameState.unlockedSkins,
-        dailyChallengeCompleted: gameState.dailyChallengeCompleted,
-        lastDailyChallengeDate: gameState.lastDailyChallengeDate,
-        challengeProgress: themeState.challengeProgress,
-        currentUnlockedLevel: themeState.currentUnlockedLevel,
-        highScores: themeState.highScores,
-        totalGamesPlayed: themeState.totalGamesPlayed,
-      });
-    }, 1500); // 500ms debounce
-
-    return () => {
-      if (saveGameDataDebounced.current) {
-        clearTimeout(saveGameDataDebounced.current);
-      }
-    };
-  }, [
-    themeState.coins,
-    themeState.currentTheme,
-    themeState.unlockedThemes,
-    gameState.dailyChallengeCompleted,
-    gameState.lastDailyChallengeDate,
-    themeState.challengeProgress,
-    themeState.currentUnlockedLevel,
-    themeState.highScores,
-    themeState.totalGamesPlayed,
-  ]);
-
   // Handle game state changes and flow transitions
   useEffect(() => {
     if (gameState.gameStarted && !gameState.gameOver && !isPaused) {
@@ -223,160 +237,90 @@ export default function StackTowerGame() {
     }
   }, [gameState.gameStarted, gameState.gameOver, isPaused]);
 
-  // Timer for time attack mode
-  useEffect(() => {
-    if ((gameState.mode === 'timeAttack' || (gameState.mode === 'challenge' && gameState.timeRemaining !== undefined)) &&
-      gameState.gameStarted && !gameState.gameOver && !isPaused) {
+  // Drive the game engine from the frame loop; it advances movement and timers
+  useFrameLoop(gameState.gameStarted && !gameState.gameOver && !isPaused, tick);
 
-      // Clear any existing timer
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
+  const { cameraStyle, resetCamera } = useTowerCamera(
+    gameState.tower_height,
+    gameState.stability,
+    gameState.gameStarted
+  );
 
-      timerRef.current = setInterval(() => {
-        updateTimer();
-      }, 1000);
+  // A failed run can be continued for coins until the player declines
+  const continueCost = calculateContinueCost(gameState.continuesUsed || 0);
+  const isOfferingContinue =
+    gameState.gameOver &&
+    !!gameState.canContinue &&
+    !continueDeclined &&
+    !isReplaying &&
+    gameState.mode !== 'versus' &&
+    gameState.mode !== 'race' &&
+    themeState.coins >= continueCost;
 
-      return () => {
-        if (timerRef.current) {
-          clearInterval(timerRef.current);
-          timerRef.current = null;
-        }
-      };
-    } else {
-      // Clear timer if conditions are not met
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
-    }
-  }, [
-    gameState.mode,
-    gameState.gameStarted,
-    gameState.gameOver,
-    isPaused,
-    // Remove updateTimer from dependencies since it's now stable
-  ]);
-
-  // Optimized animation loop with frame rate control
-  // Animate moving block
-  // Optimized animation loop with interpolation for higher speeds
   useEffect(() => {
-    if (!gameState.currentBlock || !gameState.currentBlock.isMoving) return;
-
-    isAnimatingRef.current = true;
-    lastFrameTimeRef.current = performance.now();
-    accumulatedTimeRef.current = 0;
-
-    const animateBlock = (currentTime: number) => {
-      if (!isAnimatingRef.current || !gameState.currentBlock) return;
-
-      const deltaTime = Math.min(currentTime - lastFrameTimeRef.current, MAX_DELTA_TIME);
-      lastFrameTimeRef.current = currentTime;
-      accumulatedTimeRef.current += deltaTime;
-
-      // Fixed timestep for consistent movement at high speeds
-      while (accumulatedTimeRef.current >= TARGET_FRAME_TIME) {
-        const block = gameState.currentBlock;
-        if (!block) break;
-
-        let newX = block.x;
-        let newDirection = block.direction;
-
-        // Calculate movement with sub-pixel precision for smoothness
-        const moveDistance = block.speed * (TARGET_FRAME_TIME / 16.67); // Normalize to 60fps baseline
-
-        if (block.direction === 'right') {
-          newX += moveDistance;
-          if (newX + block.width >= GAME_CONFIG.SCREEN_WIDTH) {
-            newDirection = 'left';
-            newX = GAME_CONFIG.SCREEN_WIDTH - block.width;
-          }
-        } else {
-          newX -= moveDistance;
-          if (newX <= 0) {
-            newDirection = 'right';
-            newX = 0;
-          }
-        }
+    if (!gameState.gameOver) setContinueDeclined(false);
+  }, [gameState.gameOver]);
 
-        // Update position with lower threshold for smoother movement
-        if (Math.abs(newX - block.x) > POSITION_UPDATE_THRESHOLD || newDirection !== block.direction) {
-          updateCurrentBlockPosition(newX, newDirection);
+  // Enhanced game over handling with sound effects
+  useEffect(() => {
+    // Rewards wait until the run is really over, so a continue can't be paid for with them
+    if (isOfferingContinue) return;
+
+    // Replays only re-render a finished run; it was already rewarded and recorded
+    const isMultiplayer = gameState.mode === 'versus' || gameState.mode === 'race';
+    if (gameState.gameOver && (gameState.score > 0 || isMultiplayer) && !gameState.rewardsGranted && !isReplaying) {
+      // Versus matches are settled on the scoreboard: no coins, only the winner's score is kept
+      if (gameState.mode === 'versus') {
+        if (gameState.versus) {
+          const [winner] = getVersusStandings(gameState.versus);
+          updateContextHighScore('versus', winner.tower.score);
         }
-
-        accumulatedTimeRef.current -= TARGET_FRAME_TIME;
-      }
-
-      if (gameState.gameStarted && !gameState.gameOver && !isPaused && isAnimatingRef.current) {
-        animationRef.current = requestAnimationFrame(animateBlock);
+        playSound('success', 0.9);
+        setCoinsEarnedThisGame(0);
+        setGameState(prev => ({ ...prev, rewardsGranted: true }));
+        return;
       }
-    };
-
-    animationRef.current = requestAnimationFrame(animateBlock);
 
-    return () => {
-      isAnimatingRef.current = false;
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
+      // Races are settled the same way, on the winning lane's score
+      if (gameState.mode === 'race') {
+        const winner = gameState.race && getRaceWinner(gameState.race);
+        if (winner) {
+          updateContextHighScore('race', winner.tower.score);
+        }
+        playSound('success', 0.9);
+        setCoinsEarnedThisGame(0);
+        setGameState(prev => ({ ...prev, rewardsGranted: true }));
+        return;
       }
-    };
-  }, [gameState.currentBlock, gameState.gameStarted, gameState.gameOver, isPaused, updateCurrentBlockPosition]);
 
-
-  // Optimized camera animation with reduced frequency
-  // Camera animation based on tower height
-  // Optimized camera animation with faster response for high-speed gameplay
-  useEffect(() => {
-    const blockHeight = 100;
-    const screenHeight = GAME_CONFIG.SCREEN_HEIGHT || 800;
-    const halfScreenHeight = screenHeight / 2;
-    const currentTowerHeightPixels = gameState.tower_height * blockHeight;
-
-    let targetY = 0;
-    let targetScale = 1;
-
-    if (currentTowerHeightPixels > halfScreenHeight) {
-      const excessHeight = currentTowerHeightPixels - halfScreenHeight;
-      // Faster camera movement for high-speed gameplay
-      const fastMovementFactor = 0.7; // Increased from 0.5
-      targetY = excessHeight * fastMovementFactor;
-      targetScale = Math.max(0.85, 1 - (excessHeight / screenHeight) * 0.15); // More zoom for better visibility
-    }
-
-    // Faster camera transitions for responsive feel
-    cameraY.value = withTiming(targetY, {
-      duration: 400, // Reduced from 600ms
-      easing: Easing.out(Easing.cubic) // Smoother easing
-    });
-    cameraScale.value = withTiming(targetScale, {
-      duration: 400, // Reduced from 600ms
-      easing: Easing.out(Easing.cubic)
-    });
-  }, [gameState.tower_height]);
-
-  // Enhanced game over handling with sound effects
-  useEffect(() => {
-    if (gameState.gameOver && gameState.score > 0 && !gameState.rewardsGranted) {
       // Get current high score for this mode
       const currentHighScore = getHighScore(gameState.mode);
       setPreviousHighScore(currentHighScore);
 
       // Update high score and check if it's new
-      const isNewHighScore = updateContextHighScore(gameState.mode, gameState.score);
-
-      // Also update the legacy high score hook for backward compatibility
-      updateHighScore(gameState.score);
-
-      // Save score record
-      saveScore({
-        mode: gameState.mode,
-        score: gameState.score,
-        date: new Date().toISOString(),
-        level: gameState.level,
-        blocks: gameState.tower_height - 1,
-        difficulty: gameState.selectedDifficulty
-      });
+      const isNewHighScore = !isTestPlay && updateContextHighScore(gameState.mode, gameState.score);
+
+      // Save score record together with the inputs needed to replay it, and
+      // check the replay reproduces the score before the run counts as verified
+      const stats = getRunStats();
+      if (!isTestPlay) {
+        const replay = getRunReplay(`replay-${Date.now()}`);
+        const verified = replay
+          ? verifyReplay(replay, gameState.mode === 'challenge' ? selectedLevel : undefined).valid
+          : false;
+        saveScore({
+          mode: gameState.mode,
+          score: gameState.score,
+          date: new Date().toISOString(),
+          level: gameState.level,
+          packId: gameState.mode === 'challenge' ? selectedPack?.id : undefined,
+          blocks: gameState.tower_height - 1,
+          difficulty: gameState.selectedDifficulty,
+          replayId: replay?.id,
+          verified,
+          stats: stats || undefined,
+        }, replay || undefined);
+      }
 
       let totalCoinsEarned = 0;
       let starsEarned = 0;
@@ -385,30 +329,42 @@ export default function StackTowerGame() {
       // Handle challenge mode completion with sounds
       if (gameState.mode === 'challenge' && selectedLevel) {
         const blocksStacked = gameState.tower_height - 1;
-        const perfectBlocks = gameState.combo; // This should be tracked properly
-        challengeCompleted = blocksStacked >= selectedLevel.targetBlocks;
+        const perfectBlocks = stats ? stats.perfectBlocks : gameState.perfectBlocks;
+        challengeCompleted = areObjectivesMet(gameState.objectives);
 
         if (challengeCompleted) {
-          starsEarned = calculateChallengeStars(
+          const rating = rateChallengeRun(
             selectedLevel,
-            gameState.score,
-            blocksStacked,
-            perfectBlocks,
-            challengeCompleted
+            {
+              score: gameState.score,
+              blocksStacked,
+              perfectBlocks,
+              timeRemaining: gameState.timeRemaining,
+              averageSpeed: stats?.averageSpeed,
+            },
+            gameState.selectedDifficulty
           );
-
-          const previousStars = themeState.challengeProgress[selectedLevel.id]?.stars || 0;
-          const isNewStars = starsEarned > previousStars;
-
-          const challengeCoins = completeChallengeLevel(
-            selectedLevel.id,
-            starsEarned,
-            gameState.score,
-            isNewStars
-          );
-
-          totalCoinsEarned += challengeCoins;
-          setChallengeStarsEarned(starsEarned);
+          starsEarned = rating.stars;
+          setStarRating(rating);
+
+          if (selectedPack) {
+            // Imported levels keep their own progress and don't pay out coins
+            if (!isTestPlay) {
+              savePackLevelResult(selectedPack.id, selectedLevel.id, starsEarned, gameState.score);
+            }
+          } else {
+            const previousStars = themeState.challengeProgress[selectedLevel.id]?.stars || 0;
+            const isNewStars = starsEarned > previousStars;
+
+            const challengeCoins = completeChallengeLevel(
+              selectedLevel.id,
+              starsEarned,
+              gameState.score,
+              isNewStars
+            );
+
+            totalCoinsEarned += challengeCoins;
+          }
 
           // Play success sound for challenge completion
           playSound('success', 0.9);
@@ -416,9 +372,12 @@ export default function StackTowerGame() {
           // Play failed sound for challenge failure
           playSound('failed', 0.8);
         }
+      } else if (gameState.mode === 'zen') {
+        // Zen is for unwinding, so it never pays out coins
+        playSound(isNewHighScore ? 'success' : 'chime', 0.6);
       } else {
         // Award coins for other modes
-        const coinsEarned = Math.floor(gameState.score / 1000) + Math.floor(gameState.combo / 2);
+        const coinsEarned = Math.floor(gameState.score / 1000) + Math.floor((stats?.maxCombo ?? gameState.combo) / 2);
         if (coinsEarned > 0) {
           addCoins(coinsEarned);
           totalCoinsEarned += coinsEarned;
@@ -433,9 +392,11 @@ export default function StackTowerGame() {
       }
 
       // Check daily challenge completion
-      if (dailyChallenge && !gameState.dailyChallengeCompleted) {
-        const challengeMet = checkDailyChallengeCompletion();
+      const dailyChallengeDone = getProgression().lastDailyChallengeDate === new Date().toDateString();
+      if (dailyChallenge && gameState.mode !== 'zen' && !dailyChallengeDone && !isTestPlay) {
+        const challengeMet = checkDailyChallengeCompletion(stats ? stats.perfectBlocks : gameState.perfectBlocks);
         if (challengeMet) {
+          completeDailyChallenge();
           addCoins(dailyChallenge.reward);
           totalCoinsEarned += dailyChallenge.reward;
           playSound('chime', 0.8); // Daily challenge completed
@@ -445,38 +406,37 @@ export default function StackTowerGame() {
       setCoinsEarnedThisGame(totalCoinsEarned);
       setGameState(prev => ({ ...prev, rewardsGranted: true }));
     }
-  }, [gameState.gameOver, gameState.score, updateHighScore, addCoins, completeChallengeLevel, playSound, updateContextHighScore, getHighScore]);
+  }, [gameState.gameOver, gameState.score, isOfferingContinue, addCoins, completeChallengeLevel, playSound, updateContextHighScore, getHighScore]);
 
-  const checkDailyChallengeCompletion = (): boolean => {
+  const checkDailyChallengeCompletion = (perfectBlocks: number): boolean => {
     if (!dailyChallenge) return false;
     const blocksStacked = gameState.tower_height - 1;
 
     if (blocksStacked >= dailyChallenge.targetBlocks) {
       if (dailyChallenge.perfectBlocksRequired) {
-        return gameState.combo >= dailyChallenge.perfectBlocksRequired;
+        return perfectBlocks >= dailyChallenge.perfectBlocksRequired;
       }
       return true;
     }
     return false;
   };
-  // Memoized camera style to prevent unnecessary recalculations
-  const cameraStyle = useAnimatedStyle(() => {
-    return {
-      transform: [
-        { translateY: cameraY.value },
-        { scale: cameraScale.value },
-      ],
-    };
-  }, []);
-
   // Game flow handlers with sound integration
   const handleModeSelect = (mode: GameMode) => {
     playSound('button', 0.7); // Play button sound on mode selection
     setSelectedMode(mode);
+    setSelectedPack(undefined);
+    setIsTestPlay(false);
 
-    if (mode === 'challenge') {
+    if (mode === 'versus') {
+      // Player count is picked first; the match starts from the setup modal
+      setSelectedLevel(undefined);
+      setShowVersusSetup(true);
+    } else if (mode === 'race') {
+      setSelectedLevel(undefined);
+      startRace();
+    } else if (mode === 'challenge') {
       const currentUnlockedLevel = getCurrentUnlockedLevel();
-      const firstAvailableLevel = CHALLENGE_LEVELS.find(l => l.id === currentUnlockedLevel) || CHALLENGE_LEVELS[0];
+      const firstAvailableLevel = getChallengeLevel(currentUnlockedLevel) || getChallengeLevel(1);
       setSelectedLevel(firstAvailableLevel);
       startGame(mode, firstAvailableLevel);
     } else {
@@ -489,42 +449,66 @@ export default function StackTowerGame() {
     playSound('button', 0.7); // Play button sound
 
     // Reset camera
-    cancelAnimation(cameraY);
-    cancelAnimation(cameraScale);
-    cameraY.value = withTiming(0, { duration: 300 });
-    cameraScale.value = withTiming(1, { duration: 300 });
+    resetCamera();
 
     // Reset coins and stars earned counters
     setCoinsEarnedThisGame(0);
-    setChallengeStarsEarned(0);
+    setStarRating(null);
 
     // Start same game mode
-    if (selectedMode === 'challenge' && selectedLevel) {
-      startGame(selectedMode, selectedLevel);
+    if (selectedMode === 'versus' && gameState.versus) {
+      startVersus(gameState.versus.players.length);
+    } else if (selectedMode === 'race') {
+      startRace();
+    } else if (selectedMode === 'challenge' && selectedLevel) {
+      startGame(selectedMode, selectedLevel, undefined, selectedPack?.id);
     } else {
       startGame(selectedMode);
     }
   };
 
+  const handleContinue = () => {
+    playSound('button', 0.7);
+    continueRun();
+  };
+
+  const handleVersusStart = (playerCount: number) => {
+    playSound('button', 0.7);
+    setShowVersusSetup(false);
+    startVersus(playerCount);
+  };
+
+  const handleVersusSetupClose = () => {
+    playSound('button', 0.6);
+    setShowVersusSetup(false);
+  };
+
+  const handleFinishRun = () => {
+    playSound('button', 0.7);
+    finishRun();
+  };
+
+  const handleDeclineContinue = () => {
+    playSound('button', 0.7);
+    setContinueDeclined(true);
+  };
+
   const handlePlayNextLevel = () => {
     playSound('button', 0.7); // Play button sound
 
     if (selectedMode === 'challenge' && selectedLevel) {
-      const nextLevel = CHALLENGE_LEVELS.find(l => l.id === selectedLevel.id + 1);
+      const nextLevel = getNextLevel();
       if (nextLevel) {
         setSelectedLevel(nextLevel);
 
         // Reset camera
-        cancelAnimation(cameraY);
-        cancelAnimation(cameraScale);
-        cameraY.value = withTiming(0, { duration: 300 });
-        cameraScale.value = withTiming(1, { duration: 300 });
+        resetCamera();
 
         // Reset counters
         setCoinsEarnedThisGame(0);
-        setChallengeStarsEarned(0);
+        setStarRating(null);
 
-        startGame(selectedMode, nextLevel);
+        startGame(selectedMode, nextLevel, undefined, selectedPack?.id);
       }
     }
   };
@@ -534,17 +518,20 @@ export default function StackTowerGame() {
 
     // Reset everything
     resetGame();
-    cancelAnimation(cameraY);
-    cancelAnimation(cameraScale);
-    cameraY.value = withTiming(0, { duration: 300 });
-    cameraScale.value = withTiming(1, { duration: 300 });
+    resetCamera();
     setCoinsEarnedThisGame(0);
-    setChallengeStarsEarned(0);
+    setStarRating(null);
     setGameFlow('mode_select');
   };
 
+  const handleRaceLaneTap = (laneId: number) => {
+    if (gameFlow === 'playing' && !isPaused) {
+      dropRaceBlock(laneId);
+    }
+  };
+
   const handleScreenTap = () => {
-    if (gameFlow === 'playing' && gameState.currentBlock && gameState.currentBlock.isMoving && !isPaused) {
+    if (gameFlow === 'playing' && gameState.mode !== 'race' && gameState.currentBlock && gameState.currentBlock.isMoving && !isPaused && !isReplaying) {
       dropBlock();
     }
   };
@@ -564,21 +551,22 @@ export default function StackTowerGame() {
     playSound('button', 0.7); // Play button sound
 
     // Reset camera
-    cancelAnimation(cameraY);
-    cancelAnimation(cameraScale);
-    cameraY.value = withTiming(0, { duration: 300 });
-    cameraScale.value = withTiming(1, { duration: 300 });
+    resetCamera();
 
     // Reset coins earned counter
     setCoinsEarnedThisGame(0);
-    setChallengeStarsEarned(0);
+    setStarRating(null);
 
     // Reset pause state
     setIsPaused(false);
 
     // Start same game mode
-    if (selectedMode === 'challenge' && selectedLevel) {
-      startGame(selectedMode, selectedLevel);
+    if (selectedMode === 'versus' && gameState.versus) {
+      startVersus(gameState.versus.players.length);
+    } else if (selectedMode === 'race') {
+      startRace();
+    } else if (selectedMode === 'challenge' && selectedLevel) {
+      startGame(selectedMode, selectedLevel, undefined, selectedPack?.id);
     } else {
       startGame(selectedMode);
     }
@@ -589,12 +577,9 @@ export default function StackTowerGame() {
 
     // Reset everything
     resetGame();
-    cancelAnimation(cameraY);
-    cancelAnimation(cameraScale);
-    cameraY.value = withTiming(0, { duration: 300 });
-    cameraScale.value = withTiming(1, { duration: 300 });
+    resetCamera();
     setCoinsEarnedThisGame(0);
-    setChallengeStarsEarned(0);
+    setStarRating(null);
     setIsPaused(false);
     setGameFlow('mode_select');
   };
@@ -618,7 +603,9 @@ export default function StackTowerGame() {
     playSound('button', 0.7); // Play button sound
     if (dailyChallenge) {
       setSelectedMode('classic');
-      startGame('classic');
+      setSelectedPack(undefined);
+      setIsTestPlay(false);
+      startGame('classic', undefined, dailyChallenge.seed);
       setShowDailyChallenge(false);
     }
   };
@@ -636,19 +623,26 @@ export default function StackTowerGame() {
 
   const getCurrentChallengeLevel = (): ChallengeLevel | undefined => {
     if (gameState.mode === 'challenge' && gameState.level) {
-      return CHALLENGE_LEVELS.find(l => l.id === gameState.level);
+      return selectedPack
+        ? selectedPack.levels.find(l => l.id === gameState.level)
+        : getChallengeLevel(gameState.level);
     }
     return undefined;
   };
 
-  // Check if next level exists
-  const hasNextLevel = () => {
-    if (selectedMode === 'challenge' && selectedLevel) {
-      return CHALLENGE_LEVELS.some(l => l.id === selectedLevel.id + 1);
+  // Packs play in their listed order; built-in levels go on forever
+  const getNextLevel = (): ChallengeLevel | undefined => {
+    if (selectedMode !== 'challenge' || !selectedLevel) return undefined;
+    if (selectedPack) {
+      const index = selectedPack.levels.findIndex(l => l.id === selectedLevel.id);
+      return selectedPack.levels[index + 1];
     }
-    return false;
+    return getChallengeLevel(selectedLevel.id + 1);
   };
 
+  // Check if next level exists
+  const hasNextLevel = () => !!getNextLevel();
+
   // Memoize expensive calculations
   const unlockedThemesList = React.useMemo(() =>
     THEMES.filter(theme =>
@@ -663,8 +657,16 @@ export default function StackTowerGame() {
     const commonProps = {
       gameStarted: true,
       onPause: handlePause,
+      // Replays re-apply their recorded power-ups, so the bar is hidden
+      ...(!isReplaying && gameState.mode !== 'zen' && gameState.mode !== 'versus' && {
+        powerUps: themeState.powerUps,
+        activePowerUps: gameState.activePowerUps,
+        onActivatePowerUp: activatePowerUp,
+      }),
     };
 
+    const ghostDelta = ghost ? getGhostDelta(gameState.tower_height, ghost) : undefined;
+
     switch (gameState.mode) {
       case 'timeAttack':
         return (
@@ -686,16 +688,34 @@ export default function StackTowerGame() {
               score={gameState.score}
               combo={gameState.combo}
               timeRemaining={gameState.timeRemaining}
+              objectives={gameState.objectives}
+              ghostDelta={ghostDelta}
               {...commonProps}
             />
           );
         }
         break;
+      case 'versus':
+        if (gameState.versus) {
+          return <VersusScoreboard match={gameState.versus} {...commonProps} />;
+        }
+        break;
+      case 'zen':
+        return (
+          <ZenUI
+            towerHeight={gameState.tower_height - 1}
+            bestHeight={getHighScore('zen')}
+            onFinish={handleFinishRun}
+            {...commonProps}
+          />
+        );
       default:
         return (
           <GameUI
             score={gameState.score}
             combo={gameState.combo}
+            stability={gameState.stability}
+            ghostDelta={ghostDelta}
             {...commonProps}
           />
         );
@@ -705,7 +725,7 @@ export default function StackTowerGame() {
   // Determine if challenge level was completed
   const isChallengeCompleted = () => {
     if (gameState.mode === 'challenge' && selectedLevel) {
-      return (gameState.tower_height - 1) >= selectedLevel.targetBlocks;
+      return areObjectivesMet(gameState.objectives);
     }
     return false;
   };
@@ -713,19 +733,44 @@ export default function StackTowerGame() {
   return (
     <TouchableWithoutFeedback onPress={handleScreenTap}>
       <View style={styles.container}>
-        <Background towerHeight={gameState.tower_height} themeId={themeState.currentTheme} />
-
-        <Animated.View style={[styles.gameArea, cameraStyle]}>
-          {/* Static blocks */}
-          {gameState.currentBlock && gameState.blocks.map((block) => (
-            <Block key={block.id} block={block} themeId={themeState.currentTheme} />
-          ))}
-
-          {/* Moving block */}
-          {gameState.currentBlock && (
-            <Block block={gameState.currentBlock} themeId={themeState.currentTheme} />
-          )}
-        </Animated.View>
+        {gameState.mode === 'race' && gameState.race ? (
+          // Every racer gets a lane with its own tower, camera and tap zone
+          <RaceTrack
+            match={gameState.race}
+            themeId={themeState.currentTheme}
+            active={gameState.gameStarted}
+            onLaneTap={handleRaceLaneTap}
+            onPause={handlePause}
+          />
+        ) : (
+          <>
+            <Background towerHeight={gameState.tower_height} themeId={themeState.currentTheme} />
+
+            <Animated.View style={[styles.gameArea, cameraStyle]}>
+              {/* Personal-best ghost, drawn behind the live tower */}
+              {ghost && gameState.currentBlock && (
+                <View style={styles.ghostTower} pointerEvents="none">
+                  {ghost.blocks.slice(1).map((block) => (
+                    <Block key={block.id} block={block} themeId={themeState.currentTheme} />
+                  ))}
+                </View>
+              )}
+
+              {/* Static blocks */}
+              {gameState.currentBlock && gameState.blocks.map((block) => (
+                <Block key={block.id} block={block} themeId={themeState.currentTheme} />
+              ))}
+
+              {/* Moving block */}
+              {gameState.currentBlock && (
+                <Block block={gameState.currentBlock} themeId={themeState.currentTheme} />
+              )}
+
+              {/* Sliced overhangs falling away */}
+              <Debris pieces={debris} themeId={themeState.currentTheme} onPieceFinished={removeDebris} />
+            </Animated.View>
+          </>
+        )}
 
         {/* Render UI based on game flow */}
         {gameFlow === 'mode_select' && (
@@ -742,7 +787,13 @@ export default function StackTowerGame() {
           />
         )}
 
-        {gameFlow === 'playing' && renderGameUI()}
+        {gameFlow === 'playing' && gameState.mode !== 'race' && renderGameUI()}
+
+        {gameFlow === 'playing' && isReplaying && (
+          <View style={styles.replayBadge} pointerEvents="none">
+            <Text style={styles.replayBadgeText}>REPLAY</Text>
+          </View>
+        )}
 
         {gameFlow === 'paused' && (
           <PauseMenu
@@ -760,7 +811,8 @@ export default function StackTowerGame() {
             highScore={getHighScore(gameState.mode)}
             mode={gameState.mode}
             coinsEarned={coinsEarnedThisGame}
-            challengeStars={challengeStarsEarned}
+            challengeStars={starRating?.stars ?? 0}
+            starTiers={starRating?.tiers}
             challengeCompleted={isChallengeCompleted()}
             hasNextLevel={hasNextLevel()}
             onPlayAgain={handlePlayAgain}
@@ -770,6 +822,19 @@ export default function StackTowerGame() {
               playSound('button', 0.7);
               /* Implement sharing */
             }}
+            continueCost={continueCost}
+            onContinue={isOfferingContinue ? handleContinue : undefined}
+            onDeclineContinue={handleDeclineContinue}
+            versusMatch={gameState.mode === 'versus' ? gameState.versus : undefined}
+            raceMatch={gameState.mode === 'race' ? gameState.race : undefined}
+          />
+        )}
+
+        {showVersusSetup && (
+          <VersusSetupModal
+            visible={true}
+            onStart={handleVersusStart}
+            onClose={handleVersusSetupClose}
           />
         )}
 
@@ -803,4 +868,24 @@ const styles = StyleSheet.create({
     flex: 1,
     position: 'relative',
   },
+  ghostTower: {
+    ...StyleSheet.absoluteFillObject,
+    opacity: 0.3,
+  },
+  replayBadge: {
+    position: 'absolute',
+    top: 80,
+    alignSelf: 'center',
+    backgroundColor: 'rgba(239, 68, 68, 0.85)',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 12,
+    zIndex: 20,
+  },
+  replayBadgeText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+    letterSpacing: 2,
+  },
 });
\ No newline at end of file
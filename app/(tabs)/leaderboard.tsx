@@ -1,13 +1,14 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Dimensions } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Trophy, Medal, Crown, Star, Target, Clock, Infinity, TrendingUp, Calendar, Award, Zap, Gamepad as GamepadIcon, Shield, Flame, Swords } from 'lucide-react-native';
+import { Trophy, Medal, Crown, Star, Target, Clock, Infinity, TrendingUp, Calendar, Award, Zap, Gamepad as GamepadIcon, Shield, Flame, Swords, Play, Leaf, ShieldCheck } from 'lucide-react-native';
 import { useTheme } from '@/contexts/GameContext';
 import { useSound } from '@/contexts/SoundContext';
 import { GameMode, ScoreRecord } from '@/types/game';
-import { getTopScores } from '@/utils/storage';
-import { CHALLENGE_LEVELS } from '@/constants/game';
-import { useFocusEffect } from "expo-router";
+import { getAllScores, getReplays, getTopScores } from '@/utils/storage';
+import { filterScores, getDifficultyBreakdown, summarizeRuns } from '@/utils/analytics';
+import { getChallengeLevel } from '@/utils/levelGenerator';
+import { useFocusEffect, useRouter } from "expo-router";
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -45,6 +46,8 @@ const getModeIcon = (mode: GameMode, size: number = 20, color: string = '#fff')
       return <Clock size={size} color={color} />;
     case 'challenge':
       return <Target size={size} color={color} />;
+    case 'zen':
+      return <Leaf size={size} color={color} />;
     default:
       return <Trophy size={size} color={color} />;
   }
@@ -97,6 +100,8 @@ const getModeDisplayName = (mode: GameMode): string => {
       return 'Time Attack';
     case 'challenge':
       return 'Challenge';
+    case 'zen':
+      return 'Zen';
     default:
       return 'Unknown';
   }
@@ -131,6 +136,7 @@ const getRankGradient = (rank: number): [string, string] => {
 export default function LeaderboardScreen() {
   const { playSound } = useSound();
   const { themeState } = useTheme();
+  const router = useRouter();
   const [selectedMode, setSelectedMode] = useState<GameMode | 'all'>('all');
   const [recentScores, setRecentScores] = useState<ScoreRecord[]>([]);
   const [modeStats, setModeStats] = useState<{
@@ -161,8 +167,14 @@ export default function LeaderboardScreen() {
 
   const loadRecentScores = async () => {
     try {
-      const scores = await getTopScores(selectedMode === 'all' ? undefined : selectedMode, 10);
-      setRecentScores(scores);
+      const [scores, replays] = await Promise.all([
+        getTopScores(selectedMode === 'all' ? undefined : selectedMode, 10),
+        getReplays(),
+      ]);
+      // Replays are pruned over time, so Watch is only offered while the run's replay is stored
+      setRecentScores(scores.map(score =>
+        score.replayId && !replays[score.replayId] ? { ...score, replayId: undefined } : score
+      ));
     } catch (error) {
       console.error('Failed to load scores:', error);
     }
@@ -170,53 +182,33 @@ export default function LeaderboardScreen() {
 
   const calculateModeStats = async () => {
     try {
-      // Get all scores for each mode
-      const classicScores = await getTopScores('classic', 100);
-      const timeAttackScores = await getTopScores('timeAttack', 100);
-      const challengeScores = await getTopScores('challenge', 100);
-
-      // Helper function to calculate difficulty breakdown
-      const calculateDifficultyBreakdown = (scores: ScoreRecord[]) => {
-        const breakdown: Record<string, number> = { easy: 0, medium: 0, hard: 0 };
-        scores.forEach(score => {
-          console.log(score.difficulty)
-          const difficulty = score.difficulty || 'medium'; // Default to medium if not specified
-          breakdown[difficulty] = (breakdown[difficulty] || 0) + 1;
-        });
-        return breakdown;
-      };
+      const allScores = await getAllScores();
+      const classicScores = filterScores(allScores, { mode: 'classic' });
+      const timeAttackScores = filterScores(allScores, { mode: 'timeAttack' });
+      const challengeScores = filterScores(allScores, { mode: 'challenge' });
 
       // Calculate classic mode stats
-      const classicDifficultyBreakdown = calculateDifficultyBreakdown(classicScores);
+      const classicSummary = summarizeRuns(classicScores);
       const classicStats = {
-        gamesPlayed: classicScores.length,
-        averageScore: classicScores.length > 0
-          ? Math.floor(classicScores.reduce((sum, score) => sum + score.score, 0) / classicScores.length)
-          : 0,
-        bestStreak: classicScores.length > 0
-          ? Math.max(...classicScores.map(score => score.blocks))
-          : 0,
-        difficultyBreakdown: classicDifficultyBreakdown,
+        gamesPlayed: classicSummary.gamesPlayed,
+        averageScore: classicSummary.averageScore,
+        bestStreak: classicSummary.bestHeight,
+        difficultyBreakdown: getDifficultyBreakdown(classicScores),
       };
 
       // Calculate time attack mode stats
-      const timeAttackDifficultyBreakdown = calculateDifficultyBreakdown(timeAttackScores);
+      const timeAttackSummary = summarizeRuns(timeAttackScores);
       const timeAttackStats = {
-        gamesPlayed: timeAttackScores.length,
-        averageScore: timeAttackScores.length > 0
-          ? Math.floor(timeAttackScores.reduce((sum, score) => sum + score.score, 0) / timeAttackScores.length)
-          : 0,
-        bestTime: timeAttackScores.length > 0
-          ? Math.max(...timeAttackScores.map(score => score.blocks)) // Using blocks as time indicator
-          : 0,
-        difficultyBreakdown: timeAttackDifficultyBreakdown,
+        gamesPlayed: timeAttackSummary.gamesPlayed,
+        averageScore: timeAttackSummary.averageScore,
+        bestTime: timeAttackSummary.bestHeight, // Using blocks as time indicator
+        difficultyBreakdown: getDifficultyBreakdown(timeAttackScores),
       };
 
       // Calculate challenge mode stats
       const challengeProgress = themeState.challengeProgress;
       const completedLevels = Object.values(challengeProgress).filter(level => level.completed);
       const totalStars = Object.values(challengeProgress).reduce((sum, level) => sum + level.stars, 0);
-      const challengeDifficultyBreakdown = calculateDifficultyBreakdown(challengeScores);
 
       const challengeStats = {
         gamesPlayed: challengeScores.length,
@@ -225,23 +217,18 @@ export default function LeaderboardScreen() {
         averageStars: completedLevels.length > 0
           ? Math.round((totalStars / completedLevels.length) * 10) / 10
           : 0,
-        difficultyBreakdown: challengeDifficultyBreakdown,
+        difficultyBreakdown: getDifficultyBreakdown(challengeScores),
       };
 
       // Calculate overall difficulty breakdown
-      const allScores = [...classicScores, ...timeAttackScores, ...challengeScores];
-      const overallDifficultyBreakdown = calculateDifficultyBreakdown(allScores);
-
-      const totalGamesPlayed =
-        classicStats.gamesPlayed +
-        timeAttackStats.gamesPlayed +
-        challengeStats.gamesPlayed;
+      const allModeScores = [...classicScores, ...timeAttackScores, ...challengeScores];
+      const overallDifficultyBreakdown = getDifficultyBreakdown(allModeScores);
 
       setModeStats({
         classic: classicStats,
         timeAttack: timeAttackStats,
         challenge: challengeStats,
-        totalGamesPlayed,
+        totalGamesPlayed: allModeScores.length,
         overallDifficultyBreakdown,
       });
     } catch (error) {
@@ -249,6 +236,14 @@ export default function LeaderboardScreen() {
     }
   };
 
+  const handleWatchReplay = (replayId: string) => {
+    playSound('button', 0.6);
+    router.push({
+      pathname: '/',
+      params: { replayId }
+    });
+  };
+
   const handleModeSelect = (mode: GameMode | 'all') => {
     playSound('button', 0.6);
     setSelectedMode(mode);
@@ -259,6 +254,7 @@ export default function LeaderboardScreen() {
     { id: 'classic', name: 'Classic', icon: getModeIcon('classic', 18), color: PREMIUM_COLORS.success },
     { id: 'timeAttack', name: 'Time Attack', icon: getModeIcon('timeAttack', 18), color: PREMIUM_COLORS.accent },
     { id: 'challenge', name: 'Challenge', icon: getModeIcon('challenge', 18), color: PREMIUM_COLORS.bronze },
+    { id: 'zen', name: 'Zen', icon: getModeIcon('zen', 18), color: PREMIUM_COLORS.primaryLight },
   ];
 
   const completedLevels = Object.values(themeState.challengeProgress).filter(level => level.completed).length;
@@ -586,7 +582,7 @@ export default function LeaderboardScreen() {
                           </Text>
                           {score.mode === 'challenge' && score.level && (
                             <Text style={styles.challengeLevelText}>
-                              {CHALLENGE_LEVELS.find(l => l.id === score.level)?.name || `Level ${score.level}`}
+                              {(!score.packId && getChallengeLevel(score.level)?.name) || `Level ${score.level}`}
                             </Text>
                           )}
                         </View>
@@ -629,6 +625,21 @@ export default function LeaderboardScreen() {
                           <Text style={styles.scoreBlocks}>
                             {score.blocks} blocks
                           </Text>
+                          {score.verified && (
+                            <View style={styles.verifiedBadge}>
+                              <ShieldCheck size={12} color="#10b981" />
+                              <Text style={styles.verifiedText}>Verified</Text>
+                            </View>
+                          )}
+                          {score.replayId && (
+                            <TouchableOpacity
+                              style={styles.replayButton}
+                              onPress={() => handleWatchReplay(score.replayId!)}
+                            >
+                              <Play size={12} color={PREMIUM_COLORS.primaryLight} />
+                              <Text style={styles.replayButtonText}>Watch</Text>
+                            </TouchableOpacity>
+                          )}
                         </View>
                         <Text style={styles.scoreDate}>
                           {formatDate(score.date)}
@@ -1060,6 +1071,32 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: PREMIUM_COLORS.textSecondary,
   },
+  verifiedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 10,
+  },
+  verifiedText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  replayButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    backgroundColor: 'rgba(59, 130, 246, 0.15)',
+  },
+  replayButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: PREMIUM_COLORS.primaryLight,
+  },
   challengeLevelText: {
     fontSize: 13,
     fontWeight: '700',
@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Switch, Alert, Dimensions } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Settings, Volume2, VolumeX, Trash2, Info, Target, Zap, Shield, CircleHelp as HelpCircle } from 'lucide-react-native';
+import { Settings, Volume2, VolumeX, Trash2, Info, Target, Zap, Shield, CircleHelp as HelpCircle, HardDrive, Download, Upload } from 'lucide-react-native';
 import { useTheme } from '@/contexts/GameContext';
 import { useSound } from '@/contexts/SoundContext';
-import { clearAllData } from '@/utils/storage';
+import { resetProgression } from '@/utils/progressionStore';
+import { RestoreMode, SaveBackup, createBackup, restoreBackup } from '@/utils/backup';
+import { shareBackup } from '@/utils/sharing';
+import { BackupRestoreModal } from '@/components/BackupRestoreModal';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -44,9 +47,11 @@ interface DifficultyOption {
 }
 
 export default function SettingsScreen() {
-  const { playSound, soundEnabled, toggleSound } = useSound();
-  const { themeState, updateThemeState, setDifficulty } = useTheme();
+  const { playSound, soundEnabled, toggleSound, setSoundEnabled } = useSound();
+  const { themeState, setDifficulty } = useTheme();
   const [isResetting, setIsResetting] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [showRestoreModal, setShowRestoreModal] = useState(false);
   const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyLevel>('medium');
 
   // Sync local state with global state on mount
@@ -113,20 +118,9 @@ export default function SettingsScreen() {
           onPress: async () => {
             setIsResetting(true);
             try {
-              setDifficulty('medium');
               setSelectedDifficulty('medium');
-              await clearAllData();
-
-              // Reset theme state to initial values
-              updateThemeState({
-                coins: 0,
-                currentTheme: 'default',
-                unlockedThemes: ['default'],
-                challengeProgress: {},
-                currentUnlockedLevel: 1,
-                highScores: { classic: 0, timeAttack: 0, challenge: 0 },
-                totalGamesPlayed: 0,
-              });
+              // Wipes storage and hands every subscriber a fresh save
+              await resetProgression();
 
               playSound('success', 0.8);
               Alert.alert('Success', 'All data has been reset successfully.');
@@ -142,6 +136,66 @@ export default function SettingsScreen() {
     );
   };
 
+  const handleExportBackup = async () => {
+    playSound('button', 0.6);
+    setIsBackingUp(true);
+    try {
+      await shareBackup(await createBackup());
+    } catch (error) {
+      playSound('failed', 0.8);
+      Alert.alert('Error', 'Failed to create a backup. Please try again.');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const applyBackup = async (backup: SaveBackup, mode: RestoreMode) => {
+    setIsBackingUp(true);
+    try {
+      const contents = await restoreBackup(backup, mode);
+      setSoundEnabled(contents.soundEnabled);
+
+      playSound('success', 0.8);
+      Alert.alert(
+        'Backup Restored',
+        mode === 'merge'
+          ? 'The backup was merged with your progress on this device.'
+          : 'Your data was replaced with the backup.'
+      );
+    } catch (error) {
+      playSound('failed', 0.8);
+      Alert.alert('Error', 'Failed to restore the backup. Please try again.');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  // The backup is already validated here; all that's left is choosing how it lands
+  const handleRestoreBackup = (backup: SaveBackup) => {
+    setShowRestoreModal(false);
+
+    Alert.alert(
+      'Restore Backup',
+      `Backup from ${new Date(backup.createdAt).toLocaleString()} with ${backup.contents.gameData.coins} coins and ${backup.contents.scores.length} scores.\n\nMerge adds the backup's unlocks, progress and scores but keeps the coins and power-ups on this device; Replace overwrites everything on this device.\n\nBackups are not protected against editing and are only checked for damage, so restore files you made yourself.`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+          onPress: () => playSound('click', 0.5),
+        },
+        {
+          text: 'Merge',
+          onPress: () => applyBackup(backup, 'merge'),
+        },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () => applyBackup(backup, 'replace'),
+        },
+      ]
+    );
+  };
+
   const handleTestSound = () => {
     playSound('chime', 0.8);
   };
@@ -304,6 +358,59 @@ export default function SettingsScreen() {
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Data Management</Text>
 
+          <View style={styles.settingCard}>
+            <LinearGradient
+              colors={PREMIUM_COLORS.cardGradient}
+              style={styles.settingCardGradient}
+            >
+              <View style={styles.settingHeader}>
+                <View style={styles.settingIcon}>
+                  <HardDrive size={24} color={PREMIUM_COLORS.primary} />
+                </View>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingTitle}>Backup & Restore</Text>
+                  <Text style={styles.settingDescription}>
+                    Save your progress, scores and settings to a file, or load them back
+                  </Text>
+                </View>
+              </View>
+
+              <View style={[styles.settingActions, styles.backupActions]}>
+                <TouchableOpacity
+                  style={styles.testButton}
+                  onPress={handleExportBackup}
+                  disabled={isBackingUp}
+                >
+                  <LinearGradient
+                    colors={['rgba(59, 130, 246, 0.15)', 'rgba(59, 130, 246, 0.1)']}
+                    style={styles.testButtonGradient}
+                  >
+                    <Upload size={16} color={PREMIUM_COLORS.primary} />
+                    <Text style={styles.testButtonText}>Export Backup</Text>
+                  </LinearGradient>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.testButton}
+                  onPress={() => {
+                    playSound('button', 0.6);
+                    setShowRestoreModal(true);
+                  }}
+                  disabled={isBackingUp}
+                >
+                  <LinearGradient
+                    colors={['rgba(59, 130, 246, 0.15)', 'rgba(59, 130, 246, 0.1)']}
+                    style={styles.testButtonGradient}
+                  >
+                    <Download size={16} color={PREMIUM_COLORS.primary} />
+                    <Text style={styles.testButtonText}>
+                      {isBackingUp ? 'Working...' : 'Restore Backup'}
+                    </Text>
+                  </LinearGradient>
+                </TouchableOpacity>
+              </View>
+            </LinearGradient>
+          </View>
+
           <View style={styles.settingCard}>
             <LinearGradient
               colors={PREMIUM_COLORS.cardGradient}
@@ -367,6 +474,12 @@ export default function SettingsScreen() {
 
         <View style={styles.bottomSpacer} />
       </ScrollView>
+
+      <BackupRestoreModal
+        visible={showRestoreModal}
+        onRestore={handleRestoreBackup}
+        onClose={() => setShowRestoreModal(false)}
+      />
     </LinearGradient>
   );
 }
@@ -481,6 +594,11 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: PREMIUM_COLORS.border,
   },
+  backupActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+  },
   testButton: {
     borderRadius: 12,
     overflow: 'hidden',
@@ -1,9 +1,10 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Dimensions, Modal } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Coins, Lock, Check, Star, Crown, Zap, Gift, ShoppingBag, Store, AlertCircle, X, Gamepad2, Trophy } from 'lucide-react-native';
-import { Theme } from '@/types/game';
-import { THEMES } from '@/constants/game';
+import { Coins, Lock, Check, Star, Crown, Zap, Gift, ShoppingBag, Store, AlertCircle, X, Gamepad2, Trophy, Sparkles } from 'lucide-react-native';
+import { PowerUp, Theme } from '@/types/game';
+import { POWER_UPS, THEMES } from '@/constants/game';
+import { POWER_UP_ICONS } from '@/components/PowerUpBar';
 import { useTheme } from '@/contexts/GameContext';
 import { useSound } from '@/contexts/SoundContext';
 
@@ -14,7 +15,8 @@ interface InsufficientCoinsModalProps {
   onClose: () => void;
   requiredCoins: number;
   currentCoins: number;
-  themeName: string;
+  itemName: string;
+  itemType?: string;
 }
 
 const InsufficientCoinsModal: React.FC<InsufficientCoinsModalProps> = React.memo(({
@@ -22,7 +24,8 @@ const InsufficientCoinsModal: React.FC<InsufficientCoinsModalProps> = React.memo
   onClose,
   requiredCoins,
   currentCoins,
-  themeName
+  itemName,
+  itemType = 'theme'
 }) => {
   const coinsNeeded = useMemo(() => requiredCoins - currentCoins, [requiredCoins, currentCoins]);
 
@@ -59,7 +62,7 @@ const InsufficientCoinsModal: React.FC<InsufficientCoinsModalProps> = React.memo
           {/* Message */}
           <Text style={styles.modalMessage}>
             You need <Text style={styles.coinsHighlight}>{coinsNeeded} more coins</Text> to purchase the{' '}
-            <Text style={styles.themeNameHighlight}>{themeName}</Text> theme.
+            <Text style={styles.themeNameHighlight}>{itemName}</Text> {itemType}.
           </Text>
 
           {/* Coins Info */}
@@ -238,6 +241,7 @@ export default function Shop(): React.ReactElement {
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [showInsufficientCoinsModal, setShowInsufficientCoinsModal] = useState<boolean>(false);
   const [selectedThemeForPurchase, setSelectedThemeForPurchase] = useState<Theme | null>(null);
+  const [selectedPowerUpForPurchase, setSelectedPowerUpForPurchase] = useState<PowerUp | null>(null);
   const { playSound } = useSound();
 
   // Use global theme context instead of local state
@@ -245,7 +249,8 @@ export default function Shop(): React.ReactElement {
     themeState,
     spendCoins,
     unlockTheme,
-    setCurrentTheme
+    setCurrentTheme,
+    buyPowerUp
   } = useTheme();
 
   const handleThemeSelect = useCallback((themeId: string): void => {
@@ -281,6 +286,16 @@ export default function Shop(): React.ReactElement {
     setShowInsufficientCoinsModal(true);
   }, [playSound]);
 
+  const handlePowerUpPurchase = useCallback((powerUp: PowerUp): void => {
+    if (buyPowerUp(powerUp.id)) {
+      playSound('purchase', 0.8);
+    } else {
+      playSound('failed', 0.5);
+      setSelectedPowerUpForPurchase(powerUp);
+      setShowInsufficientCoinsModal(true);
+    }
+  }, [buyPowerUp, playSound]);
+
   const handleCategorySelect = useCallback((categoryId: string): void => {
     // Play button sound for category selection
     playSound('button', 0.6);
@@ -290,10 +305,12 @@ export default function Shop(): React.ReactElement {
   const handleCloseModal = useCallback((): void => {
     setShowInsufficientCoinsModal(false);
     setSelectedThemeForPurchase(null);
+    setSelectedPowerUpForPurchase(null);
   }, []);
 
   const categories = useMemo(() => [
     { id: 'all', name: 'All', icon: <ShoppingBag size={16} color="#fff" /> },
+    { id: 'powerUps', name: 'Power-Ups', icon: <Sparkles size={16} color="#4facfe" /> },
     { id: 'common', name: 'Common', icon: null },
     { id: 'rare', name: 'Rare', icon: <Star size={16} color="#2196f3" /> },
     { id: 'epic', name: 'Epic', icon: <Zap size={16} color="#9c27b0" /> },
@@ -357,6 +374,40 @@ export default function Shop(): React.ReactElement {
 
       {/* Themes Grid */}
       <ScrollView style={styles.themesContainer} showsVerticalScrollIndicator={false}>
+        {/* Power-ups are consumables, so they can be bought any number of times */}
+        {(selectedCategory === 'all' || selectedCategory === 'powerUps') && (
+          <View style={styles.powerUpsSection}>
+            {selectedCategory === 'all' && <Text style={styles.sectionTitle}>Power-Ups</Text>}
+            {POWER_UPS.map((powerUp) => {
+              const Icon = POWER_UP_ICONS[powerUp.id];
+              const canAfford = themeState.coins >= powerUp.cost;
+
+              return (
+                <View key={powerUp.id} style={styles.powerUpCard}>
+                  <View style={styles.powerUpIcon}>
+                    <Icon size={22} color="#4facfe" />
+                  </View>
+
+                  <View style={styles.powerUpInfo}>
+                    <Text style={styles.themeName}>{powerUp.name}</Text>
+                    <Text style={styles.powerUpDescription}>{powerUp.description}</Text>
+                    <Text style={styles.powerUpOwned}>Owned: {themeState.powerUps[powerUp.id] || 0}</Text>
+                  </View>
+
+                  <TouchableOpacity
+                    style={canAfford ? styles.buyButton : styles.cantAffordContainer}
+                    onPress={() => handlePowerUpPurchase(powerUp)}
+                  >
+                    <Coins size={14} color={canAfford ? '#FFD700' : '#666'} />
+                    <Text style={canAfford ? styles.buyButtonText : styles.cantAffordText}>{powerUp.cost}</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+            {selectedCategory === 'all' && <Text style={styles.sectionTitle}>Themes</Text>}
+          </View>
+        )}
+
         <View style={styles.themesGrid}>
           {updatedThemes.map((theme) => (
             <TouchableOpacity
@@ -469,9 +520,10 @@ export default function Shop(): React.ReactElement {
       <InsufficientCoinsModal
         visible={showInsufficientCoinsModal}
         onClose={handleCloseModal}
-        requiredCoins={selectedThemeForPurchase?.cost || 0}
+        requiredCoins={selectedPowerUpForPurchase?.cost || selectedThemeForPurchase?.cost || 0}
         currentCoins={themeState.coins}
-        themeName={selectedThemeForPurchase?.name || ''}
+        itemName={selectedPowerUpForPurchase?.name || selectedThemeForPurchase?.name || ''}
+        itemType={selectedPowerUpForPurchase ? 'power-up' : 'theme'}
       />
     </View>
   );
@@ -550,6 +602,48 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingHorizontal: 15,
   },
+  powerUpsSection: {
+    marginBottom: 5,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 10,
+  },
+  powerUpCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 15,
+    padding: 12,
+    marginBottom: 10,
+  },
+  powerUpIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(79, 172, 254, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  powerUpInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  powerUpDescription: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginTop: 2,
+    lineHeight: 16,
+  },
+  powerUpOwned: {
+    fontSize: 12,
+    color: '#4facfe',
+    fontWeight: '600',
+    marginTop: 4,
+  },
   themesGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -0,0 +1,511 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { BarChart3, Gamepad as GamepadIcon, TrendingUp, Target, Layers, Flame, Clock, Zap, Percent } from 'lucide-react-native';
+import { useFocusEffect } from 'expo-router';
+import { useSound } from '@/contexts/SoundContext';
+import { DifficultyLevel, GameMode, ScoreRecord } from '@/types/game';
+import { getAllScores, getScores } from '@/utils/storage';
+import {
+  formatPlayTime,
+  getDifficultyBreakdown,
+  getModeBreakdown,
+  getPeriodSummaries,
+  getScoreTrend,
+  summarizeRuns,
+} from '@/utils/analytics';
+
+const STATS_COLORS = {
+  background: ['#0a0a0a', '#1a1a1a'] as const,
+  surfaceGradient: ['rgba(15, 23, 42, 0.8)', 'rgba(30, 41, 59, 0.4)'] as const,
+  cardGradient: ['rgba(30, 41, 59, 0.6)', 'rgba(15, 23, 42, 0.8)'] as const,
+  primary: '#3b82f6',
+  accent: '#8b5cf6',
+  success: '#10b981',
+  gold: '#fbbf24',
+  bronze: '#f97316',
+  textPrimary: '#f8fafc',
+  textSecondary: '#cbd5e1',
+  textTertiary: '#64748b',
+  border: 'rgba(148, 163, 184, 0.1)',
+  borderLight: 'rgba(148, 163, 184, 0.2)',
+  track: 'rgba(148, 163, 184, 0.12)',
+  easy: '#10b981',
+  medium: '#f59e0b',
+  hard: '#ef4444',
+};
+
+const CHART_HEIGHT = 120;
+
+const MODE_FILTERS: Array<{ id: GameMode | 'all'; name: string; color: string }> = [
+  { id: 'all', name: 'All Modes', color: STATS_COLORS.primary },
+  { id: 'classic', name: 'Classic', color: STATS_COLORS.success },
+  { id: 'timeAttack', name: 'Time Attack', color: STATS_COLORS.accent },
+  { id: 'challenge', name: 'Challenge', color: STATS_COLORS.bronze },
+  { id: 'zen', name: 'Zen', color: '#60a5fa' },
+];
+
+const DIFFICULTY_FILTERS: Array<{ id: DifficultyLevel | 'all'; name: string; color: string }> = [
+  { id: 'all', name: 'Any', color: STATS_COLORS.primary },
+  { id: 'easy', name: 'Easy', color: STATS_COLORS.easy },
+  { id: 'medium', name: 'Medium', color: STATS_COLORS.medium },
+  { id: 'hard', name: 'Hard', color: STATS_COLORS.hard },
+];
+
+const MODE_NAMES: Record<GameMode, string> = {
+  classic: 'Classic',
+  timeAttack: 'Time Attack',
+  challenge: 'Challenge',
+  zen: 'Zen',
+  versus: 'Versus',
+  race: 'Race',
+};
+
+const formatShortDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export default function StatsScreen() {
+  const { playSound } = useSound();
+  const [filteredScores, setFilteredScores] = useState<ScoreRecord[]>([]);
+  const [hasHistory, setHasHistory] = useState(false);
+  const [selectedMode, setSelectedMode] = useState<GameMode | 'all'>('all');
+  const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyLevel | 'all'>('all');
+
+  useFocusEffect(
+    useCallback(() => {
+      // The history index skips chunks without the selected mode or difficulty
+      const loadScores = async () => {
+        try {
+          const [scores, latest] = await Promise.all([
+            getAllScores({
+              mode: selectedMode === 'all' ? undefined : selectedMode,
+              difficulty: selectedDifficulty === 'all' ? undefined : selectedDifficulty,
+            }),
+            getScores({ limit: 1 }),
+          ]);
+          setFilteredScores(scores);
+          setHasHistory(latest.scores.length > 0);
+        } catch (error) {
+          console.error('Failed to load scores:', error);
+        }
+      };
+
+      loadScores();
+    }, [selectedMode, selectedDifficulty])
+  );
+
+  const summary = summarizeRuns(filteredScores);
+  const modeBreakdown = getModeBreakdown(filteredScores);
+  const difficultyBreakdown = getDifficultyBreakdown(filteredScores);
+  const trend = getScoreTrend(filteredScores);
+  const periods = getPeriodSummaries(filteredScores);
+  const untrackedGames = summary.gamesPlayed - summary.trackedGames;
+
+  const handleModeSelect = (mode: GameMode | 'all') => {
+    playSound('button', 0.6);
+    setSelectedMode(mode);
+  };
+
+  const handleDifficultySelect = (difficulty: DifficultyLevel | 'all') => {
+    playSound('button', 0.6);
+    setSelectedDifficulty(difficulty);
+  };
+
+  const renderFilterChips = <T extends string>(
+    filters: Array<{ id: T; name: string; color: string }>,
+    selected: T,
+    onSelect: (id: T) => void
+  ) => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.filterRow}
+    >
+      {filters.map(filter => (
+        <TouchableOpacity
+          key={filter.id}
+          style={[
+            styles.filterChip,
+            selected === filter.id && { backgroundColor: filter.color, borderColor: filter.color },
+          ]}
+          onPress={() => onSelect(filter.id)}
+        >
+          <Text style={[styles.filterChipText, selected === filter.id && styles.filterChipTextActive]}>
+            {filter.name}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  const renderStatTile = (icon: React.ReactNode, value: string, label: string) => (
+    <View style={styles.statTile}>
+      <LinearGradient colors={STATS_COLORS.cardGradient} style={styles.statTileGradient}>
+        {icon}
+        <Text style={styles.statTileValue}>{value}</Text>
+        <Text style={styles.statTileLabel}>{label}</Text>
+      </LinearGradient>
+    </View>
+  );
+
+  // Horizontal bars scaled against the largest entry
+  const renderBreakdown = (entries: Array<{ key: string; label: string; count: number; color: string }>) => {
+    const max = Math.max(1, ...entries.map(entry => entry.count));
+    return entries.map(entry => (
+      <View key={entry.key} style={styles.breakdownRow}>
+        <Text style={styles.breakdownLabel}>{entry.label}</Text>
+        <View style={styles.breakdownTrack}>
+          <View
+            style={[
+              styles.breakdownFill,
+              { width: `${(entry.count / max) * 100}%`, backgroundColor: entry.color },
+            ]}
+          />
+        </View>
+        <Text style={styles.breakdownCount}>{entry.count}</Text>
+      </View>
+    ));
+  };
+
+  // Vertical bars; a null value leaves an empty slot so gaps in time stay visible
+  const renderColumnChart = (
+    columns: Array<{ key: string; value: number | null; label?: string }>,
+    max: number,
+    color: string
+  ) => (
+    <View>
+      <View style={styles.chart}>
+        {columns.map(column => (
+          <View key={column.key} style={styles.chartColumn}>
+            {column.value !== null && (
+              <View
+                style={[
+                  styles.chartBar,
+                  {
+                    height: Math.max(2, (column.value / Math.max(1, max)) * CHART_HEIGHT),
+                    backgroundColor: color,
+                  },
+                ]}
+              />
+            )}
+          </View>
+        ))}
+      </View>
+      <View style={styles.chartLabels}>
+        {columns.map(column => (
+          <Text key={column.key} style={styles.chartLabel} numberOfLines={1}>
+            {column.label || ''}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderSection = (title: string, subtitle: string, children: React.ReactNode) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      <View style={styles.sectionCard}>
+        <LinearGradient colors={STATS_COLORS.cardGradient} style={styles.sectionGradient}>
+          <Text style={styles.sectionSubtitle}>{subtitle}</Text>
+          {children}
+        </LinearGradient>
+      </View>
+    </View>
+  );
+
+  const modeEntries = MODE_FILTERS
+    .filter((filter): filter is { id: GameMode; name: string; color: string } => filter.id !== 'all')
+    .map(filter => ({ key: filter.id, label: filter.name, count: modeBreakdown[filter.id] || 0, color: filter.color }));
+  // Versus and race runs only show up once they've been played
+  (['versus', 'race'] as GameMode[]).forEach(mode => {
+    if (modeBreakdown[mode]) {
+      modeEntries.push({ key: mode, label: MODE_NAMES[mode], count: modeBreakdown[mode] || 0, color: STATS_COLORS.gold });
+    }
+  });
+
+  const difficultyEntries = DIFFICULTY_FILTERS
+    .filter((filter): filter is { id: DifficultyLevel; name: string; color: string } => filter.id !== 'all')
+    .map(filter => ({ key: filter.id, label: filter.name, count: difficultyBreakdown[filter.id], color: filter.color }));
+
+  // Label every few bars so the dates don't crowd each other
+  const trendLabelEvery = Math.max(1, Math.ceil(trend.length / 4));
+  const trendColumns = trend.map((point, index) => ({
+    key: `${point.date}-${index}`,
+    value: point.score,
+    label: index % trendLabelEvery === 0 ? formatShortDate(point.date) : undefined,
+  }));
+  const periodColumns = periods.map((period, index) => ({
+    key: period.start,
+    value: period.perfectRate,
+    label: index % 2 === 0 ? formatShortDate(period.start) : undefined,
+  }));
+
+  return (
+    <LinearGradient colors={STATS_COLORS.background} style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <LinearGradient colors={STATS_COLORS.surfaceGradient} style={styles.headerGradient}>
+          <View style={styles.titleContainer}>
+            <BarChart3 size={32} color={STATS_COLORS.primary} />
+            <View>
+              <Text style={styles.title}>Statistics</Text>
+              <Text style={styles.subtitle}>How your stacking is improving</Text>
+            </View>
+          </View>
+        </LinearGradient>
+      </View>
+
+      <ScrollView
+        style={styles.scrollContainer}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {renderFilterChips(MODE_FILTERS, selectedMode, handleModeSelect)}
+        {renderFilterChips(DIFFICULTY_FILTERS, selectedDifficulty, handleDifficultySelect)}
+
+        {summary.gamesPlayed === 0 ? (
+          <View style={styles.emptyState}>
+            <BarChart3 size={56} color={STATS_COLORS.textTertiary} />
+            <Text style={styles.emptyStateTitle}>No games to show</Text>
+            <Text style={styles.emptyStateSubtitle}>
+              {!hasHistory
+                ? 'Finish a game to start tracking your progress.'
+                : 'No games match these filters yet.'}
+            </Text>
+          </View>
+        ) : (
+          <>
+            {/* Overview */}
+            <View style={styles.tileGrid}>
+              {renderStatTile(<GamepadIcon size={20} color={STATS_COLORS.success} />, summary.gamesPlayed.toString(), 'Games')}
+              {renderStatTile(<TrendingUp size={20} color={STATS_COLORS.primary} />, summary.averageScore.toLocaleString(), 'Average Score')}
+              {renderStatTile(<Target size={20} color={STATS_COLORS.accent} />, summary.medianScore.toLocaleString(), 'Median Score')}
+              {renderStatTile(<Layers size={20} color={STATS_COLORS.gold} />, summary.bestHeight.toString(), 'Best Height')}
+              {renderStatTile(<Flame size={20} color={STATS_COLORS.bronze} />, summary.longestCombo.toString(), 'Longest Combo')}
+              {renderStatTile(<Percent size={20} color={STATS_COLORS.success} />, `${Math.round(summary.perfectRate)}%`, 'Perfect Rate')}
+              {renderStatTile(<Clock size={20} color={STATS_COLORS.accent} />, formatPlayTime(summary.totalPlayTimeMs), 'Play Time')}
+              {renderStatTile(<Zap size={20} color={STATS_COLORS.gold} />, summary.bestScore.toLocaleString(), 'Best Score')}
+            </View>
+
+            {untrackedGames > 0 && (
+              <Text style={styles.note}>
+                {untrackedGames} older {untrackedGames === 1 ? 'game has' : 'games have'} no drop
+                stats, so combos, perfect rate and play time leave {untrackedGames === 1 ? 'it' : 'them'} out.
+              </Text>
+            )}
+
+            {renderSection(
+              'Score Trend',
+              `Your last ${trend.length} ${trend.length === 1 ? 'game' : 'games'}, oldest first`,
+              renderColumnChart(trendColumns, summary.bestScore, STATS_COLORS.primary)
+            )}
+
+            {renderSection(
+              'Perfect Rate',
+              'Share of perfect drops each week',
+              renderColumnChart(periodColumns, 100, STATS_COLORS.success)
+            )}
+
+            {selectedMode === 'all' && renderSection('Games by Mode', 'Where you spend your time', renderBreakdown(modeEntries))}
+
+            {selectedDifficulty === 'all' &&
+              renderSection('Games by Difficulty', 'How hard you like it', renderBreakdown(difficultyEntries))}
+          </>
+        )}
+      </ScrollView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 10,
+    paddingHorizontal: 24,
+    marginBottom: 10,
+  },
+  headerGradient: {
+    borderRadius: 24,
+    borderWidth: 1,
+    borderColor: STATS_COLORS.borderLight,
+    padding: 10,
+    alignItems: 'center',
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: STATS_COLORS.textPrimary,
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: STATS_COLORS.textSecondary,
+    marginTop: 4,
+  },
+  scrollContainer: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  filterRow: {
+    gap: 8,
+    paddingBottom: 10,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: STATS_COLORS.borderLight,
+    backgroundColor: 'rgba(30, 41, 59, 0.8)',
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: STATS_COLORS.textSecondary,
+  },
+  filterChipTextActive: {
+    color: '#ffffff',
+  },
+  tileGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  statTile: {
+    width: '48%',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: STATS_COLORS.border,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  statTileGradient: {
+    padding: 16,
+    alignItems: 'center',
+  },
+  statTileValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: STATS_COLORS.textPrimary,
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  statTileLabel: {
+    fontSize: 12,
+    color: STATS_COLORS.textTertiary,
+    fontWeight: '600',
+  },
+  note: {
+    fontSize: 12,
+    color: STATS_COLORS.textTertiary,
+    marginBottom: 12,
+  },
+  section: {
+    marginBottom: 14,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: STATS_COLORS.textPrimary,
+    marginBottom: 10,
+    letterSpacing: -0.5,
+  },
+  sectionCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: STATS_COLORS.border,
+    overflow: 'hidden',
+  },
+  sectionGradient: {
+    padding: 16,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: STATS_COLORS.textSecondary,
+    marginBottom: 12,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 3,
+    borderBottomWidth: 1,
+    borderBottomColor: STATS_COLORS.borderLight,
+  },
+  chartColumn: {
+    flex: 1,
+    height: CHART_HEIGHT,
+    justifyContent: 'flex-end',
+  },
+  chartBar: {
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  chartLabels: {
+    flexDirection: 'row',
+    gap: 3,
+    marginTop: 6,
+  },
+  chartLabel: {
+    flex: 1,
+    fontSize: 10,
+    color: STATS_COLORS.textTertiary,
+    overflow: 'visible',
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  breakdownLabel: {
+    width: 90,
+    fontSize: 13,
+    fontWeight: '600',
+    color: STATS_COLORS.textSecondary,
+  },
+  breakdownTrack: {
+    flex: 1,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: STATS_COLORS.track,
+    overflow: 'hidden',
+  },
+  breakdownFill: {
+    height: '100%',
+    borderRadius: 5,
+  },
+  breakdownCount: {
+    width: 36,
+    textAlign: 'right',
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: STATS_COLORS.textPrimary,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyStateTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: STATS_COLORS.textPrimary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateSubtitle: {
+    fontSize: 14,
+    color: STATS_COLORS.textSecondary,
+    textAlign: 'center',
+  },
+});
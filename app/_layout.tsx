@@ -1,12 +1,14 @@
-import { Stack } from 'expo-router';
-import { useEffect } from 'react';
+import { Stack, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
 import { AppState, Platform, View, StatusBar as RNStatusBar, SafeAreaView } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { ThemeProvider, useTheme } from '@/contexts/GameContext';
 import { SoundProvider } from '@/contexts/SoundContext';
-import { flushPendingWrites } from '@/utils/storage';
+import { SaveSection, dismissCorruptedSections, flushPendingWrites, getCorruptedSections, getScores } from '@/utils/storage';
+import { loadProgression } from '@/utils/progressionStore';
+import { SaveCorruptedModal } from '@/components/SaveCorruptedModal';
 import { THEMES } from '@/constants/game'; // Import your themes
 
 // Theme-aware status bar component
@@ -75,6 +77,34 @@ function ThemedStatusBar() {
   );
 }
 
+// Reads both signed sections at launch so a failed checksum is reported straight away
+function SaveIntegrityCheck() {
+  const router = useRouter();
+  const [corruptedSections, setCorruptedSections] = useState<SaveSection[]>([]);
+
+  useEffect(() => {
+    Promise.all([loadProgression(), getScores()])
+      .then(() => setCorruptedSections(getCorruptedSections()))
+      .catch(console.error);
+  }, []);
+
+  const dismiss = () => {
+    dismissCorruptedSections();
+    setCorruptedSections([]);
+  };
+
+  return (
+    <SaveCorruptedModal
+      sections={corruptedSections}
+      onRestoreBackup={() => {
+        dismiss();
+        router.push('/settings');
+      }}
+      onStartFresh={dismiss}
+    />
+  );
+}
+
 // Wrapper component for themed layout
 function ThemedLayoutContent() {
   const { themeState } = useTheme();
@@ -105,8 +135,11 @@ function ThemedLayoutContent() {
         contentStyle: { backgroundColor: 'transparent' }
       }}>
         <Stack.Screen name="(tabs)" />
+        <Stack.Screen name="level-editor" />
         <Stack.Screen name="+not-found" />
       </Stack>
+
+      <SaveIntegrityCheck />
     </>
   );
 }
@@ -0,0 +1,666 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView, Alert } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ArrowLeft, Minus, Plus, Play, Save, Star, Trash2, FilePlus, PencilRuler } from 'lucide-react-native';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { Block, ChallengeLevel, LevelPack, PackLevelProgress, StarCriterion } from '@/types/game';
+import { LEVEL_EDITOR_CONFIG } from '@/constants/game';
+import { useSound } from '@/contexts/SoundContext';
+import { getLevelPack, saveLevelPack, getPackProgress } from '@/utils/storage';
+import { describeObjective } from '@/utils/levelGenerator';
+import {
+  MY_LEVELS_PACK_ID,
+  SPECIAL_BLOCK_TYPES,
+  upsertMyLevel,
+  getNextLevelId,
+  validateChallengeLevel,
+} from '@/utils/levelPacks';
+
+// Same palette as the challenges screen this editor is opened from
+const EDITOR_COLORS = {
+  background: ['rgba(0, 0, 0, 0.95)', 'rgba(0, 0, 0, 0.8)'] as const,
+  cardBackground: 'rgba(0, 0, 0, 0.4)',
+  cardBorder: 'rgba(59, 130, 246, 0.3)',
+  primary: '#3b82f6',
+  textPrimary: '#ffffff',
+  textSecondary: '#e5e7eb',
+  textTertiary: '#9ca3af',
+  coin: '#fbbf24',
+  success: '#10b981',
+  error: '#ef4444',
+  locked: '#6b7280',
+};
+
+const SPECIAL_BLOCK_LABELS: Record<NonNullable<Block['type']>, string> = {
+  normal: 'Normal',
+  slippery: 'Slippery',
+  heavy: 'Heavy',
+  irregular: 'Irregular',
+};
+
+interface LevelDraft {
+  id: number;
+  name: string;
+  description: string;
+  targetBlocks: number;
+  timeLimit: number; // 0 = no limit
+  specialBlocks: Block['type'][];
+  perfectBlocksRequired: number; // 0 = none
+  twoStarScore: string; // Kept as typed so half-entered numbers can be flagged
+  threeStarScore: string;
+}
+
+const createDraft = (id: number): LevelDraft => ({
+  id,
+  name: '',
+  description: '',
+  targetBlocks: LEVEL_EDITOR_CONFIG.DEFAULT_TARGET_BLOCKS,
+  timeLimit: 0,
+  specialBlocks: [],
+  perfectBlocksRequired: 0,
+  twoStarScore: '',
+  threeStarScore: '',
+});
+
+// The editor only sets score thresholds; criteria written by hand in a pack file aren't shown
+const getStarScore = (options: StarCriterion[][] | undefined): string => {
+  const criterion = options?.length === 1 && options[0].length === 1 ? options[0][0] : undefined;
+  return criterion?.type === 'score' ? String(criterion.min) : '';
+};
+
+const draftFromLevel = (level: ChallengeLevel): LevelDraft => ({
+  id: level.id,
+  name: level.name,
+  description: level.description,
+  targetBlocks: level.targetBlocks,
+  timeLimit: level.timeLimit || 0,
+  specialBlocks: level.specialBlocks || [],
+  perfectBlocksRequired: level.perfectBlocksRequired || 0,
+  twoStarScore: getStarScore(level.starCriteria?.twoStars),
+  threeStarScore: getStarScore(level.starCriteria?.threeStars),
+});
+
+const levelFromDraft = (draft: LevelDraft): ChallengeLevel => {
+  const timeLimit = draft.timeLimit > 0 ? draft.timeLimit : undefined;
+  const specialBlocks = draft.specialBlocks.length > 0 ? draft.specialBlocks : undefined;
+  const perfectBlocksRequired = draft.perfectBlocksRequired > 0 ? draft.perfectBlocksRequired : undefined;
+  const hasStarScores = draft.twoStarScore.trim() !== '' || draft.threeStarScore.trim() !== '';
+
+  return {
+    id: draft.id,
+    name: draft.name.trim(),
+    description: draft.description.trim(),
+    objective: describeObjective(draft.targetBlocks, timeLimit, specialBlocks, perfectBlocksRequired),
+    targetBlocks: draft.targetBlocks,
+    timeLimit,
+    specialBlocks,
+    perfectBlocksRequired,
+    starCriteria: hasStarScores
+      ? {
+          twoStars: [[{ type: 'score', min: Number(draft.twoStarScore) }]],
+          threeStars: [[{ type: 'score', min: Number(draft.threeStarScore) }]],
+        }
+      : undefined,
+    completed: false,
+    stars: 0,
+  };
+};
+
+export default function LevelEditorScreen() {
+  const router = useRouter();
+  const { playSound } = useSound();
+  const [myLevels, setMyLevels] = useState<LevelPack | null>(null);
+  const [progress, setProgress] = useState<Record<number, PackLevelProgress>>({});
+  const [draft, setDraft] = useState<LevelDraft>(() => createDraft(1));
+  const [isSaved, setIsSaved] = useState(false);
+
+  const loadMyLevels = useCallback(async () => {
+    const [pack, allProgress] = await Promise.all([getLevelPack(MY_LEVELS_PACK_ID), getPackProgress()]);
+    const levelProgress = allProgress[MY_LEVELS_PACK_ID] || {};
+    setMyLevels(pack);
+    setProgress(levelProgress);
+    return { pack, progressIds: Object.keys(levelProgress).map(Number) };
+  }, []);
+
+  // An unsaved draft always takes the next free id, even if a test run used its old one
+  useFocusEffect(
+    useCallback(() => {
+      loadMyLevels().then(({ pack, progressIds }) => {
+        if (!isSaved) {
+          setDraft(current => ({ ...current, id: getNextLevelId(pack, progressIds) }));
+        }
+      });
+    }, [loadMyLevels, isSaved])
+  );
+
+  const level = useMemo(() => levelFromDraft(draft), [draft]);
+  const errors = useMemo(() => {
+    const levelErrors = validateChallengeLevel(level, level.name || 'This level');
+    if (level.starCriteria && Number(draft.threeStarScore) <= Number(draft.twoStarScore)) {
+      levelErrors.push('The three-star score must be higher than the two-star score');
+    }
+    return levelErrors;
+  }, [level, draft]);
+
+  const updateDraft = (changes: Partial<LevelDraft>) => {
+    setDraft(current => ({ ...current, ...changes }));
+  };
+
+  const toggleSpecialBlock = (type: Block['type']) => {
+    playSound('click', 0.5);
+    updateDraft({
+      specialBlocks: draft.specialBlocks.includes(type)
+        ? draft.specialBlocks.filter(existing => existing !== type)
+        : [...draft.specialBlocks, type],
+    });
+  };
+
+  const handleNewLevel = () => {
+    playSound('button', 0.6);
+    setDraft(createDraft(getNextLevelId(myLevels, Object.keys(progress).map(Number))));
+    setIsSaved(false);
+  };
+
+  const handleEditLevel = (existing: ChallengeLevel) => {
+    playSound('button', 0.6);
+    setDraft(draftFromLevel(existing));
+    setIsSaved(true);
+  };
+
+  const handleSave = async () => {
+    if (errors.length > 0) return;
+
+    await saveLevelPack(upsertMyLevel(myLevels, level));
+    await loadMyLevels();
+    setIsSaved(true);
+    playSound('success', 0.8);
+  };
+
+  // Test runs don't need a save; the game picks the level up straight from the route
+  const handleTestPlay = () => {
+    if (errors.length > 0) return;
+
+    playSound('success', 0.8);
+    router.push({
+      pathname: '/',
+      params: {
+        mode: 'challenge',
+        testLevel: JSON.stringify(level),
+        autoStart: 'true'
+      }
+    });
+  };
+
+  const handlePlayLevel = (existing: ChallengeLevel) => {
+    playSound('success', 0.8);
+    router.push({
+      pathname: '/',
+      params: {
+        mode: 'challenge',
+        packId: MY_LEVELS_PACK_ID,
+        levelId: existing.id.toString(),
+        autoStart: 'true'
+      }
+    });
+  };
+
+  const handleDeleteLevel = (existing: ChallengeLevel) => {
+    playSound('button', 0.6);
+    Alert.alert(
+      'Delete Level',
+      `Remove "${existing.name}" from My Levels?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            if (!myLevels) return;
+            await saveLevelPack({ ...myLevels, levels: myLevels.levels.filter(l => l.id !== existing.id) });
+            const { pack, progressIds } = await loadMyLevels();
+            if (draft.id === existing.id) {
+              setDraft(createDraft(getNextLevelId(pack, progressIds)));
+              setIsSaved(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderStepper = (
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+    min: number,
+    max: number,
+    step: number = 1,
+    format: (value: number) => string = String
+  ) => (
+    <View style={styles.stepperRow}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={[styles.stepperButton, value <= min && styles.stepperButtonDisabled]}
+          onPress={() => onChange(Math.max(min, value - step))}
+          disabled={value <= min}
+        >
+          <Minus size={16} color={EDITOR_COLORS.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{format(value)}</Text>
+        <TouchableOpacity
+          style={[styles.stepperButton, value >= max && styles.stepperButtonDisabled]}
+          onPress={() => onChange(Math.min(max, value + step))}
+          disabled={value >= max}
+        >
+          <Plus size={16} color={EDITOR_COLORS.textPrimary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderStars = (stars: number) => (
+    <View style={styles.starsContainer}>
+      {[1, 2, 3].map(star => (
+        <Star
+          key={star}
+          size={14}
+          color={star <= stars ? EDITOR_COLORS.coin : EDITOR_COLORS.locked}
+          fill={star <= stars ? EDITOR_COLORS.coin : 'transparent'}
+        />
+      ))}
+    </View>
+  );
+
+  return (
+    <LinearGradient colors={EDITOR_COLORS.background} style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color={EDITOR_COLORS.textPrimary} />
+        </TouchableOpacity>
+        <PencilRuler size={26} color={EDITOR_COLORS.primary} />
+        <Text style={styles.title}>Level Editor</Text>
+      </View>
+
+      <ScrollView style={styles.scrollContainer} contentContainerStyle={styles.scrollContent}>
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>{isSaved ? 'Edit Level' : 'New Level'}</Text>
+            <TouchableOpacity style={styles.newButton} onPress={handleNewLevel}>
+              <FilePlus size={16} color={EDITOR_COLORS.textSecondary} />
+              <Text style={styles.newButtonText}>New</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.fieldLabel}>Name</Text>
+          <TextInput
+            style={styles.input}
+            value={draft.name}
+            onChangeText={name => updateDraft({ name })}
+            placeholder="Level name"
+            placeholderTextColor={EDITOR_COLORS.textTertiary}
+            maxLength={40}
+          />
+
+          <Text style={styles.fieldLabel}>Description</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={draft.description}
+            onChangeText={description => updateDraft({ description })}
+            placeholder="What makes this level special?"
+            placeholderTextColor={EDITOR_COLORS.textTertiary}
+            maxLength={120}
+            multiline
+          />
+
+          {renderStepper(
+            'Target blocks',
+            draft.targetBlocks,
+            targetBlocks => updateDraft({ targetBlocks }),
+            LEVEL_EDITOR_CONFIG.MIN_TARGET_BLOCKS,
+            LEVEL_EDITOR_CONFIG.MAX_TARGET_BLOCKS
+          )}
+          {renderStepper(
+            'Time limit',
+            draft.timeLimit,
+            timeLimit => updateDraft({ timeLimit }),
+            0,
+            LEVEL_EDITOR_CONFIG.MAX_TIME_LIMIT,
+            LEVEL_EDITOR_CONFIG.TIME_LIMIT_STEP,
+            value => (value > 0 ? `${value}s` : 'None')
+          )}
+          {renderStepper(
+            'Perfect blocks required',
+            draft.perfectBlocksRequired,
+            perfectBlocksRequired => updateDraft({ perfectBlocksRequired }),
+            0,
+            LEVEL_EDITOR_CONFIG.MAX_TARGET_BLOCKS,
+            1,
+            value => (value > 0 ? String(value) : 'None')
+          )}
+
+          <Text style={styles.fieldLabel}>Special blocks</Text>
+          <View style={styles.chipRow}>
+            {SPECIAL_BLOCK_TYPES.map(type => {
+              const selected = draft.specialBlocks.includes(type);
+              return (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => toggleSpecialBlock(type)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {SPECIAL_BLOCK_LABELS[type]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.fieldLabel}>Star scores (optional)</Text>
+          <View style={styles.starScoreRow}>
+            <View style={styles.starScoreField}>
+              {renderStars(2)}
+              <TextInput
+                style={styles.input}
+                value={draft.twoStarScore}
+                onChangeText={twoStarScore => updateDraft({ twoStarScore })}
+                placeholder="Auto"
+                placeholderTextColor={EDITOR_COLORS.textTertiary}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={styles.starScoreField}>
+              {renderStars(3)}
+              <TextInput
+                style={styles.input}
+                value={draft.threeStarScore}
+                onChangeText={threeStarScore => updateDraft({ threeStarScore })}
+                placeholder="Auto"
+                placeholderTextColor={EDITOR_COLORS.textTertiary}
+                keyboardType="number-pad"
+              />
+            </View>
+          </View>
+
+          <Text style={styles.objective}>{level.objective}</Text>
+
+          {errors.map(error => (
+            <Text key={error} style={styles.errorText}>• {error}</Text>
+          ))}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.testButton, errors.length > 0 && styles.actionDisabled]}
+              onPress={handleTestPlay}
+              disabled={errors.length > 0}
+            >
+              <Play size={18} color={EDITOR_COLORS.textPrimary} />
+              <Text style={styles.actionText}>Test Play</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.saveButton, errors.length > 0 && styles.actionDisabled]}
+              onPress={handleSave}
+              disabled={errors.length > 0}
+            >
+              <Save size={18} color={EDITOR_COLORS.textPrimary} />
+              <Text style={styles.actionText}>{isSaved ? 'Save Changes' : 'Save'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* My Levels */}
+        <Text style={styles.sectionTitle}>My Levels</Text>
+        {!myLevels || myLevels.levels.length === 0 ? (
+          <Text style={styles.emptyText}>Levels you save show up here.</Text>
+        ) : (
+          myLevels.levels.map(existing => (
+            <TouchableOpacity
+              key={existing.id}
+              style={[styles.levelRow, existing.id === draft.id && isSaved && styles.levelRowEditing]}
+              onPress={() => handleEditLevel(existing)}
+            >
+              <View style={styles.levelInfo}>
+                <Text style={styles.levelName}>{existing.name}</Text>
+                <Text style={styles.levelObjective}>{existing.objective}</Text>
+              </View>
+              {renderStars(progress[existing.id]?.stars || 0)}
+              <TouchableOpacity style={styles.rowAction} onPress={() => handlePlayLevel(existing)}>
+                <Play size={18} color={EDITOR_COLORS.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.rowAction} onPress={() => handleDeleteLevel(existing)}>
+                <Trash2 size={18} color={EDITOR_COLORS.error} />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))
+        )}
+
+        <View style={styles.footer} />
+      </ScrollView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 10,
+    paddingHorizontal: 24,
+    paddingBottom: 20,
+    gap: 12,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: EDITOR_COLORS.textPrimary,
+  },
+  scrollContainer: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+  },
+  card: {
+    backgroundColor: EDITOR_COLORS.cardBackground,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: EDITOR_COLORS.cardBorder,
+    padding: 16,
+    marginBottom: 24,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    color: EDITOR_COLORS.textPrimary,
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  newButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    padding: 6,
+  },
+  newButtonText: {
+    color: EDITOR_COLORS.textSecondary,
+    fontSize: 14,
+  },
+  fieldLabel: {
+    color: EDITOR_COLORS.textTertiary,
+    fontSize: 13,
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: EDITOR_COLORS.textPrimary,
+    fontSize: 15,
+  },
+  multilineInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 6,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: EDITOR_COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonDisabled: {
+    opacity: 0.3,
+  },
+  stepperValue: {
+    color: EDITOR_COLORS.textPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+    minWidth: 48,
+    textAlign: 'center',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: EDITOR_COLORS.cardBorder,
+  },
+  chipSelected: {
+    backgroundColor: EDITOR_COLORS.primary,
+    borderColor: EDITOR_COLORS.primary,
+  },
+  chipText: {
+    color: EDITOR_COLORS.textTertiary,
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: EDITOR_COLORS.textPrimary,
+    fontWeight: '600',
+  },
+  starScoreRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  starScoreField: {
+    flex: 1,
+    gap: 6,
+  },
+  starsContainer: {
+    flexDirection: 'row',
+    gap: 2,
+  },
+  objective: {
+    color: EDITOR_COLORS.textSecondary,
+    fontSize: 14,
+    fontStyle: 'italic',
+    marginTop: 16,
+  },
+  errorText: {
+    color: EDITOR_COLORS.error,
+    fontSize: 13,
+    marginTop: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  testButton: {
+    backgroundColor: EDITOR_COLORS.primary,
+  },
+  saveButton: {
+    backgroundColor: EDITOR_COLORS.success,
+  },
+  actionDisabled: {
+    opacity: 0.4,
+  },
+  actionText: {
+    color: EDITOR_COLORS.textPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    color: EDITOR_COLORS.textPrimary,
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  emptyText: {
+    color: EDITOR_COLORS.textTertiary,
+    fontSize: 14,
+  },
+  levelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: EDITOR_COLORS.cardBackground,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: EDITOR_COLORS.cardBorder,
+    padding: 12,
+    marginBottom: 10,
+  },
+  levelRowEditing: {
+    borderColor: EDITOR_COLORS.success,
+  },
+  levelInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  levelName: {
+    color: EDITOR_COLORS.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  levelObjective: {
+    color: EDITOR_COLORS.textTertiary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  rowAction: {
+    padding: 6,
+    marginLeft: 6,
+  },
+  footer: {
+    height: 40,
+  },
+});
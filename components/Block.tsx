@@ -7,6 +7,7 @@ import Animated, {
   withSequence,
   interpolate,
   Extrapolate,
+  Easing,
 } from 'react-native-reanimated';
 import React from 'react';
 import { memo, useMemo } from 'react';
@@ -14,7 +15,7 @@ import { StyleSheet, View } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import Svg, { Path, Rect, Circle, Defs, RadialGradient, Stop, LinearGradient as SVGLinearGradient, Filter, FeGaussianBlur, FeMorphology, FeColorMatrix } from 'react-native-svg';
 import { Block as BlockType } from '../types/game';
-import { getBlockColors } from '../utils/gameLogic';
+import { getBlockColors, getBlockColorIndex } from '../utils/gameLogic';
 
 interface BlockProps {
   block: BlockType;
@@ -22,6 +23,9 @@ interface BlockProps {
   themeId?: string;
 }
 
+const SLIDE_DURATION = 260;
+const GROWTH_SPRING = { damping: 12, stiffness: 180, mass: 0.8 };
+
 // Facial expression types
 const EXPRESSIONS = ['cute'] as const;
 type Expression = typeof EXPRESSIONS[number];
@@ -434,16 +438,20 @@ const BlockComponent: React.FC<BlockProps> = ({
   isDropping = false,
   themeId = 'default'
 }) => {
-  const colorIndex = block.id === 'base' ? 0 : parseInt(block.id.split('-')[1] || '0') % 8;
+  const colorIndex = getBlockColorIndex(block.id);
   const [startColor, endColor] = getBlockColors(colorIndex, themeId);
 
   // Get consistent expression for this block
   const expression = useMemo(() => getExpressionForBlock(block.id), [block.id]);
 
   // Enhanced shared values for premium animations
-  const translateX = useSharedValue(block.x);
+  // Slippery blocks mount where they touched down and slide to their resting x;
+  // regrown blocks mount at their old width and expand around their center
+  const initialX = block.slideFromX ??
+    (block.grownFromWidth !== undefined ? block.x + (block.width - block.grownFromWidth) / 2 : block.x);
+  const translateX = useSharedValue(initialX);
   const translateY = useSharedValue(block.y);
-  const blockWidth = useSharedValue(block.width);
+  const blockWidth = useSharedValue(block.grownFromWidth ?? block.width);
   const blockScale = useSharedValue(1);
   const glowAnimation = useSharedValue(0);
 
@@ -472,12 +480,24 @@ const BlockComponent: React.FC<BlockProps> = ({
       translateX.value = block.x;
       translateY.value = block.y;
       blockWidth.value = block.width;
+    } else if (block.grownFromWidth !== undefined) {
+      translateX.value = withSpring(block.x, GROWTH_SPRING);
+      translateY.value = withTiming(block.y, { duration: ANIMATION_CONFIG.duration });
+      blockWidth.value = withSpring(block.width, GROWTH_SPRING);
+      blockScale.value = withSequence(
+        withSpring(1.06, GROWTH_SPRING),
+        withSpring(1, GROWTH_SPRING)
+      );
+    } else if (block.slideFromX !== undefined) {
+      translateX.value = withTiming(block.x, { duration: SLIDE_DURATION, easing: Easing.out(Easing.cubic) });
+      translateY.value = withTiming(block.y, { duration: ANIMATION_CONFIG.duration });
+      blockWidth.value = withTiming(block.width, { duration: ANIMATION_CONFIG.duration });
     } else {
       translateX.value = withTiming(block.x, { duration: ANIMATION_CONFIG.duration });
       translateY.value = withTiming(block.y, { duration: ANIMATION_CONFIG.duration });
       blockWidth.value = withTiming(block.width, { duration: ANIMATION_CONFIG.duration });
     }
-  }, [block.x, block.y, block.width, block.isMoving, ANIMATION_CONFIG.duration]);
+  }, [block.x, block.y, block.width, block.isMoving, block.slideFromX, block.grownFromWidth, ANIMATION_CONFIG.duration]);
 
   // Faster drop animation with reduced duration
   React.useEffect(() => {
@@ -584,6 +604,14 @@ const BlockComponent: React.FC<BlockProps> = ({
         expression={expression}
         glowAnimation={glowAnimation}
       />
+
+      {/* Irregular blocks are missing chunks of their bottom edge */}
+      {block.footprint && (
+        <>
+          <View style={[styles.footprintNotch, styles.footprintNotchLeft, { width: block.footprint.left }]} />
+          <View style={[styles.footprintNotch, styles.footprintNotchRight, { width: block.footprint.right }]} />
+        </>
+      )}
     </Animated.View>
   );
 };
@@ -595,6 +623,8 @@ export const Block = memo(BlockComponent, (prevProps, nextProps) => {
     Math.abs(prevProps.block.x - nextProps.block.x) < 0.5 &&
     Math.abs(prevProps.block.y - nextProps.block.y) < 0.5 &&
     Math.abs(prevProps.block.width - nextProps.block.width) < 0.5 &&
+    prevProps.block.height === nextProps.block.height &&
+    prevProps.block.footprint === nextProps.block.footprint &&
     prevProps.block.isMoving === nextProps.block.isMoving &&
     prevProps.block.type === nextProps.block.type &&
     prevProps.isDropping === nextProps.isDropping &&
@@ -619,4 +649,23 @@ const styles = StyleSheet.create({
   shineOverlay: {
     opacity: 0.6,
   },
+  footprintNotch: {
+    position: 'absolute',
+    bottom: 0,
+    height: '35%',
+    backgroundColor: 'rgba(0, 0, 0, 0.55)',
+    borderTopWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  footprintNotchLeft: {
+    left: 0,
+    borderRightWidth: 2,
+    borderBottomLeftRadius: 8,
+  },
+  footprintNotchRight: {
+    right: 0,
+    borderLeftWidth: 2,
+    borderBottomRightRadius: 8,
+  },
 });
\ No newline at end of file
@@ -4,8 +4,11 @@ import Animated, {
 } from 'react-native-reanimated';
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { Star, Pause } from 'lucide-react-native';
-import { ChallengeLevel } from '../types/game';
+import { Star, Pause, Check, X, Circle } from 'lucide-react-native';
+import { ActivePowerUps, ChallengeLevel, ObjectiveProgress, PowerUpInventory, PowerUpType } from '../types/game';
+import { getObjectiveLabel } from '../utils/objectives';
+import { PowerUpBar } from './PowerUpBar';
+import { GhostIndicator } from './GhostIndicator';
 
 interface ChallengeUIProps {
   level: ChallengeLevel;
@@ -13,8 +16,13 @@ interface ChallengeUIProps {
   score: number;
   combo: number;
   timeRemaining?: number;
+  objectives?: ObjectiveProgress[];
   gameStarted: boolean;
   onPause: () => void;
+  powerUps?: PowerUpInventory;
+  activePowerUps?: ActivePowerUps;
+  onActivatePowerUp?: (powerUp: PowerUpType) => void;
+  ghostDelta?: number; // Blocks ahead of the personal-best ghost, when one is racing
 }
 
 export const ChallengeUI: React.FC<ChallengeUIProps> = ({
@@ -23,11 +31,18 @@ export const ChallengeUI: React.FC<ChallengeUIProps> = ({
   score,
   combo,
   timeRemaining,
+  objectives,
   gameStarted,
   onPause,
+  powerUps,
+  activePowerUps,
+  onActivatePowerUp,
+  ghostDelta,
 }) => {
 
   const progress = Math.min(currentBlocks / level.targetBlocks, 1);
+  // The height goal already has the progress bar
+  const extraObjectives = (objectives || []).filter(entry => entry.objective.type !== 'reachHeight');
 
   const progressStyle = useAnimatedStyle(() => {
     return {
@@ -78,6 +93,36 @@ export const ChallengeUI: React.FC<ChallengeUIProps> = ({
           </View>
         </View>
 
+        {extraObjectives.length > 0 && (
+          <View style={styles.objectivesList}>
+            {extraObjectives.map((entry, index) => (
+              <View key={index} style={styles.objectiveRow}>
+                {entry.status === 'met' ? (
+                  <Check size={14} color="#2ed573" />
+                ) : entry.status === 'failed' ? (
+                  <X size={14} color="#ff4757" />
+                ) : (
+                  <Circle size={14} color="#888" />
+                )}
+                <Text
+                  style={[
+                    styles.objectiveLabel,
+                    entry.status === 'met' && styles.objectiveMet,
+                    entry.status === 'failed' && styles.objectiveFailed,
+                  ]}
+                >
+                  {getObjectiveLabel(entry.objective)}
+                </Text>
+                {entry.objective.type !== 'noMisses' && (
+                  <Text style={styles.objectiveCount}>
+                    {entry.current}/{entry.target}
+                  </Text>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
         <View style={styles.starsContainer}>
           {[1, 2, 3].map((star) => (
             <Star
@@ -88,12 +133,22 @@ export const ChallengeUI: React.FC<ChallengeUIProps> = ({
             />
           ))}
         </View>
+
+        {ghostDelta !== undefined && (
+          <View style={styles.ghostRow}>
+            <GhostIndicator delta={ghostDelta} />
+          </View>
+        )}
       </View>
 
       {/* Combo Display */}
       <Animated.View style={[styles.comboContainer, comboStyle]}>
         <Text style={styles.comboText}>COMBO x{combo}</Text>
       </Animated.View>
+
+      {powerUps && onActivatePowerUp && (
+        <PowerUpBar inventory={powerUps} active={activePowerUps} onActivate={onActivatePowerUp} />
+      )}
     </View>
   );
 };
@@ -190,11 +245,41 @@ const styles = StyleSheet.create({
     backgroundColor: '#4facfe',
     borderRadius: 3,
   },
+  objectivesList: {
+    gap: 4,
+    marginBottom: 10,
+  },
+  objectiveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  objectiveLabel: {
+    flex: 1,
+    color: '#ccc',
+    fontSize: 13,
+  },
+  objectiveMet: {
+    color: '#2ed573',
+  },
+  objectiveFailed: {
+    color: '#ff4757',
+    textDecorationLine: 'line-through',
+  },
+  objectiveCount: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   starsContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
     gap: 5,
   },
+  ghostRow: {
+    alignItems: 'center',
+    marginTop: 10,
+  },
   comboContainer: {
     position: 'absolute',
     top: 190,
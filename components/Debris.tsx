@@ -0,0 +1,102 @@
+import Animated, {
+  useAnimatedStyle,
+  withTiming,
+  useSharedValue,
+  runOnJS,
+  Easing,
+} from 'react-native-reanimated';
+import React from 'react';
+import { memo } from 'react';
+import { StyleSheet } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { DebrisPiece as DebrisPieceType } from '../types/game';
+import { getBlockColors } from '../utils/gameLogic';
+import { getDebrisFallDuration } from '../utils/debris';
+import { GAME_CONFIG, DEBRIS_CONFIG } from '../constants/game';
+
+interface DebrisProps {
+  pieces: DebrisPieceType[];
+  themeId?: string;
+  onPieceFinished: (id: string) => void;
+}
+
+interface DebrisPieceProps {
+  piece: DebrisPieceType;
+  themeId: string;
+  onFinished: (id: string) => void;
+}
+
+// One screen height below its start is always off-screen, whatever the camera offset
+const FALL_DISTANCE = GAME_CONFIG.SCREEN_HEIGHT;
+
+const DebrisPieceComponent: React.FC<DebrisPieceProps> = ({ piece, themeId, onFinished }) => {
+  const [startColor, endColor] = getBlockColors(piece.colorIndex, themeId);
+  const direction = piece.side === 'left' ? -1 : 1;
+
+  const fallY = useSharedValue(0);
+  const driftX = useSharedValue(0);
+  const rotation = useSharedValue(0);
+  const opacity = useSharedValue(1);
+
+  React.useEffect(() => {
+    const duration = getDebrisFallDuration(FALL_DISTANCE);
+
+    // Quadratic ease-in is exactly constant acceleration from rest
+    fallY.value = withTiming(FALL_DISTANCE, { duration, easing: Easing.in(Easing.quad) }, finished => {
+      if (finished) {
+        runOnJS(onFinished)(piece.id);
+      }
+    });
+    driftX.value = withTiming(DEBRIS_CONFIG.HORIZONTAL_DRIFT * direction, { duration, easing: Easing.out(Easing.quad) });
+    rotation.value = withTiming(DEBRIS_CONFIG.MAX_ROTATION * direction, { duration, easing: Easing.linear });
+    opacity.value = withTiming(0.6, { duration });
+  }, []);
+
+  const animatedStyle = useAnimatedStyle(() => {
+    return {
+      transform: [
+        { translateX: piece.x + driftX.value },
+        { translateY: piece.y + fallY.value },
+        { rotate: `${rotation.value}deg` },
+      ],
+      opacity: opacity.value,
+    };
+  }, [piece.x, piece.y]);
+
+  return (
+    <Animated.View
+      style={[styles.piece, { width: piece.width, height: piece.height }, animatedStyle]}
+      pointerEvents="none"
+    >
+      <LinearGradient
+        colors={[startColor, endColor]}
+        style={[StyleSheet.absoluteFillObject, { borderRadius: 8 }]}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      />
+    </Animated.View>
+  );
+};
+
+const DebrisPiece = memo(DebrisPieceComponent, (prevProps, nextProps) => {
+  return prevProps.piece.id === nextProps.piece.id && prevProps.themeId === nextProps.themeId;
+});
+
+export const Debris: React.FC<DebrisProps> = ({ pieces, themeId = 'default', onPieceFinished }) => {
+  return (
+    <>
+      {pieces.map(piece => (
+        <DebrisPiece key={piece.id} piece={piece} themeId={themeId} onFinished={onPieceFinished} />
+      ))}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  piece: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+    borderRadius: 8,
+  },
+});
@@ -1,8 +1,11 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Modal } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { RotateCcw, Chrome as Home, Share, Trophy, Coins, Star, ChevronRight } from 'lucide-react-native';
-import { GameMode } from '../types/game';
+import { RotateCcw, Chrome as Home, Share, Trophy, Coins, Star, ChevronRight, Heart, Check, X } from 'lucide-react-native';
+import { GameMode, VersusMatch, RaceMatch } from '../types/game';
+import { getVersusStandings } from '../utils/versus';
+import { getRaceStandings } from '../utils/race';
+import { StarTierResult, getStarCriterionLabel } from '../utils/starRating';
 
 interface GameOverScreenProps {
   visible: boolean;
@@ -12,11 +15,18 @@ interface GameOverScreenProps {
   coinsEarned?: number;
   challengeStars?: number;
   challengeCompleted?: boolean;
+  starTiers?: StarTierResult[]; // What each star above the first asked for, and whether it was met
   hasNextLevel?: boolean;
   onPlayAgain: () => void;
   onPlayNextLevel?: () => void;
   onModeSelect: () => void;
   onShare: () => void;
+  // Set while the player may still buy a continue; rewards wait for their decision
+  continueCost?: number;
+  onContinue?: () => void;
+  onDeclineContinue?: () => void;
+  versusMatch?: VersusMatch; // Finished versus match; replaces the score section with standings
+  raceMatch?: RaceMatch; // Finished race; shown the same way as versus standings
 }
 
 export const GameOverScreen: React.FC<GameOverScreenProps> = ({
@@ -27,14 +37,24 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
   coinsEarned = 0,
   challengeStars = 0,
   challengeCompleted = false,
+  starTiers,
   hasNextLevel = false,
   onPlayAgain,
   onPlayNextLevel,
   onModeSelect,
   onShare,
+  continueCost = 0,
+  onContinue,
+  onDeclineContinue,
+  versusMatch,
+  raceMatch,
 }) => {
   const isNewHighScore = score > 0 && score >= highScore;
   const isChallengeMode = mode === 'challenge';
+  // Zen scores are tower heights, so they're labelled as such
+  const isZenMode = mode === 'zen';
+  const versusStandings = versusMatch ? getVersusStandings(versusMatch) : null;
+  const raceStandings = raceMatch ? getRaceStandings(raceMatch) : null;
 
   const getModeDisplayName = (mode: GameMode): string => {
     switch (mode) {
@@ -44,6 +64,12 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
         return 'Time Attack';
       case 'challenge':
         return 'Challenge Mode';
+      case 'zen':
+        return 'Zen Mode';
+      case 'versus':
+        return 'Versus';
+      case 'race':
+        return 'Race';
       default:
         return 'Game';
     }
@@ -72,11 +98,20 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
         return 'Challenge Failed';
       }
     }
+    if (versusStandings) {
+      return `${versusStandings[0].name} Wins!`;
+    }
+    if (raceStandings) {
+      return `${raceStandings[0].name} Wins!`;
+    }
+    if (isZenMode) {
+      return isNewHighScore ? 'Tallest Tower Yet!' : 'Nicely Stacked';
+    }
     return isNewHighScore ? 'New High Score!' : 'Game Over';
   };
 
   const getResultIcon = () => {
-    if (isChallengeMode && challengeCompleted) {
+    if (versusStandings || raceStandings || (isChallengeMode && challengeCompleted)) {
       return <Trophy size={40} color="#FFD700" />;
     } else if (isNewHighScore && !isChallengeMode) {
       return <Trophy size={40} color="#FFD700" />;
@@ -84,6 +119,43 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
     return null;
   };
 
+  const renderContinueOffer = () => (
+    <>
+      <View style={styles.header}>
+        <Heart size={40} color="#ff4757" />
+        <Text style={styles.resultText}>Keep Going?</Text>
+        <Text style={styles.modeText}>Rebuild from your last block and keep your score</Text>
+      </View>
+
+      <View style={styles.scoreSection}>
+        <View style={styles.scoreContainer}>
+          <Text style={styles.scoreLabel}>Current Score</Text>
+          <Text style={styles.scoreValue}>{score.toLocaleString()}</Text>
+        </View>
+      </View>
+
+      <View style={styles.actionsContainer}>
+        <TouchableOpacity style={styles.primaryButton} onPress={onContinue}>
+          <LinearGradient
+            colors={['#FFD700', '#FFA500']}
+            style={styles.buttonGradient}
+          >
+            <Coins size={20} color="#000" style={styles.buttonIcon} />
+            <Text style={[styles.primaryButtonText, styles.continueButtonText]}>
+              Continue for {continueCost}
+            </Text>
+          </LinearGradient>
+        </TouchableOpacity>
+
+        <View style={styles.secondaryButtons}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={onDeclineContinue}>
+            <Text style={styles.secondaryButtonText}>No Thanks</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </>
+  );
+
   return (
     <View style={{flex:1}}>
       <Modal visible={visible} transparent animationType="fade">
@@ -94,107 +166,171 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
               style={styles.background}
             />
 
-            {/* Header */}
-            <View style={styles.header}>
-              {getResultIcon()}
-              <Text style={[
-                styles.resultText,
-                { color: (isChallengeMode && challengeCompleted) || (!isChallengeMode && isNewHighScore) ? '#FFD700' : '#fff' }
-              ]}>
-                {getResultMessage()}
-              </Text>
-              <Text style={styles.modeText}>{getModeDisplayName(mode)}</Text>
-            </View>
+            {onContinue ? renderContinueOffer() : (
+              <>
+                {/* Header */}
+                <View style={styles.header}>
+                  {getResultIcon()}
+                  <Text style={[
+                    styles.resultText,
+                    { color: (isChallengeMode && challengeCompleted) || (!isChallengeMode && isNewHighScore) ? '#FFD700' : '#fff' }
+                  ]}>
+                    {getResultMessage()}
+                  </Text>
+                  <Text style={styles.modeText}>{getModeDisplayName(mode)}</Text>
+                </View>
 
-            {/* Challenge Stars */}
-            {isChallengeMode && challengeCompleted && (
-              <View style={styles.challengeSection}>
-                {renderStars(challengeStars)}
-                <Text style={styles.starsText}>
-                  {challengeStars}/3 Stars Earned!
-                </Text>
-              </View>
-            )}
+                {/* Challenge Stars */}
+                {isChallengeMode && challengeCompleted && (
+                  <View style={styles.challengeSection}>
+                    {renderStars(challengeStars)}
+                    <Text style={styles.starsText}>
+                      {challengeStars}/3 Stars Earned!
+                    </Text>
+
+                    {starTiers && (
+                      <View style={styles.starCriteria}>
+                        {starTiers.map(tier => (
+                          <View key={tier.stars} style={styles.starTier}>
+                            <View style={styles.starTierHeader}>
+                              {Array.from({ length: tier.stars }, (_, i) => (
+                                <Star key={i} size={12} color="#FFD700" fill={tier.met ? '#FFD700' : 'transparent'} />
+                              ))}
+                            </View>
+                            {tier.options.map((option, index) => {
+                              const met = option.every(result => result.met);
+                              return (
+                                <View key={index} style={styles.starOption}>
+                                  {met ? <Check size={14} color="#2ed573" /> : <X size={14} color="#888" />}
+                                  <Text style={[styles.starOptionText, met && styles.starOptionMet]}>
+                                    {index > 0 ? 'or ' : ''}
+                                    {option.map(result => getStarCriterionLabel(result.criterion)).join(' + ')}
+                                  </Text>
+                                </View>
+                              );
+                            })}
+                          </View>
+                        ))}
+                      </View>
+                    )}
+                  </View>
+                )}
 
-            {/* Score Section */}
-            <View style={styles.scoreSection}>
-              <View style={styles.scoreContainer}>
-                <Text style={styles.scoreLabel}>Final Score</Text>
-                <Text style={[
-                  styles.scoreValue,
-                  ((isChallengeMode && challengeCompleted) || (!isChallengeMode && isNewHighScore)) && styles.highlightScore
-                ]}>
-                  {score.toLocaleString()}
-                </Text>
-              </View>
+                {/* Versus standings */}
+                {versusStandings && versusMatch && (
+                  <View style={styles.standingsSection}>
+                    {versusStandings.map((player, index) => (
+                      <View key={player.id} style={[styles.standingRow, index === 0 && styles.winnerRow]}>
+                        <Text style={styles.standingRank}>{index + 1}</Text>
+                        <Text style={styles.standingName}>{player.name}</Text>
+                        <Text style={styles.standingDetail}>
+                          {player.id === versusMatch.loser ? 'Missed' : `${player.tower.tower_height - 1} blocks`}
+                        </Text>
+                        <Text style={styles.standingScore}>{player.tower.score.toLocaleString()}</Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
 
-              {!isChallengeMode && (
-                <View style={styles.highScoreContainer}>
-                  <Text style={styles.highScoreLabel}>High Score</Text>
-                  <Text style={styles.highScoreValue}>
-                    {isNewHighScore ? (highScore || 0).toLocaleString() : (highScore || 0).toLocaleString()}
-                  </Text>
-                </View>
-              )}
-            </View>
+                {/* Race standings */}
+                {raceStandings && raceMatch && (
+                  <View style={styles.standingsSection}>
+                    {raceStandings.map((lane, index) => (
+                      <View key={lane.id} style={[styles.standingRow, index === 0 && styles.winnerRow]}>
+                        <Text style={styles.standingRank}>{index + 1}</Text>
+                        <Text style={styles.standingName}>{lane.name}</Text>
+                        <Text style={styles.standingDetail}>
+                          {lane.failed ? 'Fell' : `${lane.tower.tower_height - 1}/${raceMatch.targetBlocks} blocks`}
+                        </Text>
+                        <Text style={styles.standingScore}>{lane.tower.score.toLocaleString()}</Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
 
-            {/* Coins Earned */}
-            {coinsEarned > 0 && (
-              <View style={styles.coinsSection}>
-                <View style={styles.coinsEarned}>
-                  <Coins size={20} color="#FFD700" />
-                  <Text style={styles.coinsText}>+{coinsEarned} coins earned!</Text>
-                </View>
-              </View>
-            )}
+                {/* Score Section */}
+                {!versusStandings && !raceStandings && (
+                  <View style={styles.scoreSection}>
+                    <View style={styles.scoreContainer}>
+                      <Text style={styles.scoreLabel}>{isZenMode ? 'Tower Height' : 'Final Score'}</Text>
+                      <Text style={[
+                        styles.scoreValue,
+                        ((isChallengeMode && challengeCompleted) || (!isChallengeMode && isNewHighScore)) && styles.highlightScore
+                      ]}>
+                        {score.toLocaleString()}
+                      </Text>
+                    </View>
 
-            {/* Action Buttons */}
-            <View style={styles.actionsContainer}>
-              {/* Primary action - different for challenge mode */}
-              {isChallengeMode && challengeCompleted && hasNextLevel && onPlayNextLevel ? (
-                <TouchableOpacity style={styles.primaryButton} onPress={onPlayNextLevel}>
-                  <LinearGradient
-                    colors={['#4CAF50', '#45A049']}
-                    style={styles.buttonGradient}
-                  >
-                    <ChevronRight size={20} color="#fff" style={styles.buttonIcon} />
-                    <Text style={styles.primaryButtonText}>Next Level</Text>
-                  </LinearGradient>
-                </TouchableOpacity>
-              ) : (
-                <TouchableOpacity style={styles.primaryButton} onPress={onPlayAgain}>
-                  <LinearGradient
-                    colors={['#4facfe', '#00f2fe']}
-                    style={styles.buttonGradient}
-                  >
-                    <RotateCcw size={20} color="#fff" style={styles.buttonIcon} />
-                    <Text style={styles.primaryButtonText}>
-                      {isChallengeMode && !challengeCompleted ? 'Try Again' : 'Play Again'}
-                    </Text>
-                  </LinearGradient>
-                </TouchableOpacity>
-              )}
+                    {!isChallengeMode && (
+                      <View style={styles.highScoreContainer}>
+                        <Text style={styles.highScoreLabel}>{isZenMode ? 'Best Height' : 'High Score'}</Text>
+                        <Text style={styles.highScoreValue}>
+                          {isNewHighScore ? (highScore || 0).toLocaleString() : (highScore || 0).toLocaleString()}
+                        </Text>
+                      </View>
+                    )}
+                  </View>
+                )}
 
-              {/* Secondary buttons */}
-              <View style={styles.secondaryButtons}>
-                {isChallengeMode && challengeCompleted && hasNextLevel && onPlayNextLevel && (
-                  <TouchableOpacity style={styles.secondaryButton} onPress={onPlayAgain}>
-                    <RotateCcw size={18} color="#fff" />
-                    <Text style={styles.secondaryButtonText}>Retry</Text>
-                  </TouchableOpacity>
+                {/* Coins Earned */}
+                {coinsEarned > 0 && (
+                  <View style={styles.coinsSection}>
+                    <View style={styles.coinsEarned}>
+                      <Coins size={20} color="#FFD700" />
+                      <Text style={styles.coinsText}>+{coinsEarned} coins earned!</Text>
+                    </View>
+                  </View>
                 )}
 
-                <TouchableOpacity style={styles.secondaryButton} onPress={onModeSelect}>
-                  <Home size={18} color="#fff" />
-                  <Text style={styles.secondaryButtonText}>Mode Select</Text>
-                </TouchableOpacity>
+                {/* Action Buttons */}
+                <View style={styles.actionsContainer}>
+                  {/* Primary action - different for challenge mode */}
+                  {isChallengeMode && challengeCompleted && hasNextLevel && onPlayNextLevel ? (
+                    <TouchableOpacity style={styles.primaryButton} onPress={onPlayNextLevel}>
+                      <LinearGradient
+                        colors={['#4CAF50', '#45A049']}
+                        style={styles.buttonGradient}
+                      >
+                        <ChevronRight size={20} color="#fff" style={styles.buttonIcon} />
+                        <Text style={styles.primaryButtonText}>Next Level</Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+                  ) : (
+                    <TouchableOpacity style={styles.primaryButton} onPress={onPlayAgain}>
+                      <LinearGradient
+                        colors={['#4facfe', '#00f2fe']}
+                        style={styles.buttonGradient}
+                      >
+                        <RotateCcw size={20} color="#fff" style={styles.buttonIcon} />
+                        <Text style={styles.primaryButtonText}>
+                          {isChallengeMode && !challengeCompleted ? 'Try Again' : 'Play Again'}
+                        </Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+                  )}
 
-                <TouchableOpacity style={styles.secondaryButton} onPress={onShare}>
-                  <Share size={18} color="#fff" />
-                  <Text style={styles.secondaryButtonText}>Share</Text>
-                </TouchableOpacity>
-              </View>
-            </View>
+                  {/* Secondary buttons */}
+                  <View style={styles.secondaryButtons}>
+                    {isChallengeMode && challengeCompleted && hasNextLevel && onPlayNextLevel && (
+                      <TouchableOpacity style={styles.secondaryButton} onPress={onPlayAgain}>
+                        <RotateCcw size={18} color="#fff" />
+                        <Text style={styles.secondaryButtonText}>Retry</Text>
+                      </TouchableOpacity>
+                    )}
+
+                    <TouchableOpacity style={styles.secondaryButton} onPress={onModeSelect}>
+                      <Home size={18} color="#fff" />
+                      <Text style={styles.secondaryButtonText}>Mode Select</Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity style={styles.secondaryButton} onPress={onShare}>
+                      <Share size={18} color="#fff" />
+                      <Text style={styles.secondaryButtonText}>Share</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              </>
+            )}
           </View>
         </View>
       </Modal>
@@ -248,6 +384,33 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#FFD700',
   },
+  starCriteria: {
+    alignSelf: 'stretch',
+    paddingHorizontal: 30,
+    marginTop: 12,
+    gap: 8,
+  },
+  starTier: {
+    gap: 3,
+  },
+  starTierHeader: {
+    flexDirection: 'row',
+    gap: 2,
+    marginBottom: 2,
+  },
+  starOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  starOptionText: {
+    flex: 1,
+    color: '#999',
+    fontSize: 13,
+  },
+  starOptionMet: {
+    color: '#fff',
+  },
   scoreSection: {
     width: '100%',
     paddingHorizontal: 30,
@@ -286,6 +449,47 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#ccc',
   },
+  standingsSection: {
+    width: '100%',
+    paddingHorizontal: 30,
+    marginBottom: 20,
+  },
+  standingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    marginBottom: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  winnerRow: {
+    backgroundColor: 'rgba(255, 215, 0, 0.2)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 215, 0, 0.4)',
+  },
+  standingRank: {
+    color: '#FFD700',
+    fontSize: 16,
+    fontWeight: 'bold',
+    width: 24,
+  },
+  standingName: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  standingDetail: {
+    color: '#ccc',
+    fontSize: 12,
+    marginRight: 10,
+  },
+  standingScore: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
   coinsSection: {
     marginBottom: 20,
   },
@@ -355,6 +559,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.2)',
   },
+  continueButtonText: {
+    color: '#000',
+  },
   secondaryButtonText: {
     color: '#fff',
     fontSize: 14,
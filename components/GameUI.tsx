@@ -8,21 +8,42 @@ import React from 'react';
 import { memo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { Pause } from 'lucide-react-native';
+import { STABILITY_CONFIG } from '../constants/game';
+import { ActivePowerUps, PowerUpInventory, PowerUpType } from '../types/game';
+import { PowerUpBar } from './PowerUpBar';
+import { GhostIndicator } from './GhostIndicator';
 
 interface GameUIProps {
   score: number;
   combo: number;
   gameStarted: boolean;
   onPause: () => void;
+  stability?: number;
+  powerUps?: PowerUpInventory;
+  activePowerUps?: ActivePowerUps;
+  onActivatePowerUp?: (powerUp: PowerUpType) => void;
+  ghostDelta?: number; // Blocks ahead of the personal-best ghost, when one is racing
 }
 
+const getStabilityColor = (stability: number): string => {
+  if (stability < STABILITY_CONFIG.WOBBLE_THRESHOLD / 2) return '#ff4757';
+  if (stability < STABILITY_CONFIG.WOBBLE_THRESHOLD) return '#ffa502';
+  return '#2ed573';
+};
+
 const GameUIComponent: React.FC<GameUIProps> = ({
   score,
   combo,
   gameStarted,
   onPause,
+  stability = 1,
+  powerUps,
+  activePowerUps,
+  onActivatePowerUp,
+  ghostDelta,
 }) => {
-  
+  const stabilityWidth = useSharedValue(stability);
+
   const scoreScale = useSharedValue(1);
   const comboOpacity = useSharedValue(combo > 0 ? 1 : 0);
   const comboTranslateY = useSharedValue(combo > 0 ? 0 : -10);
@@ -34,6 +55,10 @@ const GameUIComponent: React.FC<GameUIProps> = ({
     }, 100);
   }, [score]);
 
+  React.useEffect(() => {
+    stabilityWidth.value = withTiming(stability, { duration: 250 });
+  }, [stability]);
+
   React.useEffect(() => {
     comboOpacity.value = withTiming(combo > 0 ? 1 : 0, { duration: 200 });
     comboTranslateY.value = combo > 0 
@@ -58,6 +83,12 @@ const GameUIComponent: React.FC<GameUIProps> = ({
     };
   }, []);
 
+  const stabilityAnimatedStyle = useAnimatedStyle(() => {
+    return {
+      width: `${Math.max(0, Math.min(1, stabilityWidth.value)) * 100}%`,
+    };
+  }, []);
+
   return (
     <View style={styles.gameUI}>
       {/* Top UI */}
@@ -75,6 +106,26 @@ const GameUIComponent: React.FC<GameUIProps> = ({
           <Pause size={20} color="#fff" />
         </TouchableOpacity>
       </View>
+
+      {/* Tower balance meter */}
+      <View style={styles.stabilityContainer}>
+        <Text style={styles.stabilityLabel}>Balance</Text>
+        <View style={styles.stabilityTrack}>
+          <Animated.View
+            style={[styles.stabilityFill, { backgroundColor: getStabilityColor(stability) }, stabilityAnimatedStyle]}
+          />
+        </View>
+      </View>
+
+      {ghostDelta !== undefined && (
+        <View style={styles.ghostContainer}>
+          <GhostIndicator delta={ghostDelta} />
+        </View>
+      )}
+
+      {powerUps && onActivatePowerUp && (
+        <PowerUpBar inventory={powerUps} active={activePowerUps} onActivate={onActivatePowerUp} />
+      )}
     </View>
   );
 };
@@ -84,7 +135,12 @@ export const GameUI = memo(GameUIComponent, (prevProps, nextProps) => {
   return (
     prevProps.score === nextProps.score &&
     prevProps.combo === nextProps.combo &&
-    prevProps.gameStarted === nextProps.gameStarted
+    prevProps.gameStarted === nextProps.gameStarted &&
+    prevProps.stability === nextProps.stability &&
+    prevProps.powerUps === nextProps.powerUps &&
+    prevProps.activePowerUps === nextProps.activePowerUps &&
+    prevProps.onActivatePowerUp === nextProps.onActivatePowerUp &&
+    prevProps.ghostDelta === nextProps.ghostDelta
   );
 });
 
@@ -137,6 +193,36 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  stabilityContainer: {
+    position: 'absolute',
+    top: 90,
+    left: 20,
+    width: 120,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+  },
+  ghostContainer: {
+    position: 'absolute',
+    top: 90,
+    right: 20,
+  },
+  stabilityLabel: {
+    color: '#ccc',
+    fontSize: 12,
+    marginBottom: 5,
+  },
+  stabilityTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    overflow: 'hidden',
+  },
+  stabilityFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
   pauseButton: {
     backgroundColor: 'rgba(0, 0, 0, 0.7)',
     padding: 12,
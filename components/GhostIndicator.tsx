@@ -0,0 +1,43 @@
+import React, { memo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ghost } from 'lucide-react-native';
+
+interface GhostIndicatorProps {
+  delta: number; // Blocks ahead of (positive) or behind (negative) the personal-best ghost
+}
+
+const getDeltaColor = (delta: number): string => {
+  if (delta > 0) return '#2ed573';
+  if (delta < 0) return '#ff4757';
+  return '#ccc';
+};
+
+const GhostIndicatorComponent: React.FC<GhostIndicatorProps> = ({ delta }) => {
+  const color = getDeltaColor(delta);
+  const label = delta > 0 ? `${delta} ahead` : delta < 0 ? `${-delta} behind` : 'Even';
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      <Ghost size={14} color={color} />
+      <Text style={[styles.label, { color }]}>{label}</Text>
+    </View>
+  );
+};
+
+export const GhostIndicator = memo(GhostIndicatorComponent);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, TextInput, ScrollView, Platform } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import * as DocumentPicker from 'expo-document-picker';
+import { FileText, Download, X } from 'lucide-react-native';
+import { LevelPack } from '../types/game';
+import { parseLevelPack } from '../utils/levelPacks';
+import { readPickedFile } from '../utils/sharing';
+
+interface LevelPackImportModalProps {
+  visible: boolean;
+  onImport: (pack: LevelPack) => void;
+  onClose: () => void;
+}
+
+export const LevelPackImportModal: React.FC<LevelPackImportModalProps> = ({
+  visible,
+  onImport,
+  onClose,
+}) => {
+  const [text, setText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const importText = (source: string) => {
+    const result = parseLevelPack(source);
+    if (result.pack) {
+      setText('');
+      setErrors([]);
+      onImport(result.pack);
+    } else {
+      setErrors(result.errors);
+    }
+  };
+
+  const handleChooseFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || result.assets.length === 0) return;
+
+      const contents = await readPickedFile(result.assets[0].uri);
+      setText(contents);
+      importText(contents);
+    } catch (error) {
+      console.error('Error reading level pack file:', error);
+      setErrors(['That file could not be read']);
+    }
+  };
+
+  const handleClose = () => {
+    setErrors([]);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <LinearGradient
+            colors={['rgba(0, 0, 0, 0.95)', 'rgba(0, 0, 0, 0.85)']}
+            style={styles.background}
+          />
+
+          <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+            <X size={20} color="#fff" />
+          </TouchableOpacity>
+
+          <Text style={styles.title}>Import Level Pack</Text>
+          <Text style={styles.subtitle}>Choose a pack file or paste its contents below</Text>
+
+          <TouchableOpacity style={styles.fileButton} onPress={handleChooseFile}>
+            <FileText size={18} color="#fff" />
+            <Text style={styles.fileButtonText}>Choose File</Text>
+          </TouchableOpacity>
+
+          <TextInput
+            style={styles.input}
+            value={text}
+            onChangeText={setText}
+            placeholder='{ "version": 1, "id": "...", "levels": [...] }'
+            placeholderTextColor="rgba(255, 255, 255, 0.3)"
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          {errors.length > 0 && (
+            <ScrollView style={styles.errorList}>
+              {errors.map((error, index) => (
+                <Text key={index} style={styles.errorText}>• {error}</Text>
+              ))}
+            </ScrollView>
+          )}
+
+          <TouchableOpacity
+            style={[styles.importButton, text.trim() === '' && styles.importButtonDisabled]}
+            onPress={() => importText(text)}
+            disabled={text.trim() === ''}
+          >
+            <Download size={18} color="#fff" />
+            <Text style={styles.importButtonText}>Import</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: '90%',
+    maxWidth: 420,
+    borderRadius: 20,
+    overflow: 'hidden',
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(59, 130, 246, 0.3)',
+  },
+  background: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 15,
+    right: 15,
+    padding: 5,
+    zIndex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 6,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginBottom: 16,
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    marginBottom: 12,
+  },
+  fileButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  input: {
+    height: 160,
+    borderRadius: 12,
+    padding: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    color: '#fff',
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    textAlignVertical: 'top',
+  },
+  errorList: {
+    maxHeight: 120,
+    marginTop: 12,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 25,
+    backgroundColor: '#3b82f6',
+  },
+  importButtonDisabled: {
+    opacity: 0.5,
+  },
+  importButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -12,7 +12,7 @@ import React, { useEffect, useState } from 'react';
 import { memo, useMemo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Dimensions, Platform } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Infinity, Clock, Target, Lock, Palette, Coins, Settings, Zap, Trophy, Star, Gamepad2 } from 'lucide-react-native';
+import { Infinity, Clock, Target, Lock, Palette, Coins, Settings, Zap, Trophy, Star, Gamepad2, Leaf, Flag, Swords } from 'lucide-react-native';
 import { GameMode, GameModeConfig } from '../types/game';
 import { GAME_MODES, THEMES } from '../constants/game';
 import { useSound } from '@/contexts/SoundContext';
@@ -41,6 +41,12 @@ const ModeIcon = ({ mode, size = 32, color = '#fff' }: { mode: GameMode; size?:
       return <Clock size={size} color={color} />;
     case 'challenge':
       return <Target size={size} color={color} />;
+    case 'zen':
+      return <Leaf size={size} color={color} />;
+    case 'versus':
+      return <Swords size={size} color={color} />;
+    case 'race':
+      return <Flag size={size} color={color} />;
     default:
       return <Infinity size={size} color={color} />;
   }
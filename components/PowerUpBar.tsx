@@ -0,0 +1,120 @@
+import React, { memo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Timer, Target, Maximize2, Heart } from 'lucide-react-native';
+import { ActivePowerUps, PowerUpInventory, PowerUpType } from '../types/game';
+import { POWER_UPS } from '../constants/game';
+
+interface PowerUpBarProps {
+  inventory: PowerUpInventory;
+  active?: ActivePowerUps;
+  onActivate: (powerUp: PowerUpType) => void;
+}
+
+export const POWER_UP_ICONS: Record<PowerUpType, React.ComponentType<{ size?: number; color?: string }>> = {
+  slowMotion: Timer,
+  autoPerfect: Target,
+  widenBlock: Maximize2,
+  extraLife: Heart,
+};
+
+// Whether an effect of this type is currently armed in the run
+const isActive = (powerUp: PowerUpType, active?: ActivePowerUps): boolean => {
+  if (!active) return false;
+  switch (powerUp) {
+    case 'slowMotion':
+      return active.slowMotionBlocks > 0;
+    case 'autoPerfect':
+      return active.autoPerfect;
+    case 'extraLife':
+      return active.extraLives > 0;
+    default:
+      return false;
+  }
+};
+
+const PowerUpBarComponent: React.FC<PowerUpBarProps> = ({ inventory, active, onActivate }) => {
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      {POWER_UPS.map(powerUp => {
+        const Icon = POWER_UP_ICONS[powerUp.id];
+        const count = inventory[powerUp.id] || 0;
+        const armed = isActive(powerUp.id, active);
+
+        return (
+          <TouchableOpacity
+            key={powerUp.id}
+            style={[styles.button, armed && styles.buttonActive, count === 0 && styles.buttonEmpty]}
+            onPress={() => onActivate(powerUp.id)}
+            disabled={count === 0}
+          >
+            <Icon size={20} color={armed ? '#000' : '#fff'} />
+            <View style={styles.countBadge}>
+              <Text style={styles.countText}>{count}</Text>
+            </View>
+            {powerUp.id === 'extraLife' && active && active.extraLives > 0 && (
+              <Text style={styles.activeText}>x{active.extraLives}</Text>
+            )}
+            {powerUp.id === 'slowMotion' && active && active.slowMotionBlocks > 0 && (
+              <Text style={styles.activeText}>{active.slowMotionBlocks}</Text>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+export const PowerUpBar = memo(PowerUpBarComponent);
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    bottom: 30,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  button: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  buttonActive: {
+    backgroundColor: '#FFD700',
+    borderColor: '#FFD700',
+  },
+  buttonEmpty: {
+    opacity: 0.4,
+  },
+  countBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: '#4facfe',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+  },
+  countText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  activeText: {
+    position: 'absolute',
+    bottom: -16,
+    color: '#FFD700',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+});
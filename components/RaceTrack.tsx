@@ -0,0 +1,255 @@
+import React, { memo } from 'react';
+import { View, Text, TouchableOpacity, TouchableWithoutFeedback, StyleSheet, useWindowDimensions } from 'react-native';
+import Animated from 'react-native-reanimated';
+import { Pause, Flag } from 'lucide-react-native';
+import { Background } from './Background';
+import { Block } from './Block';
+import { RaceLane, RaceMatch } from '../types/game';
+import { GAME_CONFIG, RACE_CONFIG } from '../constants/game';
+import { useTowerCamera } from '../hooks/useTowerCamera';
+
+interface RaceTrackProps {
+  match: RaceMatch;
+  themeId: string;
+  active: boolean;
+  onLaneTap: (laneId: number) => void;
+  onPause: () => void;
+}
+
+interface RaceLaneViewProps {
+  lane: RaceLane;
+  match: RaceMatch;
+  themeId: string;
+  active: boolean;
+  width: number;
+  height: number;
+  onTap: (laneId: number) => void;
+}
+
+// One lane: the full-size game world scaled down to fit, with its own camera and tap zone
+const RaceLaneViewComponent: React.FC<RaceLaneViewProps> = ({
+  lane,
+  match,
+  themeId,
+  active,
+  width,
+  height,
+  onTap,
+}) => {
+  const { tower } = lane;
+  const { cameraStyle } = useTowerCamera(tower.tower_height, tower.stability, active);
+
+  const scale = Math.min(width / GAME_CONFIG.SCREEN_WIDTH, height / GAME_CONFIG.SCREEN_HEIGHT);
+  // Scaling happens around the center, so shift the world down to keep the tower on the lane's floor
+  const floorOffset = (height - GAME_CONFIG.SCREEN_HEIGHT * scale) / 2;
+  const progress = Math.min(1, (tower.tower_height - 1) / match.targetBlocks);
+  const isWinner = match.winner === lane.id;
+
+  return (
+    <TouchableWithoutFeedback onPress={() => onTap(lane.id)}>
+      <View style={[styles.lane, { width, height }]}>
+        <View
+          style={[
+            styles.world,
+            {
+              left: (width - GAME_CONFIG.SCREEN_WIDTH) / 2,
+              top: (height - GAME_CONFIG.SCREEN_HEIGHT) / 2,
+              transform: [{ translateY: floorOffset }, { scale }],
+            },
+          ]}
+        >
+          <Background towerHeight={tower.tower_height} themeId={themeId} />
+          <Animated.View style={[styles.gameArea, cameraStyle]}>
+            {tower.blocks.map(block => (
+              <Block key={block.id} block={block} themeId={themeId} />
+            ))}
+            {tower.currentBlock && <Block block={tower.currentBlock} themeId={themeId} />}
+          </Animated.View>
+        </View>
+
+        <View style={styles.laneHeader} pointerEvents="none">
+          <Text style={styles.laneName}>{lane.name}</Text>
+          <Text style={styles.laneHeight}>
+            {tower.tower_height - 1}/{match.targetBlocks}
+          </Text>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+          </View>
+        </View>
+
+        {match.winner !== null && (
+          <View style={[styles.resultBanner, isWinner && styles.winnerBanner]} pointerEvents="none">
+            <Text style={[styles.resultText, isWinner && styles.winnerText]}>
+              {isWinner ? 'WINNER' : lane.failed ? 'FELL' : 'BEATEN'}
+            </Text>
+          </View>
+        )}
+      </View>
+    </TouchableWithoutFeedback>
+  );
+};
+
+const RaceLaneView = memo(RaceLaneViewComponent);
+
+// Replaces the single game area during races: lanes sit side by side on tablets and in landscape
+const RaceTrackComponent: React.FC<RaceTrackProps> = ({ match, themeId, active, onLaneTap, onPause }) => {
+  const { width, height } = useWindowDimensions();
+  const sideBySide = width > height || width >= RACE_CONFIG.SIDE_BY_SIDE_MIN_WIDTH;
+  const laneCount = match.lanes.length;
+  const laneWidth = sideBySide ? width / laneCount : width;
+  const laneHeight = sideBySide ? height : height / laneCount;
+
+  return (
+    <View style={[styles.track, sideBySide ? styles.trackRow : styles.trackColumn]}>
+      {match.lanes.map(lane => (
+        <RaceLaneView
+          key={lane.id}
+          lane={lane}
+          match={match}
+          themeId={themeId}
+          active={active}
+          width={laneWidth}
+          height={laneHeight}
+          onTap={onLaneTap}
+        />
+      ))}
+
+      <View style={[styles.divider, sideBySide ? styles.dividerVertical : styles.dividerHorizontal]} pointerEvents="none" />
+
+      <View style={styles.trackControls} pointerEvents="box-none">
+        <View style={styles.targetBadge} pointerEvents="none">
+          <Flag size={14} color="#FFD700" />
+          <Text style={styles.targetText}>{match.targetBlocks}</Text>
+        </View>
+        <TouchableOpacity style={styles.pauseButton} onPress={onPause}>
+          <Pause size={20} color="#fff" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+export const RaceTrack = memo(RaceTrackComponent);
+
+const styles = StyleSheet.create({
+  track: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  trackRow: {
+    flexDirection: 'row',
+  },
+  trackColumn: {
+    flexDirection: 'column',
+  },
+  lane: {
+    overflow: 'hidden',
+  },
+  world: {
+    position: 'absolute',
+    width: GAME_CONFIG.SCREEN_WIDTH,
+    height: GAME_CONFIG.SCREEN_HEIGHT,
+  },
+  gameArea: {
+    flex: 1,
+    position: 'relative',
+  },
+  laneHeader: {
+    position: 'absolute',
+    top: 10,
+    left: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    minWidth: 110,
+  },
+  laneName: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  laneHeight: {
+    color: '#ccc',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginTop: 4,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#FFD700',
+  },
+  resultBanner: {
+    position: 'absolute',
+    top: '45%',
+    alignSelf: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+    borderRadius: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+  },
+  winnerBanner: {
+    backgroundColor: '#FFD700',
+  },
+  resultText: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: 'bold',
+    letterSpacing: 2,
+  },
+  winnerText: {
+    color: '#000',
+  },
+  divider: {
+    position: 'absolute',
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  dividerVertical: {
+    top: 0,
+    bottom: 0,
+    left: '50%',
+    width: 2,
+    marginLeft: -1,
+  },
+  dividerHorizontal: {
+    left: 0,
+    right: 0,
+    top: '50%',
+    height: 2,
+    marginTop: -1,
+  },
+  trackControls: {
+    position: 'absolute',
+    top: 10,
+    right: 12,
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  targetBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  targetText: {
+    color: '#FFD700',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  pauseButton: {
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    padding: 12,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
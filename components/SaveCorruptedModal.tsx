@@ -0,0 +1,125 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ShieldAlert, Download, RotateCcw } from 'lucide-react-native';
+import { SaveSection } from '../utils/storage';
+
+interface SaveCorruptedModalProps {
+  sections: SaveSection[];
+  onRestoreBackup: () => void;
+  onStartFresh: () => void;
+}
+
+const SECTION_NAMES: Record<SaveSection, string> = {
+  gameData: 'coins and progress',
+  scores: 'score history',
+};
+
+export const SaveCorruptedModal: React.FC<SaveCorruptedModalProps> = ({
+  sections,
+  onRestoreBackup,
+  onStartFresh,
+}) => {
+  const affected = sections.map(section => SECTION_NAMES[section]).join(' and ');
+
+  return (
+    <Modal visible={sections.length > 0} transparent animationType="fade" onRequestClose={onStartFresh}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <LinearGradient
+            colors={['rgba(0, 0, 0, 0.95)', 'rgba(0, 0, 0, 0.85)']}
+            style={styles.background}
+          />
+
+          <View style={styles.header}>
+            <ShieldAlert size={32} color="#ef4444" />
+            <Text style={styles.title}>Save Corrupted</Text>
+          </View>
+
+          <Text style={styles.message}>
+            Your saved {affected} failed the integrity check. It may have been edited or damaged,
+            so it wasn&apos;t loaded and couldn&apos;t count towards scores.
+          </Text>
+          <Text style={styles.message}>
+            A copy is kept on this device. Restore a backup to get your progress back, or start fresh.
+          </Text>
+
+          <TouchableOpacity style={styles.restoreButton} onPress={onRestoreBackup}>
+            <Download size={18} color="#fff" />
+            <Text style={styles.buttonText}>Restore Backup</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.freshButton} onPress={onStartFresh}>
+            <RotateCcw size={18} color="#fff" />
+            <Text style={styles.buttonText}>Start Fresh</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: '90%',
+    maxWidth: 420,
+    borderRadius: 20,
+    overflow: 'hidden',
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(239, 68, 68, 0.4)',
+  },
+  background: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  message: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 8,
+    paddingVertical: 14,
+    borderRadius: 25,
+    backgroundColor: '#3b82f6',
+  },
+  freshButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+    paddingVertical: 14,
+    borderRadius: 25,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
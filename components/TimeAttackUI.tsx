@@ -6,6 +6,8 @@ import Animated, {
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { Pause } from 'lucide-react-native';
+import { ActivePowerUps, PowerUpInventory, PowerUpType } from '../types/game';
+import { PowerUpBar } from './PowerUpBar';
 
 interface TimeAttackUIProps {
   timeRemaining: number;
@@ -14,6 +16,9 @@ interface TimeAttackUIProps {
   combo: number;
   gameStarted: boolean;
   onPause: () => void;
+  powerUps?: PowerUpInventory;
+  activePowerUps?: ActivePowerUps;
+  onActivatePowerUp?: (powerUp: PowerUpType) => void;
 }
 
 export const TimeAttackUI: React.FC<TimeAttackUIProps> = ({
@@ -23,6 +28,9 @@ export const TimeAttackUI: React.FC<TimeAttackUIProps> = ({
   combo,
   gameStarted,
   onPause,
+  powerUps,
+  activePowerUps,
+  onActivatePowerUp,
 }) => {
   const progress = timeRemaining / totalTime;
   const isLowTime = timeRemaining <= 10;
@@ -93,6 +101,10 @@ export const TimeAttackUI: React.FC<TimeAttackUIProps> = ({
       <Animated.View style={[styles.comboContainer, comboStyle]}>
         <Text style={styles.comboText}>COMBO x{combo}</Text>
       </Animated.View>
+
+      {powerUps && onActivatePowerUp && (
+        <PowerUpBar inventory={powerUps} active={activePowerUps} onActivate={onActivatePowerUp} />
+      )}
     </View>
   );
 };
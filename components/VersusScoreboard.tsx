@@ -0,0 +1,149 @@
+import React, { memo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Pause, ChevronRight } from 'lucide-react-native';
+import { VersusMatch } from '../types/game';
+
+interface VersusScoreboardProps {
+  match: VersusMatch;
+  gameStarted: boolean;
+  onPause: () => void;
+}
+
+// Replaces GameUI during versus matches: one row per player, the active one highlighted
+const VersusScoreboardComponent: React.FC<VersusScoreboardProps> = ({ match, onPause }) => {
+  const current = match.players[match.currentPlayer];
+
+  return (
+    <View style={styles.versusUI}>
+      <View style={styles.topUI}>
+        <View style={styles.scoreboard}>
+          {match.players.map(player => {
+            const isCurrent = player.id === match.currentPlayer;
+            return (
+              <View key={player.id} style={[styles.playerRow, isCurrent && styles.currentPlayerRow]}>
+                {isCurrent ? (
+                  <ChevronRight size={14} color="#000" />
+                ) : (
+                  <View style={styles.rowIndicatorSpacer} />
+                )}
+                <Text style={[styles.playerName, isCurrent && styles.currentPlayerText]}>{player.name}</Text>
+                <Text style={[styles.playerHeight, isCurrent && styles.currentPlayerText]}>
+                  {player.tower.tower_height - 1}
+                </Text>
+                <Text style={[styles.playerScore, isCurrent && styles.currentPlayerText]}>
+                  {player.tower.score.toLocaleString()}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+
+        <TouchableOpacity style={styles.pauseButton} onPress={onPause}>
+          <Pause size={20} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      {match.handoff && (
+        <View style={styles.handoffBanner} pointerEvents="none">
+          <Text style={styles.handoffTitle}>Pass to {current.name}</Text>
+          <Text style={styles.handoffText}>Tap anywhere when ready</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+export const VersusScoreboard = memo(VersusScoreboardComponent);
+
+const styles = StyleSheet.create({
+  versusUI: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    zIndex: 10,
+    pointerEvents: 'box-none',
+  },
+  topUI: {
+    position: 'absolute',
+    top: 10,
+    left: 20,
+    right: 20,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  scoreboard: {
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 15,
+    paddingVertical: 6,
+    paddingHorizontal: 6,
+    minWidth: 200,
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 5,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+  },
+  currentPlayerRow: {
+    backgroundColor: '#FFD700',
+  },
+  rowIndicatorSpacer: {
+    width: 14,
+  },
+  playerName: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  playerHeight: {
+    color: '#ccc',
+    fontSize: 13,
+    width: 36,
+    textAlign: 'right',
+  },
+  playerScore: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+    width: 64,
+    textAlign: 'right',
+  },
+  currentPlayerText: {
+    color: '#000',
+  },
+  pauseButton: {
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    padding: 12,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  handoffBanner: {
+    position: 'absolute',
+    top: '40%',
+    left: 30,
+    right: 30,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    borderRadius: 20,
+    paddingVertical: 20,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 215, 0, 0.4)',
+  },
+  handoffTitle: {
+    color: '#FFD700',
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 6,
+  },
+  handoffText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Users, Play, X } from 'lucide-react-native';
+import { VERSUS_CONFIG } from '../constants/game';
+
+interface VersusSetupModalProps {
+  visible: boolean;
+  onStart: (playerCount: number) => void;
+  onClose: () => void;
+}
+
+const PLAYER_COUNTS = Array.from(
+  { length: VERSUS_CONFIG.MAX_PLAYERS - VERSUS_CONFIG.MIN_PLAYERS + 1 },
+  (_, index) => VERSUS_CONFIG.MIN_PLAYERS + index
+);
+
+export const VersusSetupModal: React.FC<VersusSetupModalProps> = ({
+  visible,
+  onStart,
+  onClose,
+}) => {
+  const [playerCount, setPlayerCount] = useState<number>(VERSUS_CONFIG.MIN_PLAYERS);
+
+  return (
+    <View style={{ flex: 1 }}>
+      <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+        <View style={styles.overlay}>
+          <View style={styles.container}>
+            <LinearGradient
+              colors={['rgba(0, 0, 0, 0.95)', 'rgba(0, 0, 0, 0.8)']}
+              style={styles.background}
+            />
+
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X size={20} color="#fff" />
+            </TouchableOpacity>
+
+            <Users size={40} color="#4facfe" />
+            <Text style={styles.title}>Versus</Text>
+            <Text style={styles.subtitle}>
+              Take turns dropping a block on your own tower. The first to miss loses!
+            </Text>
+
+            <Text style={styles.sectionLabel}>Players</Text>
+            <View style={styles.countRow}>
+              {PLAYER_COUNTS.map(count => (
+                <TouchableOpacity
+                  key={count}
+                  style={[styles.countButton, playerCount === count && styles.selectedCountButton]}
+                  onPress={() => setPlayerCount(count)}
+                >
+                  <Text style={[styles.countText, playerCount === count && styles.selectedCountText]}>
+                    {count}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.buttonsContainer}>
+              <TouchableOpacity style={styles.primaryButton} onPress={() => onStart(playerCount)}>
+                <LinearGradient
+                  colors={['#4facfe', '#00f2fe']}
+                  style={styles.buttonGradient}
+                >
+                  <Play size={20} color="#fff" style={styles.buttonIcon} />
+                  <Text style={styles.primaryButtonText}>Start Match</Text>
+                </LinearGradient>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: '85%',
+    maxWidth: 340,
+    borderRadius: 20,
+    overflow: 'hidden',
+    alignItems: 'center',
+    paddingVertical: 30,
+    paddingHorizontal: 20,
+  },
+  background: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 15,
+    right: 15,
+    padding: 5,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+    textAlign: 'center',
+    marginBottom: 25,
+    lineHeight: 20,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    color: '#ccc',
+    marginBottom: 10,
+  },
+  countRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 30,
+  },
+  countButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  selectedCountButton: {
+    backgroundColor: '#4facfe',
+    borderColor: '#4facfe',
+  },
+  countText: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  selectedCountText: {
+    color: '#000',
+  },
+  buttonsContainer: {
+    width: '100%',
+    paddingHorizontal: 10,
+  },
+  primaryButton: {
+    borderRadius: 25,
+    overflow: 'hidden',
+    shadowColor: '#4facfe',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  buttonGradient: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 15,
+    paddingHorizontal: 30,
+  },
+  buttonIcon: {
+    marginRight: 10,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,97 @@
+import React, { memo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Pause, Flag } from 'lucide-react-native';
+
+interface ZenUIProps {
+  towerHeight: number;
+  bestHeight: number;
+  gameStarted: boolean;
+  onPause: () => void;
+  onFinish: () => void;
+}
+
+// Zen runs have no score, timer or balance pressure - just the height of the tower
+const ZenUIComponent: React.FC<ZenUIProps> = ({
+  towerHeight,
+  bestHeight,
+  onPause,
+  onFinish,
+}) => {
+  return (
+    <View style={styles.zenUI}>
+      <View style={styles.topUI}>
+        <View style={styles.heightContainer}>
+          <Text style={styles.heightLabel}>Height</Text>
+          <Text style={styles.heightValue}>{towerHeight}</Text>
+          {bestHeight > 0 && <Text style={styles.bestText}>Best {bestHeight}</Text>}
+        </View>
+
+        <View style={styles.controls}>
+          <TouchableOpacity style={styles.controlButton} onPress={onFinish}>
+            <Flag size={20} color="#fff" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.controlButton} onPress={onPause}>
+            <Pause size={20} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+export const ZenUI = memo(ZenUIComponent);
+
+const styles = StyleSheet.create({
+  zenUI: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    zIndex: 10,
+    pointerEvents: 'box-none',
+  },
+  topUI: {
+    position: 'absolute',
+    top: 10,
+    left: 20,
+    right: 20,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  heightContainer: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 15,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  heightLabel: {
+    color: '#ccc',
+    fontSize: 14,
+    marginBottom: 5,
+  },
+  heightValue: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  bestText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  controls: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  controlButton: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    padding: 12,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -1,6 +1,6 @@
 import { Dimensions } from 'react-native';
 import { Platform } from 'react-native';
-import { GameModeConfig, ChallengeLevel, Theme } from '../types/game';
+import { GameModeConfig, ChallengeLevel, Theme, PowerUp, PowerUpInventory } from '../types/game';
 import { Background } from '@/components/Background';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -127,6 +127,143 @@ export const HIGH_SPEED_CONFIG = {
   HAPTIC_INTENSITY_STRONG: 0.9,
 } as const;
 
+// Landing behaviour of special block types
+export const BLOCK_PHYSICS_CONFIG = {
+  SLIDE_FACTOR: 4, // Slide px per unit of speed at zero friction
+  MAX_SLIDE: 40, // px
+  HEAVY_SHIFT_FACTOR: 0.5, // Share of the center offset pushed into the block below
+  HEAVY_SHIFT_DAMPING: 0.5, // Each lower block moves this much less
+  HEAVY_SHIFT_DEPTH: 3, // Blocks below affected by one landing
+  HEAVY_COMPRESSION: 12, // px squashed out of the block below per unit of extra weight
+  MIN_COMPRESSED_HEIGHT_RATIO: 0.7,
+  IRREGULAR_MIN_INSET: 0.06, // Fraction of width missing from a bottom corner
+  IRREGULAR_MAX_INSET: 0.2,
+} as const;
+
+// Tuning for in-run power-up effects
+export const POWER_UP_CONFIG = {
+  SLOW_MOTION_FACTOR: 0.5, // Speed multiplier while slow motion lasts
+  SLOW_MOTION_BLOCKS: 5, // Blocks affected, including the one in motion
+  WIDEN_AMOUNT: 40, // px added to the moving block, capped at INITIAL_BLOCK_WIDTH
+} as const;
+
+// Zen mode: a calm, endless run that can't be lost
+export const ZEN_CONFIG = {
+  MIN_BLOCK_WIDTH: 60, // px; placed blocks are grown back to at least this
+  SPEED_FACTOR: 0.8, // Constant speed relative to the difficulty's starting speed
+} as const;
+
+// Pass-and-play versus matches
+export const VERSUS_CONFIG = {
+  MIN_PLAYERS: 2,
+  MAX_PLAYERS: 4,
+} as const;
+
+// Split-screen races: two towers, one device
+export const RACE_CONFIG = {
+  LANES: 2,
+  TARGET_BLOCKS: 20, // First tower to this height wins
+  SIDE_BY_SIDE_MIN_WIDTH: 768, // Tablets get lanes side by side even in portrait
+} as const;
+
+// Paid continues after a failed drop
+export const CONTINUE_CONFIG = {
+  BASE_COST: 50, // Coins for the first continue in a run
+  COST_MULTIPLIER: 2, // Each further continue in the same run costs this much more
+  MAX_CONTINUES: 3,
+} as const;
+
+// Comeback rule: a streak of perfect drops grows the block back out
+export const REGROWTH_CONFIG = {
+  PERFECTS_REQUIRED: 3, // Consecutive perfects per regrowth
+  GROWTH_AMOUNT: 20, // px added per regrowth, capped at INITIAL_BLOCK_WIDTH
+} as const;
+
+// Tower balance: how far the load above a block may sit from its center
+export const STABILITY_CONFIG = {
+  WOBBLE_THRESHOLD: 0.45, // Below this the tower visibly sways
+  TOPPLE_THRESHOLD: 0.05, // Below this the tower falls over
+  MIN_TOPPLE_LOAD: 3, // Blocks that must rest on a support before it can tip
+  MAX_WOBBLE_DEGREES: 3,
+} as const;
+
+// Falling debris for sliced overhangs and missed blocks
+export const DEBRIS_CONFIG = {
+  GRAVITY: 0.0025, // px/ms² - tuned so a slice clears the screen in ~1s
+  HORIZONTAL_DRIFT: 60, // px pushed outward from the tower while falling
+  MAX_ROTATION: 120, // degrees of spin over the whole fall
+  MIN_WIDTH: 1, // Ignore slivers thinner than this
+  MAX_PIECES: IS_ANDROID ? 6 : 10, // Oldest pieces are dropped past this
+} as const;
+
+// Procedural challenge levels that carry on past the hand-written list
+export const LEVEL_GENERATOR_CONFIG = {
+  BASE_TARGET_BLOCKS: 25, // Target of the first generated level
+  TARGET_GROWTH: 1.5, // Extra blocks per level after that
+  MAX_TARGET_BLOCKS: 80,
+  MIN_SECONDS_PER_BLOCK: 0.9, // Tightest time limit, reached gradually
+  START_SECONDS_PER_BLOCK: 1.6,
+  TIME_LIMIT_CHANCE: [0.3, 0.7], // [first level, cap]
+  PERFECT_CHANCE: [0.4, 0.8],
+  PERFECT_RATIO: [0.3, 0.8], // Share of the target that must be perfect
+  RAMP_PER_LEVEL: 0.02, // How fast chances, ratios and time limits tighten
+  LEVELS_PER_SPECIAL_BLOCK: 5, // Another special block type joins every N levels
+} as const;
+
+// Default star rules for levels without their own starCriteria
+export const STAR_RATING_CONFIG = {
+  TWO_STAR_PERFECT_PERCENT: 36,
+  THREE_STAR_PERFECT_PERCENT: 62,
+  TWO_STAR_PERFECT_SHARE: 0.43, // Perfect drops as a share of the target
+  THREE_STAR_PERFECT_SHARE: 0.72,
+  // Fast stackers get three stars with a lower perfect rate
+  SPEED_BONUS: {
+    easy: { speed: 4.5, perfectPercent: 35 },
+    medium: { speed: 5.8, perfectPercent: 48 },
+    hard: { speed: 7.5, perfectPercent: 65 },
+  },
+  DIFFICULTY_MULTIPLIER: { easy: 0.8, medium: 1, hard: 1.2 }, // Scales the perfect thresholds
+} as const;
+
+// Limits for levels built in the editor
+export const LEVEL_EDITOR_CONFIG = {
+  DEFAULT_TARGET_BLOCKS: 15,
+  MIN_TARGET_BLOCKS: 3,
+  MAX_TARGET_BLOCKS: 200, // Same cap level packs are validated against
+  TIME_LIMIT_STEP: 10, // Seconds per tap on the time limit stepper
+  MAX_TIME_LIMIT: 600,
+} as const;
+
+// How the stats tab groups runs over time
+export const ANALYTICS_CONFIG = {
+  TREND_RUNS: 20, // Most recent runs in the score trend chart
+  PERIOD_DAYS: 7, // One bar per week in the perfect rate chart
+  PERIODS: 8,
+} as const;
+
+// Run history is kept in fixed-size chunks; retention drops whole chunks, oldest first
+export const SCORE_HISTORY_CONFIG = {
+  CHUNK_SIZE: 100, // Runs per stored chunk
+  PAGE_SIZE: 50, // Runs per page when a query doesn't ask for a size
+  RETENTION_DAYS: 730, // Runs older than this are pruned; 0 keeps them forever
+  MAX_RUNS: 10000, // Oldest runs past this count are pruned; 0 for no cap
+  TOP_SCORES: 10, // Best runs per mode kept in the index for the leaderboard
+  MAX_REPLAYS: 50, // Replays kept, best final scores first; each ghost's best run is kept on top
+} as const;
+
+// Save backups are plain files that anyone can edit, so their checksum only
+// catches damaged files; it isn't proof the contents came from this game
+export const BACKUP_CONFIG = {
+  FORMAT: 'stack-tower-backup',
+  VERSION: 1,
+} as const;
+
+// Checksums on the game data and score history, keyed per install
+export const INTEGRITY_CONFIG = {
+  KEY_CONTEXT: 'stack-tower/integrity/v1', // Mixed into every device key
+  SECRET_BYTES: 32, // Random bytes in the per-install secret
+} as const;
+
 export const COLORS = {
   themes: {
     default: {
@@ -320,15 +457,78 @@ export const GAME_MODES: GameModeConfig[] = [
     icon: 'target',
     unlocked: true,
   },
+  {
+    id: 'zen',
+    name: 'Zen',
+    description: 'Stack at your own pace with no way to lose',
+    icon: 'leaf',
+    unlocked: true,
+  },
+  {
+    id: 'versus',
+    name: 'Versus',
+    description: 'Take turns with 2-4 friends on one device',
+    icon: 'users',
+    unlocked: true,
+  },
+  {
+    id: 'race',
+    name: 'Race',
+    description: 'Two towers side by side, first to the top wins',
+    icon: 'flag',
+    unlocked: true,
+  },
 ];
 
+export const POWER_UPS: PowerUp[] = [
+  {
+    id: 'slowMotion',
+    name: 'Slow Motion',
+    description: 'Halves block speed for the next 5 blocks',
+    cost: 60,
+    icon: 'timer',
+  },
+  {
+    id: 'autoPerfect',
+    name: 'Auto Perfect',
+    description: 'Your next drop lands perfectly aligned',
+    cost: 90,
+    icon: 'target',
+  },
+  {
+    id: 'widenBlock',
+    name: 'Widen Block',
+    description: 'Stretches the moving block back out',
+    cost: 75,
+    icon: 'maximize',
+  },
+  {
+    id: 'extraLife',
+    name: 'Extra Life',
+    description: 'Forgives your next miss or toppled tower',
+    cost: 150,
+    icon: 'heart',
+  },
+];
+
+export const EMPTY_POWER_UP_INVENTORY: PowerUpInventory = {
+  slowMotion: 0,
+  autoPerfect: 0,
+  widenBlock: 0,
+  extraLife: 0,
+};
+
 export const CHALLENGE_LEVELS: ChallengeLevel[] = [
   {
     id: 1,
     name: 'Perfect Start',
     description: 'Stack 5 blocks perfectly',
-    objective: 'Stack 5 blocks with perfect alignment',
+    objective: 'Stack 5 blocks with 2 perfect drops',
     targetBlocks: 5,
+    objectives: [
+      { type: 'reachHeight', blocks: 5 },
+      { type: 'perfects', count: 2 },
+    ],
     completed: false,
     stars: 0,
   },
@@ -356,9 +556,14 @@ export const CHALLENGE_LEVELS: ChallengeLevel[] = [
     id: 4,
     name: 'Heavy Duty',
     description: 'Stack heavy blocks',
-    objective: 'Stack 6 heavy blocks perfectly',
+    objective: 'Stack 6 blocks with 3 perfect drops without missing a heavy block',
     targetBlocks: 6,
     specialBlocks: ['heavy'],
+    objectives: [
+      { type: 'reachHeight', blocks: 6 },
+      { type: 'perfects', count: 3 },
+      { type: 'noMisses', blockType: 'heavy' },
+    ],
     completed: false,
     stars: 0,
   },
@@ -1,8 +1,10 @@
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
 import { AppState } from 'react-native';
-import { ChallengeLevel, ScoreRecord, GameMode } from '../types/game';
-import { CHALLENGE_LEVELS } from '../constants/game';
-import { saveGameData, loadGameData, flushPendingWrites } from '../utils/storage';
+import { ChallengeLevel, ScoreRecord, GameMode, PowerUpInventory, PowerUpType, SaveData } from '../types/game';
+import { CHALLENGE_LEVELS, POWER_UPS } from '../constants/game';
+import { flushPendingWrites } from '../utils/storage';
+import { getProgression, loadProgression, subscribeToProgression, updateProgression } from '../utils/progressionStore';
+import { getChallengeLevel } from '../utils/levelGenerator';
 
 export type DifficultyLevel = 'easy' | 'medium' | 'hard';
 
@@ -16,9 +18,13 @@ interface ThemeState {
     classic: number;
     timeAttack: number;
     challenge: number;
+    zen: number; // Tallest zen tower
+    versus: number; // Best winning score in a versus match
+    race: number; // Best winning score in a split-screen race
   };
   totalGamesPlayed: number;
   selectedDifficulty: DifficultyLevel;
+  powerUps: PowerUpInventory;
 }
 
 interface ThemeContextType {
@@ -35,6 +41,8 @@ interface ThemeContextType {
   incrementGamesPlayed: () => void;
   getHighScore: (mode: GameMode) => number;
   setDifficulty: (difficulty: DifficultyLevel) => void;
+  buyPowerUp: (powerUp: PowerUpType) => boolean;
+  consumePowerUp: (powerUp: PowerUpType) => void;
 }
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
@@ -49,7 +57,9 @@ type ThemeAction =
   | { type: 'COMPLETE_CHALLENGE_LEVEL'; levelId: number; stars: number; score: number }
   | { type: 'UPDATE_HIGH_SCORE'; mode: GameMode; score: number }
   | { type: 'INCREMENT_GAMES_PLAYED' }
-  | { type: 'SET_DIFFICULTY'; difficulty: DifficultyLevel };
+  | { type: 'SET_DIFFICULTY'; difficulty: DifficultyLevel }
+  | { type: 'BUY_POWER_UP'; powerUp: PowerUpType; cost: number }
+  | { type: 'CONSUME_POWER_UP'; powerUp: PowerUpType };
 
 const themeReducer = (state: ThemeState, action: ThemeAction): ThemeState => {
   switch (action.type) {
@@ -80,7 +90,8 @@ const themeReducer = (state: ThemeState, action: ThemeAction): ThemeState => {
         },
       };
     case 'COMPLETE_CHALLENGE_LEVEL':
-      const currentLevel = state.challengeProgress[action.levelId];
+      // Generated levels only get a progress entry once they're first completed
+      const currentLevel = state.challengeProgress[action.levelId] || getChallengeLevel(action.levelId);
       const newStars = Math.max(currentLevel?.stars || 0, action.stars);
       const isCompleted = true;
 
@@ -112,6 +123,21 @@ const themeReducer = (state: ThemeState, action: ThemeAction): ThemeState => {
       return { ...state, totalGamesPlayed: state.totalGamesPlayed + 1 };
     case 'SET_DIFFICULTY':
       return { ...state, selectedDifficulty: action.difficulty };
+    case 'BUY_POWER_UP':
+      if (state.coins < action.cost) return state;
+      return {
+        ...state,
+        coins: state.coins - action.cost,
+        powerUps: { ...state.powerUps, [action.powerUp]: state.powerUps[action.powerUp] + 1 },
+      };
+    case 'CONSUME_POWER_UP':
+      return {
+        ...state,
+        powerUps: {
+          ...state.powerUps,
+          [action.powerUp]: Math.max(0, state.powerUps[action.powerUp] - 1),
+        },
+      };
     default:
       return state;
   }
@@ -131,23 +157,54 @@ const initializeChallengeProgress = (): Record<number, ChallengeLevel> => {
   return progress;
 };
 
-const initialState: ThemeState = {
-  coins: 0,
-  currentTheme: 'default',
-  unlockedThemes: ['default'],
-  challengeProgress: initializeChallengeProgress(),
-  currentUnlockedLevel: 1,
-  highScores: {
-    classic: 0,
-    timeAttack: 0,
-    challenge: 0,
-  },
-  totalGamesPlayed: 0,
-  selectedDifficulty: 'medium', // default
+// The store keeps progress for every level played; built-in levels fill in the rest
+const toThemeState = (progression: SaveData): ThemeState => {
+  const challengeProgress = initializeChallengeProgress();
+  Object.entries(progression.challengeProgress).forEach(([levelId, level]) => {
+    const id = parseInt(levelId);
+    challengeProgress[id] = { ...challengeProgress[id], ...level };
+  });
+
+  return {
+    coins: progression.coins,
+    currentTheme: progression.currentTheme,
+    unlockedThemes: progression.unlockedThemes,
+    challengeProgress,
+    currentUnlockedLevel: progression.currentUnlockedLevel,
+    highScores: progression.highScores,
+    totalGamesPlayed: progression.totalGamesPlayed,
+    selectedDifficulty: progression.selectedDifficulty,
+    powerUps: progression.powerUps,
+  };
+};
+
+// Actions run against the store's latest data, so quick successive updates never drop each other.
+// Returns false when the reducer turned the action down against that data
+const dispatch = (action: ThemeAction): boolean => {
+  let applied = false;
+  updateProgression(progression => {
+    const current = toThemeState(progression);
+    const next = themeReducer(current, action);
+    applied = next !== current;
+    return {
+      ...progression,
+      coins: next.coins,
+      currentTheme: next.currentTheme,
+      unlockedThemes: next.unlockedThemes,
+      challengeProgress: next.challengeProgress,
+      currentUnlockedLevel: next.currentUnlockedLevel,
+      highScores: next.highScores,
+      totalGamesPlayed: next.totalGamesPlayed,
+      selectedDifficulty: next.selectedDifficulty,
+      powerUps: next.powerUps,
+    };
+  });
+  return applied;
 };
 
 export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [themeState, dispatch] = useReducer(themeReducer, initialState);
+  const [progression, setProgression] = useState<SaveData>(getProgression);
+  const themeState = useMemo(() => toThemeState(progression), [progression]);
 
   // Handle app backgrounding for data persistence
   useEffect(() => {
@@ -162,84 +219,13 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     return () => subscription?.remove();
   }, []);
 
-  // Load saved data on mount
+  // Follow the progression store; it loads the save the first time anyone asks
   useEffect(() => {
-    const loadSavedData = async () => {
-      const savedData = await loadGameData();
-      if (Object.keys(savedData).length > 0) {
-        // Merge saved challenge progress with default levels
-        const mergedChallengeProgress = { ...initializeChallengeProgress() };
-        if (savedData.challengeProgress) {
-          Object.keys(savedData.challengeProgress).forEach(levelId => {
-            const id = parseInt(levelId);
-            if (mergedChallengeProgress[id]) {
-              mergedChallengeProgress[id] = {
-                ...mergedChallengeProgress[id],
-                ...savedData.challengeProgress![id],
-              };
-            }
-          });
-        }
-
-        dispatch({
-          type: 'UPDATE_STATE',
-          newState: {
-            ...savedData,
-            challengeProgress: mergedChallengeProgress,
-            currentUnlockedLevel: savedData.currentUnlockedLevel || 1,
-            highScores: savedData.highScores || { classic: 0, timeAttack: 0, challenge: 0 },
-            selectedDifficulty: savedData.selectedDifficulty || 'medium', // Include difficulty in saved data loading
-          }
-        });
-      }
-    };
-
-    loadSavedData();
+    const unsubscribe = subscribeToProgression(setProgression);
+    loadProgression();
+    return unsubscribe;
   }, []);
 
-  // Debounced save to prevent excessive storage operations
-  const saveTimeoutRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  // Save theme data when state changes - now includes selectedDifficulty
-  useEffect(() => {
-    // Debounce saves to prevent excessive storage operations
-    if (saveTimeoutRef.current) {
-      clearTimeout(saveTimeoutRef.current);
-    }
-
-    saveTimeoutRef.current = setTimeout(() => {
-      saveGameData({
-        coins: themeState.coins,
-        currentTheme: themeState.currentTheme,
-        unlockedThemes: themeState.unlockedThemes,
-        challengeProgress: themeState.challengeProgress,
-        currentUnlockedLevel: themeState.currentUnlockedLevel,
-        highScores: themeState.highScores,
-        totalGamesPlayed: themeState.totalGamesPlayed,
-        selectedDifficulty: themeState.selectedDifficulty, // Save difficulty setting
-        // Add other fields as needed to match your saveGameData interface
-        unlockedSkins: [],
-        dailyChallengeCompleted: false,
-        lastDailyChallengeDate: '',
-      });
-    }, 300); // 300ms debounce
-
-    return () => {
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
-      }
-    };
-  }, [
-    themeState.coins,
-    themeState.currentTheme,
-    themeState.unlockedThemes,
-    themeState.challengeProgress,
-    themeState.currentUnlockedLevel,
-    themeState.highScores,
-    themeState.totalGamesPlayed,
-    themeState.selectedDifficulty // Add selectedDifficulty to dependency array
-  ]);
-
   const spendCoins = (amount: number) => {
     dispatch({ type: 'SPEND_COINS', amount });
   };
@@ -268,6 +254,18 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     dispatch({ type: 'SET_DIFFICULTY', difficulty });
   };
 
+  // Coins are checked by the reducer against the store, not this render's possibly stale state
+  const buyPowerUp = (powerUp: PowerUpType): boolean => {
+    const item = POWER_UPS.find(p => p.id === powerUp);
+    if (!item) return false;
+
+    return dispatch({ type: 'BUY_POWER_UP', powerUp, cost: item.cost });
+  };
+
+  const consumePowerUp = (powerUp: PowerUpType) => {
+    dispatch({ type: 'CONSUME_POWER_UP', powerUp });
+  };
+
   const completeChallengeLevel = (levelId: number, stars: number, score: number, isNewStars: boolean): number => {
     const currentLevel = themeState.challengeProgress[levelId];
     const previousStars = currentLevel?.stars || 0;
@@ -330,6 +328,8 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         incrementGamesPlayed,
         getHighScore,
         setDifficulty,
+        buyPowerUp,
+        consumePowerUp,
       }}
     >
       {children}
@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useReducer, useEffect, useRef } from 'react';
 import { Audio } from 'expo-av';
 import { AppState } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSoundEnabled, saveSoundEnabled } from '../utils/storage';
 
 export type SoundType =
   | 'click'
@@ -46,8 +46,6 @@ const SOUND_FILES: Record<SoundType, any> = {
   drop: require('../assets/sounds/drop.mp3'),
 };
 
-const SOUND_SETTINGS_KEY = '@stack_tower_sound_settings';
-
 type SoundAction =
   | { type: 'SET_SOUND_ENABLED'; enabled: boolean }
   | { type: 'SET_LOADING'; loading: boolean }
@@ -87,14 +85,9 @@ export const SoundProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   // Load sound settings from storage
   useEffect(() => {
     const loadSoundSettings = async () => {
-      try {
-        const savedSettings = await AsyncStorage.getItem(SOUND_SETTINGS_KEY);
-        if (savedSettings !== null) {
-          const enabled = JSON.parse(savedSettings);
-          dispatch({ type: 'SET_SOUND_ENABLED', enabled });
-        }
-      } catch (error) {
-        console.warn('Failed to load sound settings:', error);
+      const enabled = await getSoundEnabled();
+      if (enabled !== null) {
+        dispatch({ type: 'SET_SOUND_ENABLED', enabled });
       }
     };
 
@@ -103,15 +96,7 @@ export const SoundProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   // Save sound settings when changed
   useEffect(() => {
-    const saveSoundSettings = async () => {
-      try {
-        await AsyncStorage.setItem(SOUND_SETTINGS_KEY, JSON.stringify(soundState.soundEnabled));
-      } catch (error) {
-        console.warn('Failed to save sound settings:', error);
-      }
-    };
-
-    saveSoundSettings();
+    saveSoundEnabled(soundState.soundEnabled);
   }, [soundState.soundEnabled]);
 
   // Load all sounds on mount
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+
+// Calls onFrame with the elapsed milliseconds on every animation frame while active
+export const useFrameLoop = (active: boolean, onFrame: (dtMs: number) => void) => {
+  const animationRef = useRef<number | undefined>(undefined);
+  const isAnimatingRef = useRef(false);
+  const lastFrameTimeRef = useRef(0);
+
+  useEffect(() => {
+    if (!active) return;
+
+    isAnimatingRef.current = true;
+    lastFrameTimeRef.current = performance.now();
+
+    const animateFrame = (currentTime: number) => {
+      if (!isAnimatingRef.current) return;
+
+      const deltaTime = currentTime - lastFrameTimeRef.current;
+      lastFrameTimeRef.current = currentTime;
+      onFrame(deltaTime);
+
+      animationRef.current = requestAnimationFrame(animateFrame);
+    };
+
+    animationRef.current = requestAnimationFrame(animateFrame);
+
+    return () => {
+      isAnimatingRef.current = false;
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current);
+      }
+    };
+  }, [active, onFrame]);
+};
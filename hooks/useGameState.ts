@@ -1,16 +1,24 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { runOnJS } from 'react-native-reanimated';
-import { GameState, Block, GameMode, ChallengeLevel } from '../types/game';
-import { createInitialBlock, createNewBlock, calculateCollision, calculateScore, calculateChallengeStars, getCollisionFeedback } from '../utils/gameLogic';
-import { GAME_CONFIG, CHALLENGE_LEVELS } from '../constants/game';
-import { saveGameData } from '../utils/storage';
+import { GameState, GameMode, ChallengeLevel, Replay, DebrisPiece, PowerUpType, VersusMatch, RaceMatch, GhostTower, RunStats } from '../types/game';
+import { createInitialBlock, calculateChallengeStars, calculateContinueCost, getCollisionFeedback } from '../utils/gameLogic';
+import { createGameEngine, EngineEvent, EngineState, GameEngine } from '../utils/gameEngine';
+import { createReplay, createReplayPlayer, ReplayPlayer } from '../utils/replay';
+import { addDebris, createMissDebris, createSliceDebris } from '../utils/debris';
+import { createVersusMatch, getVersusTower, recordVersusTurn } from '../utils/versus';
+import { createRaceMatch, getRaceTower, getRaceWinner, recordRaceDrop, updateRaceTowers } from '../utils/race';
+import { GHOST_MODES, getGhostTower, syncGhost } from '../utils/ghost';
+import { areObjectivesMet } from '../utils/objectives';
+import { generateSeed } from '../utils/random';
+import { getBestReplay } from '../utils/storage';
+import { updateProgression } from '../utils/progressionStore';
 import { useSound } from '../contexts/SoundContext';
 import { useTheme } from '../contexts/GameContext';
 
 export const useGameState = () => {
   const { playSound } = useSound();
   const soundPlayedRef = useRef<Set<string>>(new Set());
-  const { themeState } = useTheme();
+  const { themeState, consumePowerUp, spendCoins: spendThemeCoins } = useTheme();
   
   // ✅ CRITICAL FIX: Use ref to always get the most current difficulty
   const currentDifficultyRef = useRef(themeState.selectedDifficulty);
@@ -45,217 +53,451 @@ export const useGameState = () => {
     }));
   }, [themeState.selectedDifficulty]);
 
+  // Headless engine that owns all gameplay rules; the hook only drives it
+  const engineRef = useRef<GameEngine | null>(null);
+  const lastSyncedRef = useRef<EngineState | null>(null);
+  // Set while a recorded run is being played back instead of live input
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  // Purely visual falling fragments; they never feed back into the rules
+  const [debris, setDebris] = useState<DebrisPiece[]>([]);
+  // Versus matches run one engine per player; engineRef points at whoever is up
+  const versusEnginesRef = useRef<GameEngine[]>([]);
+  const versusMatchRef = useRef<VersusMatch | undefined>(undefined);
+
+  const setVersusMatch = useCallback((match: VersusMatch | undefined) => {
+    versusMatchRef.current = match;
+    if (!match) versusEnginesRef.current = [];
+    setGameState(prev => ({ ...prev, versus: match }));
+  }, []);
+
+  // Races run every lane's engine at once; the match mirrors all of their towers
+  const raceEnginesRef = useRef<GameEngine[]>([]);
+  const raceMatchRef = useRef<RaceMatch | undefined>(undefined);
+
+  const setRaceMatch = useCallback((match: RaceMatch | undefined) => {
+    raceMatchRef.current = match;
+    if (!match) raceEnginesRef.current = [];
+    setGameState(prev => {
+      if (!match) return { ...prev, race: undefined };
+
+      // The race is over as soon as it has a winner, whose score stands for the match
+      const winner = getRaceWinner(match);
+      return {
+        ...prev,
+        race: match,
+        gameOver: match.winner !== null,
+        score: winner ? winner.tower.score : prev.score,
+      };
+    });
+  }, []);
+
+  // Level pack the current challenge level came from, if it isn't a built-in one
+  const packIdRef = useRef<string | undefined>(undefined);
+
+  // Personal-best run replayed alongside classic and challenge runs
+  const ghostPlayerRef = useRef<ReplayPlayer | null>(null);
+  const [ghost, setGhost] = useState<GhostTower | null>(null);
+
+  const clearGhost = useCallback(() => {
+    ghostPlayerRef.current = null;
+    setGhost(null);
+  }, []);
+
+  // Loads in the background and catches up with however long the run has already been going
+  const loadGhost = useCallback(async (engine: GameEngine) => {
+    clearGhost();
+    if (!GHOST_MODES.includes(engine.mode)) return;
+
+    const replay = await getBestReplay(
+      engine.mode,
+      engine.startDifficulty,
+      engine.challengeLevel?.id,
+      packIdRef.current
+    );
+    if (!replay || engineRef.current !== engine) return;
+
+    const player = createReplayPlayer(replay, engine.challengeLevel);
+    syncGhost(player, engine.getState().steps);
+    ghostPlayerRef.current = player;
+    setGhost(getGhostTower(player.engine.getState()));
+  }, [clearGhost]);
+
+  const syncEngineState = useCallback((engine: GameEngine) => {
+    const { elapsedMs, steps, seed, ...snapshot } = engine.getState();
+    lastSyncedRef.current = engine.getState();
+    setGameState(prev => ({ ...prev, ...snapshot }));
+  }, []);
+
   // ✅ ENHANCED: Use ref for immediate access to current difficulty
-  const startGame = useCallback((mode: GameMode = 'classic', level?: ChallengeLevel) => {
+  const startGame = useCallback((mode: GameMode = 'classic', level?: ChallengeLevel, seed?: number, packId?: string) => {
     soundPlayedRef.current.clear();
+    packIdRef.current = packId;
 
-    const initialBlock = createInitialBlock();
     // ✅ FIX: Use ref to get the most current difficulty immediately
     const currentDifficulty = currentDifficultyRef.current;
-    
-    const firstMovingBlock = createNewBlock(
-      initialBlock, 
-      1, 
-      mode, 
-      level, 
-      currentDifficulty, // Use ref value for immediate access
-      0
+    const engine = createGameEngine({
+      mode,
+      challengeLevel: level,
+      difficulty: currentDifficulty,
+      seed,
+    });
+    engineRef.current = engine;
+    replayPlayerRef.current = null;
+    setIsReplaying(false);
+    setDebris([]);
+
+    setVersusMatch(undefined);
+    setRaceMatch(undefined);
+    setGameState(prev => ({
+      ...prev,
+      rewardsGranted: false,
+    }));
+    syncEngineState(engine);
+    loadGhost(engine);
+  }, [syncEngineState, setVersusMatch, setRaceMatch, loadGhost]); // Remove dependency on themeState.selectedDifficulty since we use ref
+
+  // Pass-and-play: every player gets an engine on the same seed, so all towers see the same blocks
+  const startVersus = useCallback((playerCount: number) => {
+    soundPlayedRef.current.clear();
+    packIdRef.current = undefined;
+
+    const seed = generateSeed();
+    const match = createVersusMatch(playerCount);
+    const engines = match.players.map(() =>
+      createGameEngine({ mode: 'versus', difficulty: currentDifficultyRef.current, seed })
     );
+    versusEnginesRef.current = engines;
+    engineRef.current = engines[0];
+    replayPlayerRef.current = null;
+    setIsReplaying(false);
+    setDebris([]);
+    clearGhost();
+
+    setRaceMatch(undefined);
+    setVersusMatch(match);
+    setGameState(prev => ({
+      ...prev,
+      rewardsGranted: false,
+    }));
+    syncEngineState(engines[0]);
+  }, [syncEngineState, setVersusMatch, setRaceMatch, clearGhost]);
 
+  // Both racers get an engine on the same seed and their own lane to tap
+  const startRace = useCallback(() => {
+    soundPlayedRef.current.clear();
+    packIdRef.current = undefined;
+
+    const seed = generateSeed();
+    const match = createRaceMatch();
+    const engines = match.lanes.map(() =>
+      createGameEngine({
+        mode: 'race',
+        difficulty: currentDifficultyRef.current,
+        seed,
+        targetBlocks: match.targetBlocks,
+      })
+    );
+    raceEnginesRef.current = engines;
+    engineRef.current = engines[0];
+    replayPlayerRef.current = null;
+    setIsReplaying(false);
+    setDebris([]);
+    clearGhost();
+
+    setVersusMatch(undefined);
     setGameState(prev => ({
       ...prev,
-      blocks: [initialBlock],
-      score: 0,
-      combo: 0,
-      perfectBlocks: 0,
-      gameOver: false,
-      gameStarted: true,
-      tower_height: 1,
-      currentBlock: firstMovingBlock,
-      mode,
-      level: level?.id,
-      timeRemaining: mode === 'timeAttack' ? GAME_CONFIG.TIME_ATTACK_DURATION : level?.timeLimit,
       rewardsGranted: false,
-      selectedDifficulty: currentDifficulty, // Store current difficulty
     }));
+    syncEngineState(engines[0]);
+    setRaceMatch(updateRaceTowers(match, engines.map(engine => getRaceTower(engine.getState()))));
+  }, [syncEngineState, setVersusMatch, setRaceMatch, clearGhost]);
+
+  const spawnDebris = useCallback((events: EngineEvent[]) => {
+    const pieces: DebrisPiece[] = [];
+    events.forEach(event => {
+      if (event.type === 'placed') {
+        pieces.push(...createSliceDebris(event.movingBlock, event.block));
+      } else if (event.type === 'missed') {
+        pieces.push(createMissDebris(event.block, event.topBlock));
+      }
+    });
 
-    runOnJS(() => {
-      saveGameData({
-        mode,
-        level: level?.id,
-        gameStarted: true,
-        selectedDifficulty: currentDifficulty,
-      });
-    })();
-  }, []); // Remove dependency on themeState.selectedDifficulty since we use ref
+    if (pieces.length > 0) {
+      setDebris(prev => addDebris(prev, pieces));
+    }
+  }, []);
+
+  const removeDebris = useCallback((id: string) => {
+    setDebris(prev => prev.filter(piece => piece.id !== id));
+  }, []);
+
+  const playDropFeedback = useCallback((events: EngineEvent[]) => {
+    const currentDifficulty = currentDifficultyRef.current;
+
+    events.forEach(event => {
+      switch (event.type) {
+        case 'placed': {
+          const { collision } = event;
+          const feedback = getCollisionFeedback(
+            collision.collisionAccuracy,
+            collision.isPerfect,
+            event.speed,
+            currentDifficulty
+          );
+
+          if (collision.isPerfect) {
+            playSound('chime', Math.min(0.7 + (feedback.feedbackIntensity - 0.5) * 0.6, 1.0));
+          } else if (collision.collisionAccuracy > (currentDifficulty === 'hard' ? 0.8 : 0.7)) {
+            playSound('drop', Math.min(0.5 + feedback.feedbackIntensity * 0.3, 0.8));
+          } else {
+            playSound('drop', Math.max(0.2, feedback.feedbackIntensity * 0.4));
+          }
+          break;
+        }
+        case 'missed':
+        case 'toppled':
+          // An extra life took the hit, so the run carries on
+          playSound(event.forgiven ? 'success' : 'failed', event.forgiven ? 0.5 : 0.8);
+          break;
+        case 'regrown':
+          playSound('success', 0.6);
+          break;
+        case 'completed':
+          playSound('success', 0.8);
+          break;
+        case 'objectiveFailed':
+          playSound('failed', 0.8);
+          break;
+      }
+    });
+  }, [playSound]);
 
   // ✅ ENHANCED: Use ref in all game logic functions
   const dropBlock = useCallback(() => {
-    setGameState(prev => {
-      if (!prev.currentBlock || prev.gameOver) return prev;
+    const engine = engineRef.current;
+    if (!engine || replayPlayerRef.current || raceMatchRef.current) return;
+
+    // The first tap after a handoff only confirms the next player has the device
+    const match = versusMatchRef.current;
+    if (match?.handoff) {
+      setVersusMatch({ ...match, handoff: false });
+      return;
+    }
 
-      const topBlock = prev.blocks[prev.blocks.length - 1];
-      // Use ref for immediate access to current difficulty
-      const currentDifficulty = currentDifficultyRef.current;
-      const collision = calculateCollision(prev.currentBlock, topBlock, currentDifficulty);
+    const events = engine.drop();
+    if (events.length === 0) return;
 
-      runOnJS(() => {
-        playSound('click', 0.6);
-      })();
+    runOnJS(() => {
+      playSound('click', 0.6);
+      playDropFeedback(events);
+    })();
 
-      if (collision.newWidth <= 0) {
-        runOnJS(() => {
-          playSound('failed', 0.8);
-        })();
+    spawnDebris(events);
 
-        return {
-          ...prev,
-          gameOver: true,
-          currentBlock: null,
-          gameStarted: false,
-          selectedDifficulty: currentDifficulty
-        };
+    if (match) {
+      const state = engine.getState();
+      const nextMatch = recordVersusTurn(match, getVersusTower(state), state.gameOver);
+      setVersusMatch(nextMatch);
+
+      if (nextMatch.loser === null) {
+        const nextEngine = versusEnginesRef.current[nextMatch.currentPlayer];
+        engineRef.current = nextEngine;
+        setDebris([]);
+        syncEngineState(nextEngine);
+        return;
       }
+    }
 
-      const newBlock: Block = {
-        ...prev.currentBlock,
-        x: collision.newX,
-        width: collision.newWidth,
-        isMoving: false,
-      };
+    syncEngineState(engine);
+  }, [playSound, playDropFeedback, spawnDebris, syncEngineState, setVersusMatch]);
 
-      const newCombo = collision.isPerfect ? prev.combo + 1 : 0;
-      const newPerfectBlocks = collision.isPerfect ? prev.perfectBlocks + 1 : prev.perfectBlocks;
-      
-      const scoreIncrease = calculateScore(
-        prev.tower_height, 
-        newCombo, 
-        collision.isPerfect, 
-        prev.mode, 
-        prev.currentBlock.speed, 
-        currentDifficulty
-      );
+  // Each race lane drops on its own tap; the first drop that settles the race stops the rest
+  const dropRaceBlock = useCallback((laneId: number) => {
+    const match = raceMatchRef.current;
+    const engine = raceEnginesRef.current[laneId];
+    if (!match || !engine || match.winner !== null) return;
 
-      runOnJS(() => {
-        const feedback = getCollisionFeedback(
-          collision.collisionAccuracy, 
-          collision.isPerfect, 
-          prev.currentBlock?.speed || 0, 
-          currentDifficulty
-        );
-
-        if (collision.isPerfect) {
-          playSound('chime', Math.min(0.7 + (feedback.feedbackIntensity - 0.5) * 0.6, 1.0));
-        } else if (collision.collisionAccuracy > (currentDifficulty === 'hard' ? 0.8 : 0.7)) {
-          playSound('drop', Math.min(0.5 + feedback.feedbackIntensity * 0.3, 0.8));
-        } else {
-          playSound('drop', Math.max(0.2, feedback.feedbackIntensity * 0.4));
-        }
-      })();
+    const events = engine.drop();
+    if (events.length === 0) return;
 
-      const isComplete = checkModeCompletion(prev, newBlock);
+    runOnJS(() => {
+      playSound('click', 0.6);
+      playDropFeedback(events);
+    })();
 
-      if (isComplete) {
-        runOnJS(() => {
-          playSound('success', 0.8);
-        })();
+    const state = engine.getState();
+    const outcome = events.some(event => event.type === 'completed')
+      ? 'completed'
+      : state.gameOver
+      ? 'failed'
+      : 'placed';
+    const nextMatch = recordRaceDrop(match, laneId, getRaceTower(state), outcome);
+
+    if (nextMatch.winner !== null) {
+      raceEnginesRef.current.forEach(other => {
+        if (other !== engine) other.finish();
+      });
+    }
+    setRaceMatch(nextMatch);
+  }, [playSound, playDropFeedback, setRaceMatch]);
 
-        return {
-          ...prev,
-          blocks: [...prev.blocks, newBlock],
-          currentBlock: null,
-          score: prev.score + scoreIncrease,
-          combo: newCombo,
-          perfectBlocks: newPerfectBlocks,
-          tower_height: prev.tower_height + 1,
-          gameOver: true,
-          gameStarted: false,
-          selectedDifficulty: currentDifficulty
-        };
-      }
+  // Spend one owned power-up on the live run; false if it had no effect
+  const activatePowerUp = useCallback((powerUp: PowerUpType): boolean => {
+    const engine = engineRef.current;
+    if (!engine || replayPlayerRef.current) return false;
+    if ((themeState.powerUps[powerUp] || 0) <= 0) return false;
 
-      // Create next block with current difficulty
-      const nextMovingBlock = createNewBlock(
-        newBlock,
-        prev.tower_height + 1,
-        prev.mode,
-        prev.level ? CHALLENGE_LEVELS.find(l => l.id === prev.level) : undefined,
-        currentDifficulty,
-        newCombo
-      );
+    if (!engine.activatePowerUp(powerUp)) return false;
 
-      return {
-        ...prev,
-        blocks: [...prev.blocks, newBlock],
-        currentBlock: nextMovingBlock,
-        score: prev.score + scoreIncrease,
-        combo: newCombo,
-        perfectBlocks: newPerfectBlocks,
-        tower_height: prev.tower_height + 1,
-        selectedDifficulty: currentDifficulty
-      };
-    });
-  }, [playSound]);
+    consumePowerUp(powerUp);
+    runOnJS(() => {
+      playSound('success', 0.5);
+    })();
+    syncEngineState(engine);
+    return true;
+  }, [themeState.powerUps, consumePowerUp, playSound, syncEngineState]);
 
-  const checkModeCompletion = (state: GameState, newBlock: Block): boolean => {
-    if (state.mode === 'challenge' && state.level) {
-      const challengeLevel = CHALLENGE_LEVELS.find(l => l.id === state.level);
-      if (challengeLevel && state.tower_height >= challengeLevel.targetBlocks) {
-        return true;
-      }
-    }
-    return false;
-  };
+  // Pay to undo the drop that ended the run; each continue costs more than the last
+  const continueRun = useCallback((): boolean => {
+    const engine = engineRef.current;
+    if (!engine || replayPlayerRef.current) return false;
 
-  const updateTimer = useCallback(() => {
-    setGameState(prev => {
-      if (prev.mode !== 'timeAttack' && !(prev.mode === 'challenge' && prev.timeRemaining !== undefined)) {
-        return prev;
-      }
+    const { canContinue, continuesUsed } = engine.getState();
+    const cost = calculateContinueCost(continuesUsed);
+    if (!canContinue || themeState.coins < cost) return false;
 
-      if (!prev.gameStarted || prev.gameOver) return prev;
+    if (!engine.continueRun()) return false;
 
-      const newTime = Math.max(0, (prev.timeRemaining || 0) - 1);
-      const currentDifficulty = currentDifficultyRef.current;
+    spendThemeCoins(cost);
+    runOnJS(() => {
+      playSound('success', 0.6);
+    })();
+    setDebris([]);
+    syncEngineState(engine);
+    return true;
+  }, [themeState.coins, spendThemeCoins, playSound, syncEngineState]);
+
+  // Close out a run the player chose to end, e.g. an endless zen tower
+  const finishRun = useCallback(() => {
+    const engine = engineRef.current;
+    if (!engine || replayPlayerRef.current) return;
+
+    engine.finish();
+    syncEngineState(engine);
+  }, [syncEngineState]);
+
+  // Advance the simulation; only re-render when something visible changed
+  const tick = useCallback((dtMs: number) => {
+    const engine = engineRef.current;
+    if (!engine || versusMatchRef.current?.handoff) return;
+
+    // Race lanes all move every frame, so they are re-rendered together
+    const race = raceMatchRef.current;
+    if (race) {
+      const engines = raceEnginesRef.current;
+      engines.forEach(laneEngine => laneEngine.tick(dtMs));
+      setRaceMatch(updateRaceTowers(race, engines.map(laneEngine => getRaceTower(laneEngine.getState()))));
+      return;
+    }
+
+    const player = replayPlayerRef.current;
+    const events = player ? player.advance(dtMs) : engine.tick(dtMs);
+    const currentDifficulty = currentDifficultyRef.current;
+
+    // Playback replays the recorded drops, so give them the same feedback
+    if (player && events.some(event => event.type === 'placed' || event.type === 'missed')) {
+      runOnJS(() => {
+        playSound('click', 0.6);
+        playDropFeedback(events);
+      })();
+      spawnDebris(events);
+    }
 
-      if (newTime <= 0) {
+    events.forEach(event => {
+      if (event.type === 'timeUp' || (event.type === 'objectiveFailed' && !player)) {
         runOnJS(() => {
           playSound('failed', 0.8);
         })();
-
-        return {
-          ...prev,
-          timeRemaining: 0,
-          gameOver: true,
-          currentBlock: null,
-          gameStarted: false,
-          selectedDifficulty: currentDifficulty
-        };
+      } else if (event.type === 'timerTick') {
+        const warningTimes = currentDifficulty === 'easy'
+          ? [15, 10, 5, 3, 1]
+          : currentDifficulty === 'hard'
+          ? [8, 5, 3, 2, 1]
+          : [10, 5, 3];
+
+        if (warningTimes.includes(event.timeRemaining)) {
+          runOnJS(() => {
+            const intensity = event.timeRemaining <= 3 ? 0.9 : 0.6;
+            playSound('click', intensity);
+          })();
+        }
       }
+    });
 
-      const warningTimes = currentDifficulty === 'easy' 
-        ? [15, 10, 5, 3, 1] 
-        : currentDifficulty === 'hard' 
-        ? [8, 5, 3, 2, 1] 
-        : [10, 5, 3];
+    const next = engine.getState().currentBlock;
+    const rendered = lastSyncedRef.current?.currentBlock;
+    const positionThreshold = currentDifficulty === 'easy' ? 0.8 : currentDifficulty === 'hard' ? 0.3 : 0.5;
+    const positionChanged = !!next && !!rendered && Math.abs(next.x - rendered.x) > positionThreshold;
+    const directionChanged = !!next && !!rendered && next.direction !== rendered.direction;
 
-      if (warningTimes.includes(newTime)) {
-        runOnJS(() => {
-          const intensity = newTime <= 3 ? 0.9 : 0.6;
-          playSound('click', intensity);
-        })();
-      }
+    if (events.length > 0 || positionChanged || directionChanged) {
+      syncEngineState(engine);
+    }
 
-      return {
-        ...prev,
-        timeRemaining: newTime,
-        selectedDifficulty: currentDifficulty
-      };
-    });
-  }, [playSound]);
+    // The ghost only re-renders when its tower grows
+    const ghostPlayer = ghostPlayerRef.current;
+    if (ghostPlayer && syncGhost(ghostPlayer, engine.getState().steps)) {
+      setGhost(getGhostTower(ghostPlayer.engine.getState()));
+    }
+  }, [playSound, playDropFeedback, spawnDebris, syncEngineState, setRaceMatch]);
+
+  // Play back a recorded run through the same engine and frame loop
+  const startReplay = useCallback((replay: Replay, level?: ChallengeLevel) => {
+    soundPlayedRef.current.clear();
+    packIdRef.current = replay.packId;
+
+    const player = createReplayPlayer(replay, level);
+    engineRef.current = player.engine;
+    replayPlayerRef.current = player;
+    setIsReplaying(true);
+    setDebris([]);
+    clearGhost();
+
+    setVersusMatch(undefined);
+    setRaceMatch(undefined);
+    setGameState(prev => ({
+      ...prev,
+      rewardsGranted: false,
+    }));
+    syncEngineState(player.engine);
+  }, [syncEngineState, setVersusMatch, setRaceMatch, clearGhost]);
+
+  // Snapshot of the live run's inputs, saved alongside its score record
+  const getReplay = useCallback((replayId: string): Replay | null => {
+    const engine = engineRef.current;
+    if (!engine || replayPlayerRef.current) return null;
+    return createReplay(engine, replayId, packIdRef.current);
+  }, []);
+
+  // Statistics of the run that just ended, for scores, stars and rewards
+  const getRunStats = useCallback((): RunStats | null => {
+    const engine = engineRef.current;
+    if (!engine || replayPlayerRef.current) return null;
+    return engine.getStats();
+  }, []);
 
   const resetGame = useCallback(() => {
     soundPlayedRef.current.clear();
+    engineRef.current = null;
+    lastSyncedRef.current = null;
+    replayPlayerRef.current = null;
+    setVersusMatch(undefined);
+    setRaceMatch(undefined);
+    setIsReplaying(false);
+    setDebris([]);
+    clearGhost();
     const currentDifficulty = currentDifficultyRef.current;
 
     setGameState(prev => ({
@@ -269,43 +511,14 @@ export const useGameState = () => {
       tower_height: 1,
       currentBlock: null,
       timeRemaining: undefined,
+      activePowerUps: undefined,
+      continuesUsed: 0,
+      canContinue: false,
       level: 1,
       rewardsGranted: false,
       selectedDifficulty: currentDifficulty,
     }));
-
-    runOnJS(() => {
-      saveGameData({
-        gameStarted: false,
-        gameOver: false,
-        score: 0,
-        selectedDifficulty: currentDifficulty,
-      });
-    })();
-  }, []);
-
-  const updateCurrentBlockPosition = useCallback((newX: number, newDirection?: 'left' | 'right') => {
-    setGameState(prev => {
-      if (!prev.currentBlock) return prev;
-
-      const currentDifficulty = currentDifficultyRef.current;
-      const positionThreshold = currentDifficulty === 'easy' ? 0.8 : currentDifficulty === 'hard' ? 0.3 : 0.5;
-      const positionChanged = Math.abs(prev.currentBlock.x - newX) > positionThreshold;
-      const directionChanged = newDirection && prev.currentBlock.direction !== newDirection;
-
-      if (!positionChanged && !directionChanged) return prev;
-
-      return {
-        ...prev,
-        currentBlock: {
-          ...prev.currentBlock,
-          x: newX,
-          ...(newDirection && { direction: newDirection }),
-        },
-        selectedDifficulty: currentDifficulty
-      };
-    });
-  }, []);
+  }, [setVersusMatch, setRaceMatch, clearGhost]);
 
   const addCoins = useCallback((amount: number) => {
     setGameState(prev => {
@@ -357,6 +570,11 @@ export const useGameState = () => {
 
   const completeDailyChallenge = useCallback(() => {
     const today = new Date().toDateString();
+    updateProgression(progression => ({
+      ...progression,
+      dailyChallengeCompleted: true,
+      lastDailyChallengeDate: today,
+    }));
     setGameState(prev => ({
       ...prev,
       dailyChallengeCompleted: true,
@@ -368,20 +586,21 @@ export const useGameState = () => {
     challengeLevel: ChallengeLevel,
     gameState: GameState
   ) => {
-    if (!gameState.gameOver || gameState.tower_height < challengeLevel.targetBlocks) {
+    if (!gameState.gameOver || !areObjectivesMet(gameState.objectives)) {
       return { completed: false, stars: 0 };
     }
 
     const currentDifficulty = currentDifficultyRef.current;
-    const averageSpeed = gameState.currentBlock?.speed || 0;
+    const stats = engineRef.current?.getStats();
     const stars = calculateChallengeStars(
       challengeLevel,
       gameState.score,
-      gameState.tower_height,
-      gameState.perfectBlocks,
+      gameState.tower_height - 1,
+      stats ? stats.perfectBlocks : gameState.perfectBlocks,
       true,
-      averageSpeed,
-      currentDifficulty
+      stats?.averageSpeed,
+      currentDifficulty,
+      gameState.timeRemaining
     );
 
     return { completed: true, stars };
@@ -390,17 +609,9 @@ export const useGameState = () => {
   const updateHighScore = useCallback((newScore: number, mode: GameMode) => {
     setGameState(prev => {
       const currentDifficulty = currentDifficultyRef.current;
-      const highScoreKey = `${mode}_${currentDifficulty}`;
       const currentHighScore = prev.highScore || 0;
       
       if (newScore > currentHighScore) {
-        runOnJS(() => {
-          saveGameData({
-            [`highScore_${highScoreKey}`]: newScore,
-            selectedDifficulty: currentDifficulty,
-          });
-        })();
-
         return {
           ...prev,
           highScore: newScore,
@@ -417,34 +628,27 @@ export const useGameState = () => {
 
   // ✅ NEW: Function to handle mid-game difficulty changes
   const applyDifficultyChange = useCallback(() => {
-    setGameState(prev => {
-      const currentDifficulty = currentDifficultyRef.current;
-      
-      if (!prev.gameStarted || !prev.currentBlock) {
-        return {
-          ...prev,
-          selectedDifficulty: currentDifficulty
-        };
-      }
-
-      // If game is in progress, update the current moving block with new difficulty
-      const topBlock = prev.blocks[prev.blocks.length - 1];
-      const updatedCurrentBlock = createNewBlock(
-        topBlock,
-        prev.tower_height,
-        prev.mode,
-        prev.level ? CHALLENGE_LEVELS.find(l => l.id === prev.level) : undefined,
-        currentDifficulty,
-        prev.combo
-      );
+    const currentDifficulty = currentDifficultyRef.current;
+    const engine = engineRef.current;
 
-      return {
+    // Replays keep the difficulty they were recorded with
+    if (!engine || replayPlayerRef.current) {
+      setGameState(prev => ({
         ...prev,
-        currentBlock: updatedCurrentBlock,
         selectedDifficulty: currentDifficulty
-      };
-    });
-  }, []);
+      }));
+      return;
+    }
+
+    // If game is in progress, the engine respawns the moving block with the new difficulty
+    const engines = versusEnginesRef.current.length > 0
+      ? versusEnginesRef.current
+      : raceEnginesRef.current.length > 0
+      ? raceEnginesRef.current
+      : [engine];
+    engines.forEach(e => e.setDifficulty(currentDifficulty));
+    syncEngineState(engine);
+  }, [syncEngineState]);
 
   // ✅ Apply difficulty changes immediately when theme context changes
   useEffect(() => {
@@ -454,10 +658,22 @@ export const useGameState = () => {
   return {
     gameState,
     startGame,
+    startVersus,
+    startRace,
     dropBlock,
+    dropRaceBlock,
     resetGame,
-    updateCurrentBlockPosition,
-    updateTimer,
+    tick,
+    activatePowerUp,
+    continueRun,
+    finishRun,
+    startReplay,
+    getReplay,
+    getRunStats,
+    isReplaying,
+    debris,
+    removeDebris,
+    ghost,
     addCoins,
     spendCoins,
     unlockTheme,
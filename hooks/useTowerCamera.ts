@@ -0,0 +1,93 @@
+import { useCallback, useEffect } from 'react';
+import {
+  useAnimatedStyle,
+  withTiming,
+  useSharedValue,
+  cancelAnimation,
+  withRepeat,
+  withSequence,
+  Easing
+} from 'react-native-reanimated';
+import { GAME_CONFIG, STABILITY_CONFIG } from '../constants/game';
+
+// Follows one tower as it grows and sways it when its balance gets low.
+// Every tower on screen gets its own camera, so races can frame each lane separately.
+export const useTowerCamera = (towerHeight: number, stability: number | undefined, active: boolean) => {
+  const cameraY = useSharedValue(0);
+  const cameraScale = useSharedValue(1);
+  const towerWobble = useSharedValue(0);
+
+  // Optimized camera animation with faster response for high-speed gameplay
+  useEffect(() => {
+    const blockHeight = 100;
+    const screenHeight = GAME_CONFIG.SCREEN_HEIGHT || 800;
+    const halfScreenHeight = screenHeight / 2;
+    const currentTowerHeightPixels = towerHeight * blockHeight;
+
+    let targetY = 0;
+    let targetScale = 1;
+
+    if (currentTowerHeightPixels > halfScreenHeight) {
+      const excessHeight = currentTowerHeightPixels - halfScreenHeight;
+      // Faster camera movement for high-speed gameplay
+      const fastMovementFactor = 0.7; // Increased from 0.5
+      targetY = excessHeight * fastMovementFactor;
+      targetScale = Math.max(0.85, 1 - (excessHeight / screenHeight) * 0.15); // More zoom for better visibility
+    }
+
+    // Faster camera transitions for responsive feel
+    cameraY.value = withTiming(targetY, {
+      duration: 400, // Reduced from 600ms
+      easing: Easing.out(Easing.cubic) // Smoother easing
+    });
+    cameraScale.value = withTiming(targetScale, {
+      duration: 400, // Reduced from 600ms
+      easing: Easing.out(Easing.cubic)
+    });
+  }, [towerHeight]);
+
+  // Sway the tower when its balance gets low; the sway grows as it nears toppling
+  useEffect(() => {
+    const balance = stability ?? 1;
+    cancelAnimation(towerWobble);
+
+    if (!active || balance >= STABILITY_CONFIG.WOBBLE_THRESHOLD) {
+      towerWobble.value = withTiming(0, { duration: 200 });
+      return;
+    }
+
+    const severity = 1 - balance / STABILITY_CONFIG.WOBBLE_THRESHOLD;
+    const amplitude = STABILITY_CONFIG.MAX_WOBBLE_DEGREES * severity;
+    const swingDuration = 500 - severity * 250;
+
+    towerWobble.value = withRepeat(
+      withSequence(
+        withTiming(amplitude, { duration: swingDuration, easing: Easing.inOut(Easing.sin) }),
+        withTiming(-amplitude, { duration: swingDuration, easing: Easing.inOut(Easing.sin) })
+      ),
+      -1,
+      true
+    );
+  }, [stability, active]);
+
+  // Snap back to the ground before a new run starts
+  const resetCamera = useCallback(() => {
+    cancelAnimation(cameraY);
+    cancelAnimation(cameraScale);
+    cameraY.value = withTiming(0, { duration: 300 });
+    cameraScale.value = withTiming(1, { duration: 300 });
+  }, []);
+
+  // Memoized camera style to prevent unnecessary recalculations
+  const cameraStyle = useAnimatedStyle(() => {
+    return {
+      transform: [
+        { translateY: cameraY.value },
+        { scale: cameraScale.value },
+        { rotate: `${towerWobble.value}deg` },
+      ],
+    };
+  }, []);
+
+  return { cameraStyle, resetCamera };
+};
@@ -1,4 +1,4 @@
-type DifficultyLevel = 'easy' | 'medium' | 'hard';
+export type DifficultyLevel = 'easy' | 'medium' | 'hard';
 
 export interface Block {
   id: string;
@@ -13,6 +13,47 @@ export interface Block {
   type?: 'normal' | 'slippery' | 'heavy' | 'irregular';
   friction?: number;
   weight?: number;
+  // Irregular blocks only touch down between these bottom insets
+  footprint?: { left: number; right: number };
+  // Where a slippery block touched down before sliding to x
+  slideFromX?: number;
+  // Width before a perfect-streak regrowth, so the expansion can be animated
+  grownFromWidth?: number;
+}
+
+export type PowerUpType = 'slowMotion' | 'autoPerfect' | 'widenBlock' | 'extraLife';
+
+export interface PowerUp {
+  id: PowerUpType;
+  name: string;
+  description: string;
+  cost: number;
+  icon: string;
+}
+
+export type PowerUpInventory = Record<PowerUpType, number>;
+
+// Power-up effects currently armed in a run
+export interface ActivePowerUps {
+  slowMotionBlocks: number; // Upcoming blocks that still move at reduced speed
+  autoPerfect: boolean; // Next drop snaps to a perfect landing
+  extraLives: number; // Misses or topples that will be forgiven
+}
+
+export interface RegrowthRule {
+  perfectsRequired: number;
+  growth: number;
+}
+
+// Cut-off part of a block that falls away after a drop
+export interface DebrisPiece {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  colorIndex: number;
+  side: 'left' | 'right';
 }
 
 export interface GameState {
@@ -44,6 +85,52 @@ export interface GameState {
   };
   totalGamesPlayed?: number;
   selectedDifficulty: DifficultyLevel
+  stability?: number; // 1 = perfectly balanced, 0 = about to topple
+  powerUps?: PowerUpInventory;
+  activePowerUps?: ActivePowerUps;
+  continuesUsed?: number; // Continues bought in the current run
+  canContinue?: boolean; // The run ended on a failed drop that can be undone
+  versus?: VersusMatch; // Set while a pass-and-play match is in progress
+  race?: RaceMatch; // Set while a split-screen race is in progress
+  objectives?: ObjectiveProgress[]; // Live progress on the current challenge's objectives
+}
+
+// One versus player's tower, kept in the same shape as a solo run
+export type VersusTower = Pick<GameState, 'blocks' | 'score' | 'combo' | 'perfectBlocks' | 'tower_height'>;
+
+// The personal-best run replayed beside the live one, reduced to what is drawn
+export type GhostTower = Pick<GameState, 'blocks' | 'score' | 'tower_height'>;
+
+export interface VersusPlayer {
+  id: number;
+  name: string;
+  tower: VersusTower;
+}
+
+export interface VersusMatch {
+  players: VersusPlayer[];
+  currentPlayer: number;
+  loser: number | null; // First player whose drop missed or toppled their tower
+  handoff: boolean; // Waiting for the device to be passed to currentPlayer
+}
+
+// One race lane's tower; unlike versus both lanes move at once, so the moving block is kept too
+export type RaceTower = Pick<
+  GameState,
+  'blocks' | 'currentBlock' | 'score' | 'combo' | 'perfectBlocks' | 'tower_height' | 'stability'
+>;
+
+export interface RaceLane {
+  id: number;
+  name: string;
+  tower: RaceTower;
+  failed: boolean; // Missed or toppled before reaching the target
+}
+
+export interface RaceMatch {
+  lanes: RaceLane[];
+  targetBlocks: number;
+  winner: number | null; // First lane to reach the target, or the last one standing
 }
 
 export interface Position {
@@ -56,7 +143,7 @@ export interface Dimensions {
   height: number;
 }
 
-export type GameMode = 'classic' | 'timeAttack' | 'challenge';
+export type GameMode = 'classic' | 'timeAttack' | 'challenge' | 'zen' | 'versus' | 'race';
 
 export interface GameModeConfig {
   id: GameMode;
@@ -66,6 +153,39 @@ export interface GameModeConfig {
   unlocked: boolean;
 }
 
+// Goals (reachHeight, survive) finish the run once all are met; every other
+// objective is a condition that must still hold at that moment
+export type ChallengeObjective =
+  | { type: 'reachHeight'; blocks: number }
+  | { type: 'survive'; seconds: number }
+  | { type: 'perfects'; count: number }
+  | { type: 'combo'; count: number }
+  | { type: 'finishUnder'; seconds: number }
+  | { type: 'minWidth'; percent: number } // Of the starting block width
+  | { type: 'noMisses'; blockType?: NonNullable<Block['type']> }; // Any block type when unset
+
+export type ObjectiveStatus = 'pending' | 'met' | 'failed';
+
+export interface ObjectiveProgress {
+  objective: ChallengeObjective;
+  current: number;
+  target: number;
+  status: ObjectiveStatus;
+}
+
+export type StarCriterion =
+  | { type: 'score'; min: number }
+  | { type: 'perfectPercent'; min: number } // 0-100 of the blocks stacked
+  | { type: 'perfectBlocks'; min: number }
+  | { type: 'timeRemaining'; min: number } // Seconds left on a timed level
+  | { type: 'averageSpeed'; min: number };
+
+// A tier is earned when every criterion of any one of its options holds
+export interface StarCriteria {
+  twoStars: StarCriterion[][];
+  threeStars: StarCriterion[][];
+}
+
 export interface ChallengeLevel {
   id: number;
   name: string;
@@ -77,9 +197,49 @@ export interface ChallengeLevel {
   completed: boolean;
   stars: number;
   perfectBlocksRequired?: number;
+  starCriteria?: StarCriteria; // Falls back to the shared perfect-rate formula when unset
+  objectives?: ChallengeObjective[]; // Derived from targetBlocks and perfectBlocksRequired when unset
   bestScore?: number;
 }
 
+// A shareable set of challenge levels; utils/levelPacks.ts reads and writes the file format
+export interface LevelPack {
+  version: number;
+  id: string;
+  name: string;
+  author?: string;
+  description?: string;
+  recommendedTheme?: string;
+  levels: ChallengeLevel[];
+}
+
+// Results on one pack level, kept apart from the built-in challengeProgress
+export interface PackLevelProgress {
+  completed: boolean;
+  stars: number;
+  bestScore: number;
+}
+
+// Pack id -> level id -> progress
+export type PackProgress = Record<string, Record<number, PackLevelProgress>>;
+
+// The progression blob kept under the game data key; utils/saveData.ts upgrades and repairs it
+export interface SaveData {
+  version: number;
+  coins: number;
+  currentTheme: string;
+  unlockedThemes: string[];
+  unlockedSkins: string[];
+  dailyChallengeCompleted: boolean;
+  lastDailyChallengeDate: string;
+  challengeProgress: Record<number, ChallengeLevel>;
+  currentUnlockedLevel: number;
+  highScores: Record<GameMode, number>;
+  totalGamesPlayed: number;
+  selectedDifficulty: DifficultyLevel;
+  powerUps: PowerUpInventory;
+}
+
 export interface DailyChallenge {
   id: string;
   date: string;
@@ -89,6 +249,7 @@ export interface DailyChallenge {
   targetBlocks: number;
   perfectBlocksRequired?: number;
   completed: boolean;
+  seed: number; // Shared run seed so everyone plays the same blocks that day
 }
 
 export interface Theme {
@@ -107,6 +268,42 @@ export interface ScoreRecord {
   score: number;
   date: string;
   level?: number;
+  packId?: string; // Set when level belongs to an imported level pack
   blocks: number;
   difficulty: DifficultyLevel;
+  replayId?: string;
+  verified?: boolean; // Its replay was re-simulated on save and reproduced the score
+  stats?: RunStats; // Missing on runs saved before stats were tracked
+}
+
+// How a single run went, beyond its score
+export interface RunStats {
+  drops: number; // Every drop, including misses
+  perfectBlocks: number;
+  maxCombo: number;
+  averageAccuracy: number; // 0-1 over placed blocks, from each collision's accuracy
+  averageSpeed: number; // Of the blocks dropped
+  durationMs: number;
+  slices: number; // Placed blocks that had part of them cut off
+  misses: number;
+}
+
+// A single recorded player action, stamped with the engine step it happened on
+export type ReplayInput =
+  | { step: number; type: 'drop'; x: number; direction: 'left' | 'right'; speed: number }
+  | { step: number; type: 'difficulty'; difficulty: DifficultyLevel }
+  | { step: number; type: 'powerUp'; powerUp: PowerUpType }
+  | { step: number; type: 'continue' }
+  | { step: number; type: 'finish' };
+
+export interface Replay {
+  id: string;
+  seed: number;
+  mode: GameMode;
+  difficulty: DifficultyLevel;
+  level?: number;
+  packId?: string;
+  inputs: ReplayInput[];
+  finalScore: number;
+  duration: number;
 }
\ No newline at end of file
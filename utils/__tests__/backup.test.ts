@@ -0,0 +1,93 @@
+import { BACKUP_CONFIG } from '../../constants/game';
+import { Replay } from '../../types/game';
+import { BackupContents, mergeBackupContents, parseBackup } from '../backup';
+import { canonicalJson, sha256 } from '../crypto';
+import { createDefaultSaveData } from '../saveData';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const replay: Replay = {
+  id: 'replay-1',
+  seed: 42,
+  mode: 'classic',
+  difficulty: 'medium',
+  inputs: [{ step: 30, type: 'drop', x: 120, direction: 'right', speed: 4 }, { step: 31, type: 'finish' }],
+  finalScore: 100,
+  duration: 520,
+};
+
+const createContents = (): BackupContents => ({
+  gameData: createDefaultSaveData(),
+  scores: [],
+  replays: { [replay.id]: replay },
+  levelPacks: {},
+  packProgress: { 'my-pack': { 1: { completed: true, stars: 2, bestScore: 900 } } },
+  soundEnabled: true,
+});
+
+// Written the way createBackup does it, so the checksum matches whatever the contents are
+const toBackupText = (contents: unknown): string => {
+  const backup = {
+    format: BACKUP_CONFIG.FORMAT,
+    version: BACKUP_CONFIG.VERSION,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    contents,
+  };
+  return JSON.stringify({ ...backup, checksum: sha256(canonicalJson(backup)) });
+};
+
+describe('parseBackup', () => {
+  it('accepts a well-formed backup', () => {
+    const result = parseBackup(toBackupText(createContents()));
+
+    expect(result.errors).toEqual([]);
+    expect(result.backup?.contents.replays[replay.id]).toEqual(replay);
+  });
+
+  it('rejects a replay whose inputs are not a list', () => {
+    const contents = createContents();
+    const broken = { ...replay, inputs: 'drop' };
+    const result = parseBackup(toBackupText({ ...contents, replays: { [replay.id]: broken } }));
+
+    expect(result.backup).toBeNull();
+    expect(result.errors).toContain('Replay "replay-1" is not a valid replay');
+  });
+
+  it('rejects a replay input without a numeric step', () => {
+    const contents = createContents();
+    const broken = { ...replay, inputs: [{ step: 'soon', type: 'finish' }] };
+    const result = parseBackup(toBackupText({ ...contents, replays: { [replay.id]: broken } }));
+
+    expect(result.backup).toBeNull();
+  });
+
+  it('rejects pack progress with a missing level record', () => {
+    const contents = createContents();
+    const result = parseBackup(toBackupText({ ...contents, packProgress: { 'my-pack': { 1: null } } }));
+
+    expect(result.backup).toBeNull();
+    expect(result.errors).toContain('Progress for level pack "my-pack" is not valid');
+  });
+});
+
+describe('mergeBackupContents', () => {
+  it('adds unlocks from the backup but keeps coins and power-ups from this device', () => {
+    const local = createContents();
+    local.gameData = { ...local.gameData, coins: 300, powerUps: { ...local.gameData.powerUps, extraLife: 1 } };
+    const incoming = createContents();
+    incoming.gameData = {
+      ...incoming.gameData,
+      coins: 999999,
+      powerUps: { ...incoming.gameData.powerUps, extraLife: 50 },
+      unlockedThemes: [...incoming.gameData.unlockedThemes, 'neon'],
+    };
+
+    const merged = mergeBackupContents(local, incoming).gameData;
+
+    expect(merged.coins).toBe(300);
+    expect(merged.powerUps.extraLife).toBe(1);
+    expect(merged.unlockedThemes).toContain('neon');
+  });
+});
@@ -0,0 +1,78 @@
+import { ChallengeLevel } from '../../types/game';
+import { createGameEngine, EngineEvent, GameEngine } from '../gameEngine';
+import { rateChallengeRun } from '../starRating';
+
+const level: ChallengeLevel = {
+  id: 900,
+  name: 'Test Tower',
+  description: '',
+  objective: 'Stack 40 blocks',
+  targetBlocks: 40,
+  completed: false,
+  stars: 0,
+};
+
+// Drop once the block has moved a share of the top block's width past its left edge
+const dropLeaning = (engine: GameEngine, share: number): EngineEvent[] => {
+  for (let i = 0; i < 5000; i++) {
+    const { blocks, currentBlock } = engine.getState();
+    const top = blocks[blocks.length - 1];
+    if (currentBlock?.direction === 'right' && currentBlock.x >= top.x + top.width * share) break;
+    engine.step();
+  }
+  return engine.drop();
+};
+
+// Nine leaning drops and then a perfect one tip the tower over
+const buildToTopple = (engine: GameEngine): EngineEvent[] => {
+  for (let i = 0; i < 9; i++) dropLeaning(engine, 0.25);
+  engine.activatePowerUp('autoPerfect');
+  return engine.drop();
+};
+
+const rateByPerfects = (perfectBlocks: number, engine: GameEngine) => {
+  const { score, tower_height } = engine.getState();
+  const rated: ChallengeLevel = {
+    ...level,
+    starCriteria: {
+      twoStars: [[{ type: 'perfectBlocks', min: perfectBlocks }]],
+      threeStars: [[{ type: 'perfectBlocks', min: perfectBlocks + 1 }]],
+    },
+  };
+  return rateChallengeRun(
+    rated,
+    { score, blocksStacked: tower_height - 1, perfectBlocks: engine.getStats().perfectBlocks },
+    'easy'
+  );
+};
+
+describe('run stats after a rewound drop', () => {
+  it('drops the perfect from a topple forgiven by an extra life', () => {
+    const engine = createGameEngine({ mode: 'challenge', challengeLevel: level, difficulty: 'easy', seed: 7 });
+    engine.activatePowerUp('extraLife');
+
+    const events = buildToTopple(engine);
+    const placed = events.find(event => event.type === 'placed');
+    expect(placed?.type === 'placed' && placed.collision.isPerfect).toBe(true);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'toppled', forgiven: true }));
+
+    const state = engine.getState();
+    const stats = engine.getStats();
+    expect(state.gameOver).toBe(false);
+    expect(stats.perfectBlocks).toBe(state.perfectBlocks);
+    expect(stats.misses).toBe(1);
+    expect(rateByPerfects(state.perfectBlocks, engine).stars).toBe(2);
+  });
+
+  it('drops the perfect from a topple undone by a continue', () => {
+    const engine = createGameEngine({ mode: 'challenge', challengeLevel: level, difficulty: 'easy', seed: 7 });
+
+    const events = buildToTopple(engine);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'toppled', forgiven: false }));
+    expect(engine.continueRun()).toBe(true);
+
+    const state = engine.getState();
+    expect(engine.getStats().perfectBlocks).toBe(state.perfectBlocks);
+    expect(rateByPerfects(state.perfectBlocks, engine).stars).toBe(2);
+  });
+});
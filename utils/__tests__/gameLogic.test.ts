@@ -0,0 +1,71 @@
+import { Block } from '../../types/game';
+import { calculateCollision } from '../gameLogic';
+import { createSliceDebris } from '../debris';
+
+const makeBlock = (x: number, width: number, overrides: Partial<Block> = {}): Block => ({
+  id: 'block-3',
+  x,
+  y: 400,
+  width,
+  height: 40,
+  color: '#fff',
+  isMoving: false,
+  direction: 'right',
+  speed: 0,
+  ...overrides,
+});
+
+describe('calculateCollision with irregular blocks', () => {
+  const staticBlock = makeBlock(100, 200);
+
+  it('keeps the whole body and its insets when it lands fully on the block below', () => {
+    const moving = makeBlock(100, 200, { type: 'irregular', footprint: { left: 20, right: 30 } });
+    const collision = calculateCollision(moving, staticBlock);
+
+    expect(collision.newX).toBe(100);
+    expect(collision.newWidth).toBe(200);
+    expect(collision.slicedWidth).toBe(0);
+    expect(collision.footprint).toEqual({ left: 20, right: 30 });
+  });
+
+  it('trims the body at the edge below and keeps only the inset still inside it', () => {
+    const moving = makeBlock(130, 200, { type: 'irregular', footprint: { left: 10, right: 10 } });
+    const collision = calculateCollision(moving, staticBlock);
+
+    expect(collision.newX).toBe(130);
+    expect(collision.newWidth).toBe(170);
+    expect(collision.slicedWidth).toBe(30);
+    expect(collision.footprint).toEqual({ left: 10, right: 0 });
+  });
+
+  it('misses when only the inset part of the body is over the block below', () => {
+    const moving = makeBlock(290, 200, { type: 'irregular', footprint: { left: 20, right: 10 } });
+    const collision = calculateCollision(moving, staticBlock);
+
+    expect(collision.newWidth).toBe(0);
+    expect(collision.footprint).toBeUndefined();
+  });
+
+  it('leaves plain blocks without a footprint', () => {
+    const collision = calculateCollision(makeBlock(150, 200), staticBlock);
+
+    expect(collision.newX).toBe(150);
+    expect(collision.newWidth).toBe(150);
+    expect(collision.footprint).toBeUndefined();
+  });
+});
+
+describe('createSliceDebris', () => {
+  it('drops a piece on each side that overhangs', () => {
+    const pieces = createSliceDebris(makeBlock(90, 220), makeBlock(100, 200));
+
+    expect(pieces.map(piece => [piece.side, piece.x, piece.width])).toEqual([
+      ['left', 90, 10],
+      ['right', 300, 10],
+    ]);
+  });
+
+  it('drops nothing when the block fits exactly', () => {
+    expect(createSliceDebris(makeBlock(100, 200), makeBlock(100, 200))).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import { createDefaultSaveData, SAVE_DATA_VERSION } from '../saveData';
+import { deriveIntegrityKey, signPayload } from '../integrity';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const GAME_DATA_KEY = '@stack_tower_game_data';
+const LEGACY_SCORES_KEY = '@stack_tower_scores';
+const DEVICE_SECRET_KEY = '@stack_tower_device_secret';
+
+// A save written before checksums, the difficulty setting or the power-up inventory existed
+const createLegacySave = (): Record<string, string> => {
+  const gameData: Record<string, unknown> = { ...createDefaultSaveData(), coins: 5000, unlockedThemes: ['default', 'neon'] };
+  delete gameData.version;
+  delete gameData.selectedDifficulty;
+  delete gameData.powerUps;
+  return {
+    [GAME_DATA_KEY]: JSON.stringify(gameData),
+    [LEGACY_SCORES_KEY]: JSON.stringify([
+      { mode: 'classic', score: 1200, date: '2025-05-01T10:00:00.000Z', blocks: 12, difficulty: 'medium' },
+      { mode: 'timeAttack', score: 800, date: '2025-05-02T10:00:00.000Z', blocks: 8, difficulty: 'easy' },
+    ]),
+  };
+};
+
+// Every launch starts with fresh modules, as the app would, on top of what was saved before
+const launch = (saved: Record<string, string>) => {
+  jest.resetModules();
+  const AsyncStorage = require('@react-native-async-storage/async-storage');
+  AsyncStorage.__INTERNAL_MOCK_STORAGE__ = { ...saved };
+  const storage: typeof import('../storage') = require('../storage');
+  return { storage, saved: () => ({ ...AsyncStorage.__INTERNAL_MOCK_STORAGE__ }) as Record<string, string> };
+};
+
+describe('save integrity on upgrade', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('adopts a save from before checksums, migrated and signed', async () => {
+    const { storage, saved } = launch(createLegacySave());
+
+    const gameData = await storage.loadGameData();
+    const history = await storage.getAllScores();
+
+    expect(gameData.coins).toBe(5000);
+    expect(gameData.unlockedThemes).toContain('neon');
+    expect(gameData.version).toBe(SAVE_DATA_VERSION);
+    expect(history.map(score => score.score).sort()).toEqual([1200, 800].sort());
+    expect(storage.getCorruptedSections()).toEqual([]);
+    expect(JSON.parse(saved()[GAME_DATA_KEY]).version).toBe(SAVE_DATA_VERSION);
+  });
+
+  it('keeps the adopted save on the next launch', async () => {
+    const first = launch(createLegacySave());
+    await first.storage.loadGameData();
+    await first.storage.getAllScores();
+    await first.storage.flushPendingWrites();
+
+    const { storage } = launch(first.saved());
+    expect((await storage.loadGameData()).coins).toBe(5000);
+    expect(storage.getCorruptedSections()).toEqual([]);
+  });
+
+  it('flags data that lost its checksum after the secret was made', async () => {
+    const first = launch(createLegacySave());
+    await first.storage.loadGameData();
+    const withoutChecksum = first.saved();
+    delete withoutChecksum[GAME_DATA_KEY + '_checksum'];
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { storage } = launch(withoutChecksum);
+    expect((await storage.loadGameData()).coins).toBe(0);
+    expect(storage.getCorruptedSections()).toEqual(['gameData']);
+  });
+
+  it('flags signed data whose secret is gone instead of signing it again', async () => {
+    const first = launch(createLegacySave());
+    await first.storage.loadGameData();
+    const edited = first.saved();
+    delete edited[DEVICE_SECRET_KEY];
+    edited[GAME_DATA_KEY] = JSON.stringify({ ...JSON.parse(edited[GAME_DATA_KEY]), coins: 999999 });
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { storage } = launch(edited);
+    expect((await storage.loadGameData()).coins).toBe(0);
+    expect(storage.getCorruptedSections()).toEqual(['gameData']);
+  });
+});
+
+describe('leaderboard', () => {
+  const SCORE_INDEX_KEY = '@stack_tower_score_index';
+  const run = (mode: 'classic' | 'timeAttack', score: number, day: number) => ({
+    mode,
+    score,
+    blocks: Math.floor(score / 100),
+    difficulty: 'medium' as const,
+    date: new Date(Date.UTC(2026, 0, day)).toISOString(),
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('serves top scores from the index without opening a history chunk', async () => {
+    const first = launch({});
+    for (const [day, score] of [300, 1500, 900, 1200, 600].entries()) {
+      await first.storage.saveScore(run(day % 2 === 0 ? 'classic' : 'timeAttack', score, day + 1));
+    }
+
+    const { storage } = launch(first.saved());
+    const AsyncStorage = require('@react-native-async-storage/async-storage');
+    const multiGet = jest.spyOn(AsyncStorage, 'multiGet');
+
+    expect((await storage.getTopScores()).map(score => score.score)).toEqual([1500, 1200, 900, 600, 300]);
+    expect((await storage.getTopScores('classic', 2)).map(score => score.score)).toEqual([900, 600]);
+    const readKeys = multiGet.mock.calls.flatMap(([keys]) => keys as string[]);
+    expect(readKeys.some(key => key.startsWith('@stack_tower_score_chunk_'))).toBe(false);
+  });
+
+  it('rebuilds an index saved before it kept top scores', async () => {
+    const first = launch({});
+    await first.storage.saveScore(run('classic', 700, 1));
+    await first.storage.saveScore(run('classic', 1100, 2));
+
+    const saved = first.saved();
+    const { topScores, ...oldIndex } = JSON.parse(saved[SCORE_INDEX_KEY]);
+    expect(topScores.classic).toHaveLength(2);
+    // Signed as an older version would have, so it passes its check and only fails to parse
+    saved[SCORE_INDEX_KEY] = JSON.stringify(oldIndex);
+    saved[SCORE_INDEX_KEY + '_checksum'] = signPayload(deriveIntegrityKey(saved[DEVICE_SECRET_KEY]), oldIndex);
+
+    const { storage } = launch(saved);
+    expect((await storage.getTopScores('classic')).map(score => score.score)).toEqual([1100, 700]);
+    expect(storage.getCorruptedSections()).toEqual([]);
+  });
+});
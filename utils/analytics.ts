@@ -0,0 +1,153 @@
+// analytics.ts - Aggregate statistics over stored runs
+//
+// Turns the saved score records into the numbers the leaderboard and the
+// stats tab show: games per mode and difficulty, score averages, and trends
+// over time. Runs saved before per-run stats were tracked still count towards
+// scores and heights, but are left out of perfect rates, combos and play time.
+
+import { DifficultyLevel, GameMode, ScoreRecord } from '../types/game';
+import { ANALYTICS_CONFIG } from '../constants/game';
+
+export interface RunSummary {
+  gamesPlayed: number;
+  averageScore: number;
+  medianScore: number;
+  bestScore: number;
+  bestHeight: number; // Most blocks stacked in a single run
+  longestCombo: number;
+  perfectRate: number; // 0-100 over every tracked drop
+  totalPlayTimeMs: number;
+  trackedGames: number; // Runs that carry per-run stats
+}
+
+export interface ScoreTrendPoint {
+  date: string;
+  score: number;
+  mode: GameMode;
+}
+
+export interface PeriodSummary {
+  start: string; // ISO date of the first day in the period
+  gamesPlayed: number;
+  averageScore: number;
+  perfectRate: number | null; // Null when none of the period's runs were tracked
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const byDate = (a: ScoreRecord, b: ScoreRecord) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+export const filterScores = (
+  scores: ScoreRecord[],
+  filter: { mode?: GameMode; difficulty?: DifficultyLevel } = {}
+): ScoreRecord[] =>
+  scores.filter(score =>
+    (!filter.mode || score.mode === filter.mode) &&
+    (!filter.difficulty || (score.difficulty || 'medium') === filter.difficulty)
+  );
+
+// Runs saved before difficulties existed were played on medium
+export const getDifficultyBreakdown = (scores: ScoreRecord[]): Record<DifficultyLevel, number> => {
+  const breakdown: Record<DifficultyLevel, number> = { easy: 0, medium: 0, hard: 0 };
+  scores.forEach(score => {
+    breakdown[score.difficulty || 'medium'] += 1;
+  });
+  return breakdown;
+};
+
+export const getModeBreakdown = (scores: ScoreRecord[]): Partial<Record<GameMode, number>> => {
+  const breakdown: Partial<Record<GameMode, number>> = {};
+  scores.forEach(score => {
+    breakdown[score.mode] = (breakdown[score.mode] || 0) + 1;
+  });
+  return breakdown;
+};
+
+const getMedian = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? Math.floor((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle];
+};
+
+const getPerfectRate = (scores: ScoreRecord[]): number | null => {
+  let drops = 0;
+  let perfects = 0;
+  scores.forEach(score => {
+    if (!score.stats) return;
+    drops += score.stats.drops;
+    perfects += score.stats.perfectBlocks;
+  });
+  return drops > 0 ? (perfects / drops) * 100 : null;
+};
+
+export const summarizeRuns = (scores: ScoreRecord[]): RunSummary => {
+  const values = scores.map(score => score.score);
+  const tracked = scores.filter(score => score.stats);
+
+  return {
+    gamesPlayed: scores.length,
+    averageScore: values.length > 0
+      ? Math.floor(values.reduce((sum, value) => sum + value, 0) / values.length)
+      : 0,
+    medianScore: getMedian(values),
+    bestScore: values.length > 0 ? Math.max(...values) : 0,
+    bestHeight: scores.length > 0 ? Math.max(...scores.map(score => score.blocks)) : 0,
+    longestCombo: tracked.length > 0 ? Math.max(...tracked.map(score => score.stats!.maxCombo)) : 0,
+    perfectRate: getPerfectRate(tracked) ?? 0,
+    totalPlayTimeMs: tracked.reduce((sum, score) => sum + score.stats!.durationMs, 0),
+    trackedGames: tracked.length,
+  };
+};
+
+// The most recent runs, oldest first so charts read left to right
+export const getScoreTrend = (
+  scores: ScoreRecord[],
+  limit: number = ANALYTICS_CONFIG.TREND_RUNS
+): ScoreTrendPoint[] =>
+  [...scores]
+    .sort(byDate)
+    .slice(-limit)
+    .map(score => ({ date: score.date, score: score.score, mode: score.mode }));
+
+// Periods are counted back from today, so the last one is always the current one
+export const getPeriodSummaries = (
+  scores: ScoreRecord[],
+  periodDays: number = ANALYTICS_CONFIG.PERIOD_DAYS,
+  periods: number = ANALYTICS_CONFIG.PERIODS,
+  now: Date = new Date()
+): PeriodSummary[] => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const firstStart = today - (periods - 1) * periodDays * DAY_MS;
+  const buckets: ScoreRecord[][] = Array.from({ length: periods }, () => []);
+
+  scores.forEach(score => {
+    const time = new Date(score.date).getTime();
+    if (isNaN(time) || time < firstStart) return;
+    const index = Math.min(periods - 1, Math.floor((time - firstStart) / (periodDays * DAY_MS)));
+    buckets[index].push(score);
+  });
+
+  return buckets.map((bucket, index) => {
+    const rate = getPerfectRate(bucket);
+    return {
+      start: new Date(firstStart + index * periodDays * DAY_MS).toISOString(),
+      gamesPlayed: bucket.length,
+      averageScore: bucket.length > 0
+        ? Math.floor(bucket.reduce((sum, score) => sum + score.score, 0) / bucket.length)
+        : 0,
+      perfectRate: rate === null ? null : Math.round(rate),
+    };
+  });
+};
+
+export const formatPlayTime = (durationMs: number): string => {
+  const totalMinutes = Math.floor(durationMs / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (totalMinutes > 0) return `${minutes}m`;
+  return `${Math.floor(durationMs / 1000)}s`;
+};
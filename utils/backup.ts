@@ -0,0 +1,312 @@
+// backup.ts - Backups of everything the game stores
+//
+// A backup is one JSON document holding the game data, score history,
+// replays, level packs and sound setting, with a checksum over its canonical
+// JSON. The checksum only catches damaged files: the format is open, so an
+// edited backup can carry a valid one. Restoring checks the checksum and every
+// section before anything is written, then either replaces local data or
+// merges the two, keeping the best of each. Since a backup can't be trusted,
+// merging never takes its coins or power-ups, which could only add to them.
+
+import {
+  DifficultyLevel,
+  GameMode,
+  LevelPack,
+  PackLevelProgress,
+  PackProgress,
+  Replay,
+  ReplayInput,
+  SaveData,
+  ScoreRecord,
+} from '../types/game';
+import { BACKUP_CONFIG } from '../constants/game';
+import { canonicalJson, sha256 } from './crypto';
+import { parseLevelPack } from './levelPacks';
+import { getProgression, loadProgression, updateProgression } from './progressionStore';
+import { parseSaveData } from './saveData';
+import { getSoundEnabled, getStoredRecords, replaceStoredRecords, saveSoundEnabled } from './storage';
+
+export interface BackupContents {
+  gameData: SaveData;
+  scores: ScoreRecord[];
+  replays: Record<string, Replay>;
+  levelPacks: Record<string, LevelPack>;
+  packProgress: PackProgress;
+  soundEnabled: boolean;
+}
+
+export interface SaveBackup {
+  format: typeof BACKUP_CONFIG.FORMAT;
+  version: number;
+  createdAt: string;
+  contents: BackupContents;
+  checksum: string;
+}
+
+export type BackupResult =
+  | { backup: SaveBackup; errors: [] }
+  | { backup: null; errors: string[] };
+
+export type RestoreMode = 'merge' | 'replace';
+
+const GAME_MODES: GameMode[] = ['classic', 'timeAttack', 'challenge', 'zen', 'versus', 'race'];
+const DIFFICULTIES: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+const INPUT_TYPES: ReplayInput['type'][] = ['drop', 'difficulty', 'powerUp', 'continue', 'finish'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checksumBackup = (backup: Omit<SaveBackup, 'checksum'>): string =>
+  sha256(canonicalJson(backup));
+
+const getLocalContents = async (): Promise<BackupContents> => {
+  const [gameData, records, soundEnabled] = await Promise.all([
+    loadProgression(),
+    getStoredRecords(),
+    getSoundEnabled(),
+  ]);
+  return { gameData, ...records, soundEnabled: soundEnabled ?? true };
+};
+
+export const createBackup = async (): Promise<SaveBackup> => {
+  const backup = {
+    format: BACKUP_CONFIG.FORMAT,
+    version: BACKUP_CONFIG.VERSION,
+    createdAt: new Date().toISOString(),
+    contents: await getLocalContents(),
+  };
+  return { ...backup, checksum: checksumBackup(backup) };
+};
+
+export const serializeBackup = (backup: SaveBackup): string => JSON.stringify(backup, null, 2);
+
+const isScoreRecord = (value: unknown): value is ScoreRecord =>
+  isRecord(value) &&
+  GAME_MODES.includes(value.mode as GameMode) &&
+  typeof value.score === 'number' &&
+  typeof value.blocks === 'number' &&
+  typeof value.date === 'string' &&
+  !isNaN(new Date(value.date).getTime());
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+// Replays saved before inputs carried a step still have their elapsed time instead
+const isReplayInput = (value: unknown): value is ReplayInput =>
+  isRecord(value) &&
+  INPUT_TYPES.includes(value.type as ReplayInput['type']) &&
+  (isFiniteNumber(value.step) || isFiniteNumber(value.t)) &&
+  (value.type !== 'drop' || isFiniteNumber(value.x));
+
+// Ghosts and playback feed these straight into the engine, so every field it reads is checked
+const isReplay = (value: unknown): value is Replay =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  isFiniteNumber(value.seed) &&
+  GAME_MODES.includes(value.mode as GameMode) &&
+  DIFFICULTIES.includes(value.difficulty as DifficultyLevel) &&
+  (value.level === undefined || isFiniteNumber(value.level)) &&
+  (value.packId === undefined || typeof value.packId === 'string') &&
+  Array.isArray(value.inputs) &&
+  value.inputs.every(isReplayInput) &&
+  isFiniteNumber(value.finalScore) &&
+  isFiniteNumber(value.duration);
+
+const isPackLevelProgress = (value: unknown): value is PackLevelProgress =>
+  isRecord(value) &&
+  typeof value.completed === 'boolean' &&
+  isFiniteNumber(value.stars) &&
+  isFiniteNumber(value.bestScore);
+
+const validateContents = (value: unknown): { contents: BackupContents | null; errors: string[] } => {
+  if (!isRecord(value)) return { contents: null, errors: ['The backup has no contents'] };
+
+  const errors: string[] = [];
+
+  const gameData = parseSaveData(value.gameData);
+  if (!gameData.data) errors.push(...gameData.errors.map(error => `Game data: ${error}`));
+
+  if (!Array.isArray(value.scores)) {
+    errors.push('Scores must be a list');
+  } else {
+    value.scores.forEach((score, index) => {
+      if (!isScoreRecord(score)) errors.push(`Score ${index + 1} is not a valid score record`);
+    });
+  }
+
+  if (!isRecord(value.replays)) {
+    errors.push('Replays must be an object');
+  } else {
+    Object.entries(value.replays).forEach(([replayId, replay]) => {
+      if (!isReplay(replay)) errors.push(`Replay "${replayId}" is not a valid replay`);
+    });
+  }
+
+  if (!isRecord(value.packProgress)) {
+    errors.push('Pack progress must be an object');
+  } else {
+    Object.entries(value.packProgress).forEach(([packId, levels]) => {
+      if (!isRecord(levels) || !Object.values(levels).every(isPackLevelProgress)) {
+        errors.push(`Progress for level pack "${packId}" is not valid`);
+      }
+    });
+  }
+  if (typeof value.soundEnabled !== 'boolean') errors.push('The sound setting must be true or false');
+
+  const levelPacks: Record<string, LevelPack> = {};
+  if (!isRecord(value.levelPacks)) {
+    errors.push('Level packs must be an object');
+  } else {
+    Object.entries(value.levelPacks).forEach(([packId, pack]) => {
+      const result = parseLevelPack(JSON.stringify(pack), { allowMyLevels: true });
+      if (result.pack) {
+        levelPacks[packId] = result.pack;
+      } else {
+        errors.push(...result.errors.map(error => `Level pack "${packId}": ${error}`));
+      }
+    });
+  }
+
+  if (errors.length > 0 || !gameData.data) return { contents: null, errors };
+
+  return {
+    contents: {
+      gameData: gameData.data,
+      // Anything in the file could have been edited, so no restored run counts as verified
+      scores: (value.scores as ScoreRecord[]).map(score => ({ ...score, verified: false })),
+      replays: value.replays as Record<string, Replay>,
+      levelPacks,
+      packProgress: value.packProgress as PackProgress,
+      soundEnabled: value.soundEnabled as boolean,
+    },
+    errors: [],
+  };
+};
+
+export const parseBackup = (text: string): BackupResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { backup: null, errors: ['This is not valid JSON'] };
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_CONFIG.FORMAT) {
+    return { backup: null, errors: ['This is not a Stack Tower backup'] };
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_CONFIG.VERSION) {
+    return { backup: null, errors: ['This backup needs a newer version of the game'] };
+  }
+  if (typeof data.checksum !== 'string' || typeof data.createdAt !== 'string') {
+    return { backup: null, errors: ['The backup is missing its checksum'] };
+  }
+
+  const { checksum, ...contentsAndHeader } = data;
+  if (checksum !== checksumBackup(contentsAndHeader as Omit<SaveBackup, 'checksum'>)) {
+    return { backup: null, errors: ['The backup is damaged, its checksum does not match'] };
+  }
+
+  const { contents, errors } = validateContents(data.contents);
+  if (!contents) return { backup: null, errors };
+
+  return {
+    backup: {
+      format: BACKUP_CONFIG.FORMAT,
+      version: data.version,
+      createdAt: data.createdAt,
+      contents,
+      checksum,
+    },
+    errors: [],
+  };
+};
+
+const mergeGameData = (local: SaveData, incoming: SaveData): SaveData => {
+  // Progress takes the larger side, so restoring the same backup twice changes nothing.
+  // Coins and power-ups stay as they are here: an edited backup could otherwise top them up
+  const challengeProgress = { ...local.challengeProgress };
+  Object.entries(incoming.challengeProgress).forEach(([levelId, level]) => {
+    const id = Number(levelId);
+    const existing = challengeProgress[id];
+    challengeProgress[id] = existing
+      ? {
+          ...existing,
+          completed: existing.completed || level.completed,
+          stars: Math.max(existing.stars, level.stars),
+          bestScore: Math.max(existing.bestScore || 0, level.bestScore || 0),
+        }
+      : level;
+  });
+
+  const highScores = { ...local.highScores };
+  GAME_MODES.forEach(mode => {
+    highScores[mode] = Math.max(local.highScores[mode], incoming.highScores[mode]);
+  });
+
+  const incomingDailyIsNewer =
+    new Date(incoming.lastDailyChallengeDate).getTime() > new Date(local.lastDailyChallengeDate).getTime() ||
+    (local.lastDailyChallengeDate === '' && incoming.lastDailyChallengeDate !== '');
+
+  return {
+    ...local,
+    unlockedThemes: Array.from(new Set([...local.unlockedThemes, ...incoming.unlockedThemes])),
+    unlockedSkins: Array.from(new Set([...local.unlockedSkins, ...incoming.unlockedSkins])),
+    dailyChallengeCompleted: incomingDailyIsNewer ? incoming.dailyChallengeCompleted : local.dailyChallengeCompleted,
+    lastDailyChallengeDate: incomingDailyIsNewer ? incoming.lastDailyChallengeDate : local.lastDailyChallengeDate,
+    challengeProgress,
+    currentUnlockedLevel: Math.max(local.currentUnlockedLevel, incoming.currentUnlockedLevel),
+    highScores,
+    totalGamesPlayed: Math.max(local.totalGamesPlayed, incoming.totalGamesPlayed),
+  };
+};
+
+const mergePackProgress = (local: PackProgress, incoming: PackProgress): PackProgress => {
+  const merged: PackProgress = { ...local };
+  Object.entries(incoming).forEach(([packId, levels]) => {
+    const packProgress = { ...merged[packId] };
+    Object.entries(levels).forEach(([levelId, result]) => {
+      const id = Number(levelId);
+      const existing = packProgress[id];
+      packProgress[id] = existing
+        ? {
+            completed: existing.completed || result.completed,
+            stars: Math.max(existing.stars, result.stars),
+            bestScore: Math.max(existing.bestScore, result.bestScore),
+          }
+        : result;
+    });
+    merged[packId] = packProgress;
+  });
+  return merged;
+};
+
+// Local settings and packs win where both sides have one; scores are combined without duplicates
+export const mergeBackupContents = (local: BackupContents, incoming: BackupContents): BackupContents => {
+  const scoreKey = (score: ScoreRecord) => `${score.date}|${score.mode}|${score.score}`;
+  const seen = new Set(local.scores.map(scoreKey));
+
+  return {
+    gameData: mergeGameData(local.gameData, incoming.gameData),
+    scores: [...local.scores, ...incoming.scores.filter(score => !seen.has(scoreKey(score)))],
+    replays: { ...incoming.replays, ...local.replays },
+    levelPacks: { ...incoming.levelPacks, ...local.levelPacks },
+    packProgress: mergePackProgress(local.packProgress, incoming.packProgress),
+    soundEnabled: local.soundEnabled,
+  };
+};
+
+// Writes the restored data and returns what is now stored, so screens can pick up settings
+export const restoreBackup = async (backup: SaveBackup, mode: RestoreMode): Promise<BackupContents> => {
+  const contents = mode === 'replace'
+    ? backup.contents
+    : mergeBackupContents(await getLocalContents(), backup.contents);
+
+  // A save that hasn't loaded yet would otherwise be replayed over the restored one
+  await loadProgression();
+
+  await replaceStoredRecords(contents);
+  await saveSoundEnabled(contents.soundEnabled);
+  updateProgression(() => contents.gameData);
+
+  return { ...contents, gameData: getProgression() };
+};
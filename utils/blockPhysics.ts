@@ -0,0 +1,91 @@
+// blockPhysics.ts - Landing behaviour for special block types
+//
+// Slippery blocks keep sliding after touching down, heavy blocks push and
+// squash the blocks beneath them, and irregular blocks only rest on part of
+// their bottom edge. All functions are pure so the engine stays deterministic.
+
+import { Block } from '../types/game';
+import { BLOCK_PHYSICS_CONFIG, GAME_CONFIG } from '../constants/game';
+import { RandomFn } from './random';
+
+// Horizontal span of the block's bottom edge that actually touches down
+export const getContactSpan = (block: Block): { x: number; width: number } => {
+  const left = block.footprint?.left || 0;
+  const right = block.footprint?.right || 0;
+  return { x: block.x + left, width: Math.max(0, block.width - left - right) };
+};
+
+export const createIrregularFootprint = (width: number, random: RandomFn): { left: number; right: number } => {
+  const { IRREGULAR_MIN_INSET, IRREGULAR_MAX_INSET } = BLOCK_PHYSICS_CONFIG;
+  const range = IRREGULAR_MAX_INSET - IRREGULAR_MIN_INSET;
+  return {
+    left: Math.round(width * (IRREGULAR_MIN_INSET + random() * range)),
+    right: Math.round(width * (IRREGULAR_MIN_INSET + random() * range)),
+  };
+};
+
+// Lower friction and higher speed carry the block further past its drop point
+export const getSlideDistance = (block: Block): number => {
+  if (block.type !== 'slippery') return 0;
+  const friction = block.friction ?? 1;
+  const distance = Math.min(
+    (1 - friction) * block.speed * BLOCK_PHYSICS_CONFIG.SLIDE_FACTOR,
+    BLOCK_PHYSICS_CONFIG.MAX_SLIDE
+  );
+  return block.direction === 'right' ? distance : -distance;
+};
+
+// Returns the block where it comes to rest after touching down
+export const applySlide = (block: Block): Block => {
+  const slide = getSlideDistance(block);
+  if (slide === 0) return block;
+  return { ...block, x: block.x + slide, slideFromX: block.x };
+};
+
+// A heavy block landing on top of `blocks` drags the blocks beneath it toward
+// its center and squashes the one it rests on. The base block never moves.
+export const applyHeavyLanding = (blocks: Block[]): Block[] => {
+  const heavy = blocks[blocks.length - 1];
+  const extraWeight = (heavy?.weight ?? 1) - 1;
+  if (heavy?.type !== 'heavy' || extraWeight <= 0 || blocks.length < 3) return blocks;
+
+  const {
+    HEAVY_SHIFT_FACTOR,
+    HEAVY_SHIFT_DAMPING,
+    HEAVY_SHIFT_DEPTH,
+    HEAVY_COMPRESSION,
+    MIN_COMPRESSED_HEIGHT_RATIO,
+  } = BLOCK_PHYSICS_CONFIG;
+
+  const result = blocks.slice();
+  const supportIndex = result.length - 2;
+  const support = result[supportIndex];
+
+  // Shift cascades down from the support block, shrinking at every level
+  const heavyCenter = heavy.x + heavy.width / 2;
+  const supportCenter = support.x + support.width / 2;
+  let shift = (heavyCenter - supportCenter) * extraWeight * HEAVY_SHIFT_FACTOR;
+
+  for (let i = supportIndex; i > 0 && supportIndex - i < HEAVY_SHIFT_DEPTH; i--) {
+    result[i] = { ...result[i], x: result[i].x + shift };
+    shift *= HEAVY_SHIFT_DAMPING;
+  }
+
+  // The heavy block rides along with its support
+  const supportShift = result[supportIndex].x - support.x;
+  const minHeight = GAME_CONFIG.BLOCK_HEIGHT * MIN_COMPRESSED_HEIGHT_RATIO;
+  const compression = Math.min(extraWeight * HEAVY_COMPRESSION, Math.max(0, support.height - minHeight));
+
+  result[supportIndex] = {
+    ...result[supportIndex],
+    y: result[supportIndex].y + compression,
+    height: result[supportIndex].height - compression,
+  };
+  result[result.length - 1] = {
+    ...heavy,
+    x: heavy.x + supportShift,
+    y: heavy.y + compression,
+  };
+
+  return result;
+};
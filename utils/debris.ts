@@ -0,0 +1,49 @@
+// debris.ts - Falling fragments for sliced overhangs and missed blocks
+
+import { Block, DebrisPiece } from '../types/game';
+import { DEBRIS_CONFIG } from '../constants/game';
+import { getBlockColorIndex } from './gameLogic';
+
+let debrisCounter = 0;
+
+const createPiece = (source: Block, x: number, width: number, side: DebrisPiece['side']): DebrisPiece => ({
+  id: `debris-${++debrisCounter}`,
+  x,
+  y: source.y,
+  width,
+  height: source.height,
+  colorIndex: getBlockColorIndex(source.id),
+  side,
+});
+
+// The parts of the moving block that hung past the block below it, on either side
+export const createSliceDebris = (movingBlock: Block, placedBlock: Block): DebrisPiece[] => {
+  const pieces: DebrisPiece[] = [];
+  const leftWidth = placedBlock.x - movingBlock.x;
+  const placedRight = placedBlock.x + placedBlock.width;
+  const rightWidth = movingBlock.x + movingBlock.width - placedRight;
+
+  if (leftWidth >= DEBRIS_CONFIG.MIN_WIDTH) {
+    pieces.push(createPiece(movingBlock, movingBlock.x, leftWidth, 'left'));
+  }
+  if (rightWidth >= DEBRIS_CONFIG.MIN_WIDTH) {
+    pieces.push(createPiece(movingBlock, placedRight, rightWidth, 'right'));
+  }
+  return pieces;
+};
+
+// A complete miss drops the whole block, tipping away from the tower
+export const createMissDebris = (movingBlock: Block, topBlock: Block): DebrisPiece => {
+  const side = movingBlock.x + movingBlock.width / 2 < topBlock.x + topBlock.width / 2 ? 'left' : 'right';
+  return createPiece(movingBlock, movingBlock.x, movingBlock.width, side);
+};
+
+// Free fall from rest: distance = ½·g·t²
+export const getDebrisFallDuration = (distance: number): number => {
+  return Math.sqrt((2 * distance) / DEBRIS_CONFIG.GRAVITY);
+};
+
+export const addDebris = (pieces: DebrisPiece[], newPieces: DebrisPiece[]): DebrisPiece[] => {
+  if (newPieces.length === 0) return pieces;
+  return [...pieces, ...newPieces].slice(-DEBRIS_CONFIG.MAX_PIECES);
+};
@@ -0,0 +1,573 @@
+// gameEngine.ts - Headless, deterministic game simulation
+//
+// Owns every gameplay rule (block movement, drops, scoring, timers and
+// challenge objectives) without touching React. The UI hook drives it with tick()/drop()
+// and renders getState(); tests, bots and replays can drive it directly.
+
+import {
+  Block,
+  ChallengeLevel,
+  ChallengeObjective,
+  DifficultyLevel,
+  GameMode,
+  GameState,
+  ObjectiveProgress,
+  PowerUpType,
+  RegrowthRule,
+  ReplayInput,
+  RunStats,
+} from '../types/game';
+import { CONTINUE_CONFIG, GAME_CONFIG, POWER_UP_CONFIG, REGROWTH_CONFIG, ZEN_CONFIG } from '../constants/game';
+import { createInitialBlock, createNewBlock, calculateCollision, calculateScore } from './gameLogic';
+import { createSeededRandom, generateSeed } from './random';
+import { applyHeavyLanding, applySlide } from './blockPhysics';
+import { calculateStability } from './stability';
+import { NO_ACTIVE_POWER_UPS, applySlowMotion, snapToPerfect, widenBlock } from './powerUps';
+import {
+  areGoalsMet,
+  areObjectivesMet,
+  evaluateObjectives,
+  getFailedObjective,
+  getLevelObjectives,
+  hasTimedObjectives,
+} from './objectives';
+import {
+  createRunStatsCollector,
+  recordMiss,
+  recordPlacement,
+  recordTopple,
+  summarizeRunStats,
+} from './runStats';
+
+// Fixed simulation step - matches the 60fps baseline the speeds are tuned for
+export const ENGINE_STEP_MS = 1000 / 60;
+const STEPS_PER_SECOND = Math.round(1000 / ENGINE_STEP_MS);
+const MAX_TICK_MS = ENGINE_STEP_MS * 2; // Prevent large jumps after stalls
+const SPEED_BASELINE_MS = 16.67;
+
+export type EngineState = Pick<
+  GameState,
+  | 'blocks'
+  | 'currentBlock'
+  | 'score'
+  | 'combo'
+  | 'perfectBlocks'
+  | 'tower_height'
+  | 'gameOver'
+  | 'gameStarted'
+  | 'mode'
+  | 'level'
+  | 'timeRemaining'
+  | 'selectedDifficulty'
+> & {
+  activePowerUps: NonNullable<GameState['activePowerUps']>;
+  continuesUsed: number;
+  canContinue: boolean;
+  stability: number;
+  objectives: ObjectiveProgress[];
+  elapsedMs: number;
+  steps: number; // Fixed steps simulated so far; replay inputs are stamped with it
+  seed: number;
+};
+
+export type EngineEvent =
+  | {
+      type: 'placed';
+      block: Block;
+      movingBlock: Block;
+      collision: ReturnType<typeof calculateCollision>;
+      scoreIncrease: number;
+      speed: number;
+    }
+  | { type: 'missed'; block: Block; topBlock: Block; forgiven: boolean }
+  | { type: 'regrown'; growth: number }
+  | { type: 'toppled'; criticalIndex: number; forgiven: boolean }
+  | { type: 'completed' }
+  | { type: 'objectiveFailed'; objective: ChallengeObjective }
+  | { type: 'objectivesUpdated' }
+  | { type: 'timerTick'; timeRemaining: number }
+  | { type: 'timeUp' };
+
+export interface GameEngineOptions {
+  mode?: GameMode;
+  challengeLevel?: ChallengeLevel;
+  difficulty?: DifficultyLevel;
+  seed?: number; // Same seed + same inputs = same run
+  targetBlocks?: number; // Ends the run once reached, for modes without a challenge level
+  regrowth?: RegrowthRule | null; // null disables regrowth
+}
+
+export interface GameEngine {
+  readonly mode: GameMode;
+  readonly challengeLevel?: ChallengeLevel;
+  readonly startDifficulty: DifficultyLevel;
+  getState: () => EngineState;
+  getInputs: () => ReplayInput[];
+  getStats: () => RunStats;
+  tick: (dtMs: number) => EngineEvent[];
+  step: () => EngineEvent[];
+  drop: () => EngineEvent[];
+  setDifficulty: (difficulty: DifficultyLevel) => void;
+  activatePowerUp: (powerUp: PowerUpType) => boolean;
+  continueRun: () => boolean;
+  finish: () => void;
+}
+
+const DEFAULT_REGROWTH: RegrowthRule = {
+  perfectsRequired: REGROWTH_CONFIG.PERFECTS_REQUIRED,
+  growth: REGROWTH_CONFIG.GROWTH_AMOUNT,
+};
+
+// Widen a block around its center, never past the starting width or off-screen
+export const regrowBlock = (block: Block, growth: number): Block => {
+  const width = Math.min(block.width + growth, GAME_CONFIG.INITIAL_BLOCK_WIDTH);
+  if (width <= block.width) return block;
+
+  const centeredX = block.x - (width - block.width) / 2;
+  const x = Math.max(0, Math.min(centeredX, GAME_CONFIG.SCREEN_WIDTH - width));
+  return { ...block, x, width, grownFromWidth: block.width };
+};
+
+const hasTimer = (mode: GameMode, challengeLevel?: ChallengeLevel) =>
+  mode === 'timeAttack' || (mode === 'challenge' && challengeLevel?.timeLimit !== undefined);
+
+// Advance a moving block by one fixed step, bouncing off the screen edges
+export const stepBlock = (block: Block, stepMs: number = ENGINE_STEP_MS): Block => {
+  const moveDistance = block.speed * (stepMs / SPEED_BASELINE_MS);
+  let x = block.x;
+  let direction = block.direction;
+
+  if (direction === 'right') {
+    x += moveDistance;
+    if (x + block.width >= GAME_CONFIG.SCREEN_WIDTH) {
+      direction = 'left';
+      x = GAME_CONFIG.SCREEN_WIDTH - block.width;
+    }
+  } else {
+    x -= moveDistance;
+    if (x <= 0) {
+      direction = 'right';
+      x = 0;
+    }
+  }
+
+  return { ...block, x, direction };
+};
+
+export const createGameEngine = ({
+  mode = 'classic',
+  challengeLevel,
+  difficulty = 'medium',
+  seed = generateSeed(),
+  targetBlocks,
+  regrowth = DEFAULT_REGROWTH,
+}: GameEngineOptions = {}): GameEngine => {
+  const random = createSeededRandom(seed);
+  const initialBlock = createInitialBlock();
+
+  // Challenge levels and races have objectives; other modes are endless
+  const objectives: ChallengeObjective[] =
+    mode === 'challenge' && challengeLevel
+      ? getLevelObjectives(challengeLevel)
+      : targetBlocks !== undefined
+      ? [{ type: 'reachHeight', blocks: targetBlocks }]
+      : [];
+  const timedObjectives = hasTimedObjectives(objectives);
+  // Survives rewinds, so it sees every drop; only placements that stayed count as placed.
+  // Objectives read max combo and misses from it
+  let runStats = createRunStatsCollector();
+
+  let state: EngineState = {
+    blocks: [initialBlock],
+    currentBlock: createNewBlock(initialBlock, 1, mode, challengeLevel, difficulty, 0, random),
+    activePowerUps: NO_ACTIVE_POWER_UPS,
+    continuesUsed: 0,
+    canContinue: false,
+    score: 0,
+    combo: 0,
+    perfectBlocks: 0,
+    tower_height: 1,
+    gameOver: false,
+    gameStarted: true,
+    mode,
+    level: challengeLevel?.id,
+    timeRemaining: mode === 'timeAttack' ? GAME_CONFIG.TIME_ATTACK_DURATION : challengeLevel?.timeLimit,
+    selectedDifficulty: difficulty,
+    stability: 1,
+    objectives: [],
+    elapsedMs: 0,
+    steps: 0,
+    seed,
+  };
+
+  // Frame time not yet spent on a whole step
+  let tickAccumulator = 0;
+  const inputs: ReplayInput[] = [];
+  // Tower as it stood before the drop that ended the run, for continues
+  let continuePoint: EngineState | null = null;
+
+  const isRunning = () => state.gameStarted && !state.gameOver;
+
+  const evaluateRun = (): ObjectiveProgress[] => {
+    const topBlock = state.blocks[state.blocks.length - 1];
+    return evaluateObjectives(objectives, {
+      blocksStacked: state.tower_height - 1,
+      perfectBlocks: state.perfectBlocks,
+      combo: state.combo,
+      maxCombo: runStats.maxCombo,
+      elapsedMs: state.elapsedMs,
+      topWidth: topBlock.width,
+      misses: runStats.missesByType,
+    });
+  };
+
+  state = { ...state, objectives: evaluateRun() };
+
+  const endGame = (patch: Partial<EngineState> = {}) => {
+    state = { ...state, ...patch, currentBlock: null, gameOver: true, gameStarted: false };
+  };
+
+  // A failed drop ends the run but can be undone by a continue, unless it also broke an objective
+  const failRun = (stateBeforeDrop: EngineState) => {
+    continuePoint = stateBeforeDrop;
+    const progress = evaluateRun();
+    endGame({
+      objectives: progress,
+      canContinue: state.continuesUsed < CONTINUE_CONFIG.MAX_CONTINUES && !getFailedObjective(progress),
+    });
+  };
+
+  // Settle the run against its objectives after a drop or a timer second
+  const checkObjectives = (events: EngineEvent[]) => {
+    if (objectives.length === 0) return;
+
+    const progress = evaluateRun();
+    state = { ...state, objectives: progress };
+
+    const failed = getFailedObjective(progress);
+    if (failed) {
+      endGame();
+      events.push({ type: 'objectiveFailed', objective: failed.objective });
+      return;
+    }
+
+    if (!areGoalsMet(progress)) return;
+
+    if (areObjectivesMet(progress)) {
+      endGame();
+      events.push({ type: 'completed' });
+      return;
+    }
+
+    // Goals reached with a condition still unmet, so the run ends without completing
+    const unmet = progress.find(entry => entry.status !== 'met');
+    endGame();
+    if (unmet) events.push({ type: 'objectiveFailed', objective: unmet.objective });
+  };
+
+  // Put the tower back as it was before a failed drop and hand out a fresh block
+  const rewindDrop = (stateBeforeDrop: EngineState, patch: Partial<EngineState>) => {
+    const topBlock = stateBeforeDrop.blocks[stateBeforeDrop.blocks.length - 1];
+
+    state = {
+      ...stateBeforeDrop,
+      elapsedMs: state.elapsedMs,
+      steps: state.steps,
+      timeRemaining: state.timeRemaining,
+      activePowerUps: state.activePowerUps,
+      ...patch,
+    };
+    state = { ...state, currentBlock: spawnBlock(topBlock, state.tower_height, state.combo) };
+  };
+
+  // Every new moving block goes through here so active effects apply to it
+  const spawnBlock = (previousBlock: Block, level: number, combo: number): Block => {
+    const block = createNewBlock(
+      previousBlock,
+      level,
+      mode,
+      challengeLevel,
+      state.selectedDifficulty,
+      combo,
+      random
+    );
+    return state.activePowerUps.slowMotionBlocks > 0 ? applySlowMotion(block) : block;
+  };
+
+  // One fixed step of simulated time; movement, timers and timed objectives only advance here
+  const step = (): EngineEvent[] => {
+    if (!isRunning()) return [];
+
+    const events: EngineEvent[] = [];
+    const steps = state.steps + 1;
+    state = { ...state, steps, elapsedMs: steps * ENGINE_STEP_MS };
+
+    if (state.currentBlock?.isMoving) {
+      state = { ...state, currentBlock: stepBlock(state.currentBlock) };
+    }
+
+    const secondElapsed = steps % STEPS_PER_SECOND === 0;
+    if (secondElapsed && hasTimer(mode, challengeLevel)) {
+      const timeRemaining = Math.max(0, (state.timeRemaining || 0) - 1);
+
+      if (timeRemaining <= 0) {
+        endGame({ timeRemaining: 0 });
+        events.push({ type: 'timeUp' });
+      } else {
+        state = { ...state, timeRemaining };
+        events.push({ type: 'timerTick', timeRemaining });
+      }
+    }
+
+    // Timed objectives only change once per second, so only re-check when the second rolls over
+    if (timedObjectives && secondElapsed && isRunning()) {
+      const before = events.length;
+      checkObjectives(events);
+      if (events.length === before) events.push({ type: 'objectivesUpdated' });
+    }
+
+    return events;
+  };
+
+  // Frame time is spent in whole steps, so how it's sliced into frames never changes the run
+  const tick = (dtMs: number): EngineEvent[] => {
+    if (!isRunning() || dtMs <= 0) return [];
+
+    const events: EngineEvent[] = [];
+    tickAccumulator += Math.min(dtMs, MAX_TICK_MS);
+    while (tickAccumulator >= ENGINE_STEP_MS && isRunning()) {
+      tickAccumulator -= ENGINE_STEP_MS;
+      events.push(...step());
+    }
+
+    return events;
+  };
+
+  const drop = (): EngineEvent[] => {
+    const movingBlock = state.currentBlock;
+    if (!movingBlock || !isRunning()) return [];
+
+    inputs.push({
+      step: state.steps,
+      type: 'drop',
+      x: movingBlock.x,
+      direction: movingBlock.direction,
+      speed: movingBlock.speed,
+    });
+
+    const stateBeforeDrop = state;
+    const statsBeforeDrop = runStats;
+    const topBlock = state.blocks[state.blocks.length - 1];
+    const { autoPerfect } = state.activePowerUps;
+
+    // Slippery blocks keep going after touching down; the overlap is measured where they stop
+    const landedBlock = autoPerfect ? snapToPerfect(movingBlock, topBlock) : applySlide(movingBlock);
+    const collision = calculateCollision(landedBlock, topBlock, state.selectedDifficulty);
+
+    // Slow motion counts down per dropped block; auto perfect is spent on this drop
+    state = {
+      ...state,
+      activePowerUps: {
+        ...state.activePowerUps,
+        autoPerfect: false,
+        slowMotionBlocks: Math.max(0, state.activePowerUps.slowMotionBlocks - 1),
+      },
+    };
+
+    if (collision.newWidth <= 0) {
+      runStats = recordMiss(runStats, landedBlock);
+      if (forgiveFailure(stateBeforeDrop)) {
+        const events: EngineEvent[] = [{ type: 'missed', block: landedBlock, topBlock, forgiven: true }];
+        checkObjectives(events);
+        return events;
+      }
+      failRun(stateBeforeDrop);
+      return [{ type: 'missed', block: landedBlock, topBlock, forgiven: false }];
+    }
+
+    // Only the part above the block below survives, keeping whatever inset is left in it
+    const newBlock: Block = {
+      ...landedBlock,
+      x: collision.newX,
+      width: collision.newWidth,
+      isMoving: false,
+      footprint: collision.footprint,
+    };
+
+    const combo = collision.isPerfect ? state.combo + 1 : 0;
+    const scoreIncrease = calculateScore(
+      state.tower_height,
+      combo,
+      collision.isPerfect,
+      mode,
+      movingBlock.speed,
+      state.selectedDifficulty
+    );
+
+    const events: EngineEvent[] = [
+      {
+        type: 'placed',
+        block: newBlock,
+        movingBlock: landedBlock,
+        collision,
+        scoreIncrease,
+        speed: movingBlock.speed,
+      },
+    ];
+
+    // Every N-th consecutive perfect wins back some of the lost width
+    let restingBlock = newBlock;
+    if (regrowth && collision.isPerfect && combo % regrowth.perfectsRequired === 0) {
+      restingBlock = regrowBlock(newBlock, regrowth.growth);
+      if (restingBlock !== newBlock) {
+        events.push({ type: 'regrown', growth: restingBlock.width - newBlock.width });
+      }
+    }
+
+    // Zen towers never narrow past a comfortable minimum
+    if (mode === 'zen' && restingBlock.width < ZEN_CONFIG.MIN_BLOCK_WIDTH) {
+      restingBlock = regrowBlock(restingBlock, ZEN_CONFIG.MIN_BLOCK_WIDTH - restingBlock.width);
+    }
+
+    // Heavy blocks shove and squash the tower beneath them
+    const blocks = applyHeavyLanding([...state.blocks, restingBlock]);
+    const placedBlock = blocks[blocks.length - 1];
+    const balance = calculateStability(blocks);
+
+    state = {
+      ...state,
+      blocks,
+      score: state.score + scoreIncrease,
+      combo,
+      perfectBlocks: collision.isPerfect ? state.perfectBlocks + 1 : state.perfectBlocks,
+      tower_height: state.tower_height + 1,
+      stability: balance.stability,
+    };
+    runStats = recordPlacement(runStats, {
+      accuracy: collision.collisionAccuracy,
+      speed: movingBlock.speed,
+      isPerfect: collision.isPerfect,
+      sliced: collision.newWidth < landedBlock.width,
+      combo,
+    });
+
+    // Every overlap can be positive and the load still end up past an edge
+    if (balance.toppled) {
+      runStats = recordTopple(statsBeforeDrop, landedBlock);
+      const forgiven = forgiveFailure(stateBeforeDrop);
+      if (!forgiven) failRun(stateBeforeDrop);
+      events.push({ type: 'toppled', criticalIndex: balance.criticalIndex, forgiven });
+      if (forgiven) checkObjectives(events);
+      return events;
+    }
+
+    checkObjectives(events);
+    if (!isRunning()) return events;
+
+    state = {
+      ...state,
+      currentBlock: spawnBlock(placedBlock, state.tower_height, combo),
+    };
+
+    return events;
+  };
+
+  // An extra life rewinds the failed drop and hands out a fresh block
+  const forgiveFailure = (stateBeforeDrop: EngineState): boolean => {
+    // Zen runs can't be lost, so every failed drop is simply taken back
+    if (mode === 'zen') {
+      rewindDrop(stateBeforeDrop, { combo: 0 });
+      return true;
+    }
+
+    if (state.activePowerUps.extraLives <= 0) return false;
+
+    rewindDrop(stateBeforeDrop, {
+      combo: 0,
+      activePowerUps: { ...state.activePowerUps, extraLives: state.activePowerUps.extraLives - 1 },
+    });
+    return true;
+  };
+
+  // Undo the drop that ended the run; score and combo carry on from before it
+  const continueRun = (): boolean => {
+    if (!state.gameOver || !state.canContinue || !continuePoint) return false;
+
+    inputs.push({ step: state.steps, type: 'continue' });
+    rewindDrop(continuePoint, { continuesUsed: state.continuesUsed + 1, canContinue: false });
+    continuePoint = null;
+    return true;
+  };
+
+  // End a run on the player's request; zen runs have no other way to finish
+  const finish = () => {
+    if (!isRunning()) return;
+
+    inputs.push({ step: state.steps, type: 'finish' });
+    endGame();
+  };
+
+  const activatePowerUp = (powerUp: PowerUpType): boolean => {
+    const movingBlock = state.currentBlock;
+    if (!movingBlock || !isRunning()) return false;
+
+    const active = state.activePowerUps;
+    let nextBlock = movingBlock;
+    let nextActive = active;
+
+    switch (powerUp) {
+      case 'slowMotion':
+        // Re-activating only refreshes the duration; the block is already slowed
+        if (active.slowMotionBlocks === 0) nextBlock = applySlowMotion(movingBlock);
+        nextActive = { ...active, slowMotionBlocks: POWER_UP_CONFIG.SLOW_MOTION_BLOCKS };
+        break;
+      case 'autoPerfect':
+        if (active.autoPerfect) return false;
+        nextActive = { ...active, autoPerfect: true };
+        break;
+      case 'widenBlock':
+        nextBlock = widenBlock(movingBlock);
+        if (nextBlock === movingBlock) return false;
+        break;
+      case 'extraLife':
+        nextActive = { ...active, extraLives: active.extraLives + 1 };
+        break;
+    }
+
+    inputs.push({ step: state.steps, type: 'powerUp', powerUp });
+    state = { ...state, currentBlock: nextBlock, activePowerUps: nextActive };
+    return true;
+  };
+
+  // Mid-game difficulty changes respawn the moving block with the new tuning
+  const setDifficulty = (nextDifficulty: DifficultyLevel) => {
+    if (nextDifficulty === state.selectedDifficulty) return;
+
+    state = { ...state, selectedDifficulty: nextDifficulty };
+    if (!isRunning() || !state.currentBlock) return;
+
+    inputs.push({ step: state.steps, type: 'difficulty', difficulty: nextDifficulty });
+
+    const topBlock = state.blocks[state.blocks.length - 1];
+    state = {
+      ...state,
+      currentBlock: spawnBlock(topBlock, state.tower_height, state.combo),
+    };
+  };
+
+  return {
+    mode,
+    challengeLevel,
+    startDifficulty: difficulty,
+    getState: () => state,
+    getInputs: () => inputs.slice(),
+    getStats: () => summarizeRunStats(runStats, state.elapsedMs),
+    tick,
+    step,
+    drop,
+    setDifficulty,
+    activatePowerUp,
+    continueRun,
+    finish,
+  };
+};
@@ -1,7 +1,10 @@
 // gameLogic.ts - Ultra-optimized version with complete difficulty implementation
 
 import { Block, GameMode, ChallengeLevel } from '../types/game';
-import { GAME_CONFIG, COLORS, THEMES } from '../constants/game';
+import { GAME_CONFIG, COLORS, THEMES, CONTINUE_CONFIG, ZEN_CONFIG } from '../constants/game';
+import { RandomFn, createSeededRandom, hashSeed } from './random';
+import { createIrregularFootprint, getContactSpan } from './blockPhysics';
+import { rateChallengeRun } from './starRating';
 
 // Performance optimization: Pre-calculated constants with DIFFICULTY-BASED SPEEDS
 const SCREEN_WIDTH = GAME_CONFIG.SCREEN_WIDTH;
@@ -93,7 +96,8 @@ export const createNewBlock = (
   mode: GameMode = 'classic',
   challengeLevel?: ChallengeLevel,
   difficulty: DifficultyLevel = 'medium',
-  combo: number = 0  // Added combo parameter for speed boost
+  combo: number = 0,  // Added combo parameter for speed boost
+  random: RandomFn = Math.random // Seeded source for reproducible runs
 ): Block => {
   const block = blockPool.get();
   const colorIndex = level % COLOR_COUNT;
@@ -101,9 +105,14 @@ export const createNewBlock = (
   // Get difficulty settings
   const diffSettings = DIFFICULTY_MULTIPLIERS[difficulty];
   
-  // ENHANCED SPEED CALCULATION with difficulty-based cache key
-  const speedCacheKey = `${level}-${mode}-${challengeLevel?.id || 'none'}-${difficulty}-${Math.min(combo, 10)}`;
-  let speed = speedCache.get(speedCacheKey);
+  // ENHANCED SPEED CALCULATION with difficulty-based cache key.
+  // Level ids repeat across packs, so key on the level setting that changes speed instead
+  const levelSpeedKey = !challengeLevel ? 'none' : challengeLevel.specialBlocks ? 'special' : 'plain';
+  const speedCacheKey = `${level}-${mode}-${levelSpeedKey}-${difficulty}-${Math.min(combo, 10)}`;
+  // Zen keeps one steady pace regardless of height or combo
+  let speed = mode === 'zen'
+    ? INITIAL_SPEED * diffSettings.baseSpeed * ZEN_CONFIG.SPEED_FACTOR
+    : speedCache.get(speedCacheKey);
 
   if (speed === undefined) {
     // Base speed calculation with difficulty multiplier
@@ -160,7 +169,7 @@ export const createNewBlock = (
       adjustedProbability *= 1.3; // More special blocks on hard
     }
 
-    const rand = Math.random();
+    const rand = random();
     if (rand < adjustedProbability) {
       const specialTypes = challengeLevel.specialBlocks;
       const typeIndex = Math.floor(rand * specialTypes.length * 3.125);
@@ -196,6 +205,7 @@ export const createNewBlock = (
   block.type = blockType;
   block.friction = friction;
   block.weight = weight;
+  block.footprint = blockType === 'irregular' ? createIrregularFootprint(block.width, random) : undefined;
 
   return block;
 };
@@ -211,9 +221,12 @@ export const calculateCollision = (
   isPerfect: boolean;
   slicedWidth: number;
   collisionAccuracy: number;
+  footprint?: Block['footprint'];
 } => {
-  const movingX = movingBlock.x;
-  const movingWidth = movingBlock.width;
+  // Irregular blocks only rest on part of their bottom edge
+  const contact = getContactSpan(movingBlock);
+  const movingX = contact.x;
+  const movingWidth = contact.width;
   const staticX = staticBlock.x;
   const staticWidth = staticBlock.width;
 
@@ -247,7 +260,18 @@ export const calculateCollision = (
 
   const alignmentOffset = Math.abs(movingX - staticX);
   const isPerfect = alignmentOffset <= perfectThreshold;
-  const slicedWidth = movingWidth - overlapWidth;
+
+  // The block lands on its contact span, but keeps all of its body above the block below;
+  // whatever inset is left inside that body still doesn't touch down
+  const bodyLeft = Math.max(movingBlock.x, staticX);
+  const bodyRight = Math.min(movingBlock.x + movingBlock.width, staticX + staticWidth);
+  const newWidth = overlapWidth > 0 ? bodyRight - bodyLeft : 0;
+  const insetLeft = Math.max(0, movingX - bodyLeft);
+  const insetRight = Math.max(0, bodyRight - (movingX + movingWidth));
+  const footprint = movingBlock.footprint && newWidth > 0 && (insetLeft > 0 || insetRight > 0)
+    ? { left: insetLeft, right: insetRight }
+    : undefined;
+  const slicedWidth = movingBlock.width - newWidth;
 
   // Enhanced collision accuracy with difficulty consideration
   const maxOffset = movingWidth * 0.5;
@@ -260,11 +284,12 @@ export const calculateCollision = (
   }
 
   return {
-    newWidth: overlapWidth,
-    newX: leftEdge,
+    newWidth,
+    newX: overlapWidth > 0 ? bodyLeft : leftEdge,
     isPerfect,
     slicedWidth,
     collisionAccuracy,
+    footprint,
   };
 };
 
@@ -278,6 +303,9 @@ export const calculateScore = (
   difficulty: DifficultyLevel = 'medium'
 ): number => {
   const diffSettings = DIFFICULTY_MULTIPLIERS[difficulty];
+
+  // Zen has no points to chase; its score is simply the tower height
+  if (mode === 'zen') return 1;
   
   // Base score calculation
   let baseScore = BASE_SCORE + (level << 5) + (level << 4) + (level << 1);
@@ -325,6 +353,10 @@ export const calculateScore = (
   return Math.floor((baseScore + comboBonus) * modeMultiplier * difficultyMultiplier);
 };
 
+// Coins for the next continue; escalates with each continue already bought this run
+export const calculateContinueCost = (continuesUsed: number): number =>
+  CONTINUE_CONFIG.BASE_COST * Math.pow(CONTINUE_CONFIG.COST_MULTIPLIER, continuesUsed);
+
 // Rest of the functions remain the same but with difficulty parameter support
 export const getBackgroundColors = (themeId: string = 'default'): readonly [string, string] => {
   const cacheKey = `bg-${themeId}`;
@@ -339,6 +371,11 @@ export const getBackgroundColors = (themeId: string = 'default'): readonly [stri
   return colors;
 };
 
+// Blocks are colored by their stack position, encoded in the id (`block-<level>`)
+export const getBlockColorIndex = (blockId: string): number => {
+  return blockId === 'base' ? 0 : parseInt(blockId.split('-')[1] || '0') % 8;
+};
+
 export const getBlockColors = (colorIndex: number, themeId: string = 'default'): readonly [string, string] => {
   const cacheKey = `block-${colorIndex}-${themeId}`;
   let colors = colorCache.get(cacheKey);
@@ -356,9 +393,11 @@ export const getBlockColors = (colorIndex: number, themeId: string = 'default'):
   return colors;
 };
 
-export const generateDailyChallenge = (): import('../types/game').DailyChallenge => {
-  const today = new Date();
-  const dayOfMonth = today.getDate();
+export const generateDailyChallenge = (today: Date = new Date()): import('../types/game').DailyChallenge => {
+  const dateString = today.toDateString();
+  // Seeded by the date so every player gets the same challenge on the same day
+  const seed = hashSeed(`daily-${dateString}`);
+  const random = createSeededRandom(seed);
 
   const challenges = [
     {
@@ -391,9 +430,8 @@ export const generateDailyChallenge = (): import('../types/game').DailyChallenge
     },
   ] as const;
 
-  const challengeIndex = dayOfMonth & 3;
+  const challengeIndex = Math.floor(random() * challenges.length);
   const selectedChallenge = challenges[challengeIndex];
-  const dateString = today.toDateString();
   const perfectBlocksRequired = selectedChallenge.perfectBlocksRequired;
 
   return {
@@ -405,10 +443,11 @@ export const generateDailyChallenge = (): import('../types/game').DailyChallenge
     perfectBlocksRequired: perfectBlocksRequired || undefined,
     reward: selectedChallenge.reward,
     completed: false,
+    seed,
   };
 };
 
-// Enhanced challenge stars calculation with difficulty consideration
+// Star rating for a finished challenge run; the criteria live with the level (see starRating.ts)
 export const calculateChallengeStars = (
   level: ChallengeLevel,
   score: number,
@@ -416,56 +455,16 @@ export const calculateChallengeStars = (
   perfectBlocks: number,
   completed: boolean,
   averageSpeed?: number,
-  difficulty: DifficultyLevel = 'medium'
+  difficulty: DifficultyLevel = 'medium',
+  timeRemaining?: number
 ): number => {
   if (!completed) return 0;
 
-  let stars = 1;
-  const perfectPercentage = blocksStacked > 0 ? perfectBlocks / blocksStacked : 0;
-  const targetBlocks = level.targetBlocks;
-
-  // Difficulty-adjusted thresholds
-  let threshold2Stars = targetBlocks * 0.43;
-  let threshold3Stars = targetBlocks * 0.72;
-  let perfectPercentageThreshold2 = 0.36;
-  let perfectPercentageThreshold3 = 0.62;
-
-  if (difficulty === 'easy') {
-    // More lenient thresholds for easy mode
-    threshold2Stars *= 0.8;
-    threshold3Stars *= 0.8;
-    perfectPercentageThreshold2 *= 0.8;
-    perfectPercentageThreshold3 *= 0.8;
-  } else if (difficulty === 'hard') {
-    // Stricter thresholds for hard mode
-    threshold2Stars *= 1.2;
-    threshold3Stars *= 1.2;
-    perfectPercentageThreshold2 *= 1.2;
-    perfectPercentageThreshold3 *= 1.2;
-  }
-
-  if (perfectPercentage >= perfectPercentageThreshold2 || perfectBlocks >= threshold2Stars) {
-    stars = 2;
-  }
-
-  if (perfectPercentage >= perfectPercentageThreshold3 || perfectBlocks >= threshold3Stars) {
-    stars = 3;
-  }
-
-  // Speed-based bonus with difficulty adjustment
-  const speedThreshold = difficulty === 'easy' ? 4.5 : difficulty === 'hard' ? 7.5 : 5.8;
-  const speedPerfectThreshold = difficulty === 'easy' ? 0.35 : difficulty === 'hard' ? 0.65 : 0.48;
-  
-  if (averageSpeed && averageSpeed > speedThreshold && perfectPercentage >= speedPerfectThreshold) {
-    stars = 3;
-  }
-
-  // Special requirements override
-  if (level.perfectBlocksRequired && perfectBlocks >= level.perfectBlocksRequired) {
-    stars = 3;
-  }
-
-  return stars;
+  return rateChallengeRun(
+    level,
+    { score, blocksStacked, perfectBlocks, averageSpeed, timeRemaining },
+    difficulty
+  ).stars;
 };
 
 export const interpolateBlockPosition = (
@@ -0,0 +1,29 @@
+// ghost.ts - Racing your personal best
+//
+// The ghost is the best recorded run for the same mode, level and difficulty.
+// Its replay runs on its own engine, kept on the same engine step as the live run.
+
+import { GameMode, GhostTower } from '../types/game';
+import { ReplayPlayer } from './replay';
+
+export const GHOST_MODES: GameMode[] = ['classic', 'challenge'];
+
+export const getGhostTower = (state: GhostTower): GhostTower => ({
+  blocks: state.blocks,
+  score: state.score,
+  tower_height: state.tower_height,
+});
+
+// Blocks the live tower is ahead of the ghost; negative while behind
+export const getGhostDelta = (towerHeight: number, ghost: GhostTower): number =>
+  towerHeight - ghost.tower_height;
+
+// Play the ghost forward to the live run's step; true if its tower changed
+export const syncGhost = (player: ReplayPlayer, steps: number): boolean => {
+  const before = player.engine.getState();
+  if (player.isFinished() || steps <= before.steps) return false;
+
+  player.runTo(steps);
+  const after = player.engine.getState();
+  return after.tower_height !== before.tower_height || after.score !== before.score;
+};
@@ -0,0 +1,36 @@
+// integrity.ts - Checksums that catch edited or damaged saves
+//
+// The game data and score history are signed with an HMAC over their
+// canonical JSON. The key is derived from a random secret made on the first
+// launch, so a save edited by hand or copied over from another install no
+// longer matches. The secret is stored on the device as well, so this raises
+// the bar for tampering rather than ruling it out. Restoring a backup is the
+// exception: backups aren't trusted (see backup.ts), but whatever the player
+// restores is signed as the new save. A save from before checksums existed
+// is adopted the same way, once, when the secret is first made.
+
+import { INTEGRITY_CONFIG } from '../constants/game';
+import { canonicalJson, hmacSha256, sha256, signaturesMatch } from './crypto';
+
+const randomBytes = (count: number): Uint8Array => {
+  const bytes = new Uint8Array(count);
+  // Hermes has no Web Crypto unless a polyfill is installed
+  if (typeof globalThis.crypto?.getRandomValues === 'function') {
+    return globalThis.crypto.getRandomValues(bytes);
+  }
+  for (let i = 0; i < count; i++) {
+    bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return bytes;
+};
+
+export const createDeviceSecret = (): string =>
+  Array.from(randomBytes(INTEGRITY_CONFIG.SECRET_BYTES), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const deriveIntegrityKey = (secret: string): string =>
+  sha256(`${INTEGRITY_CONFIG.KEY_CONTEXT}:${secret}`);
+
+export const signPayload = (key: string, data: unknown): string => hmacSha256(key, canonicalJson(data));
+
+export const payloadMatches = (key: string, data: unknown, checksum: string): boolean =>
+  signaturesMatch(checksum, signPayload(key, data));
@@ -0,0 +1,97 @@
+// levelGenerator.ts - Endless challenge levels
+//
+// Levels past the hand-written CHALLENGE_LEVELS are generated from their id
+// alone, so level 57 is the same level on every device and every launch.
+
+import { Block, ChallengeLevel } from '../types/game';
+import { CHALLENGE_LEVELS, LEVEL_GENERATOR_CONFIG } from '../constants/game';
+import { createSeededRandom, hashSeed, RandomFn } from './random';
+
+const SPECIAL_BLOCK_TYPES: Block['type'][] = ['slippery', 'heavy', 'irregular'];
+
+const NAME_PREFIXES = ['Dizzy', 'Frozen', 'Stormy', 'Endless', 'Iron', 'Crystal', 'Twilight', 'Savage', 'Golden', 'Silent'];
+const NAME_SUFFIXES = ['Spire', 'Summit', 'Ascent', 'Citadel', 'Pinnacle', 'Monolith', 'Skyline', 'Zenith', 'Bastion', 'Beacon'];
+
+const pick = <T>(items: readonly T[], random: RandomFn): T => items[Math.floor(random() * items.length)];
+
+// Interpolate from a [start, cap] pair as the generated tier rises
+const ramp = ([start, cap]: readonly [number, number], tier: number): number =>
+  Math.min(cap, start + tier * LEVEL_GENERATOR_CONFIG.RAMP_PER_LEVEL);
+
+const pickSpecialBlocks = (tier: number, random: RandomFn): Block['type'][] => {
+  const count = Math.min(
+    SPECIAL_BLOCK_TYPES.length,
+    1 + Math.floor(tier / LEVEL_GENERATOR_CONFIG.LEVELS_PER_SPECIAL_BLOCK)
+  );
+  const pool = [...SPECIAL_BLOCK_TYPES];
+  const picked: Block['type'][] = [];
+  while (picked.length < count) {
+    picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+  }
+  return picked;
+};
+
+// Objective text in the same wording as the hand-written levels
+export const describeObjective = (
+  targetBlocks: number,
+  timeLimit?: number,
+  specialBlocks?: Block['type'][],
+  perfectBlocksRequired?: number
+): string => {
+  const kinds = specialBlocks?.join(', ');
+  let objective = `Stack ${targetBlocks} ${kinds ? `${kinds} ` : ''}blocks`;
+  if (timeLimit) objective += ` within ${timeLimit} seconds`;
+  if (perfectBlocksRequired) objective += ` with ${perfectBlocksRequired} perfect`;
+  return objective;
+};
+
+// Ids past the hand-written list; the difficulty curve grows with the tier
+export const generateChallengeLevel = (id: number): ChallengeLevel => {
+  const tier = Math.max(1, id - CHALLENGE_LEVELS.length);
+  const random = createSeededRandom(hashSeed(`challenge-level-${id}`));
+
+  const targetBlocks = Math.min(
+    LEVEL_GENERATOR_CONFIG.MAX_TARGET_BLOCKS,
+    Math.round(LEVEL_GENERATOR_CONFIG.BASE_TARGET_BLOCKS + tier * LEVEL_GENERATOR_CONFIG.TARGET_GROWTH) +
+      Math.floor(random() * 4)
+  );
+
+  const secondsPerBlock = Math.max(
+    LEVEL_GENERATOR_CONFIG.MIN_SECONDS_PER_BLOCK,
+    LEVEL_GENERATOR_CONFIG.START_SECONDS_PER_BLOCK - tier * LEVEL_GENERATOR_CONFIG.RAMP_PER_LEVEL
+  );
+  const timeLimit = random() < ramp(LEVEL_GENERATOR_CONFIG.TIME_LIMIT_CHANCE, tier)
+    ? Math.round(targetBlocks * secondsPerBlock)
+    : undefined;
+
+  const specialBlocks = pickSpecialBlocks(tier, random);
+
+  const perfectBlocksRequired = random() < ramp(LEVEL_GENERATOR_CONFIG.PERFECT_CHANCE, tier)
+    ? Math.max(1, Math.round(targetBlocks * ramp(LEVEL_GENERATOR_CONFIG.PERFECT_RATIO, tier)))
+    : undefined;
+
+  return {
+    id,
+    name: `${pick(NAME_PREFIXES, random)} ${pick(NAME_SUFFIXES, random)}`,
+    description: `Endless tier ${tier}`,
+    objective: describeObjective(targetBlocks, timeLimit, specialBlocks, perfectBlocksRequired),
+    targetBlocks,
+    timeLimit,
+    specialBlocks,
+    perfectBlocksRequired,
+    completed: false,
+    stars: 0,
+  };
+};
+
+// Hand-written levels first, generated ones for every id after them
+export const getChallengeLevel = (id: number): ChallengeLevel | undefined => {
+  if (!Number.isInteger(id) || id < 1) return undefined;
+  return CHALLENGE_LEVELS.find(level => level.id === id) || generateChallengeLevel(id);
+};
+
+// A page of consecutive levels starting at firstId
+export const getChallengeLevels = (firstId: number, count: number): ChallengeLevel[] =>
+  Array.from({ length: count }, (_, index) => getChallengeLevel(firstId + index)).filter(
+    (level): level is ChallengeLevel => !!level
+  );
@@ -0,0 +1,290 @@
+// levelPacks.ts - Shareable challenge level packs
+//
+// A pack is a JSON document: format version, metadata and a list of levels.
+// Everything read from outside the app goes through parseLevelPack, which
+// reports every problem it finds instead of stopping at the first one.
+
+import { Block, ChallengeLevel, ChallengeObjective, LevelPack, StarCriteria, StarCriterion } from '../types/game';
+import { describeObjective } from './levelGenerator';
+import { GOAL_OBJECTIVES } from './objectives';
+import { LEVEL_EDITOR_CONFIG } from '../constants/game';
+
+export const LEVEL_PACK_VERSION = 1;
+
+// Levels made in the editor are kept as a pack of their own, so they play like any other pack
+export const MY_LEVELS_PACK_ID = 'my-levels';
+
+export const SPECIAL_BLOCK_TYPES: NonNullable<Block['type']>[] = ['slippery', 'heavy', 'irregular'];
+const MAX_LEVELS = 200;
+const MAX_TARGET_BLOCKS = LEVEL_EDITOR_CONFIG.MAX_TARGET_BLOCKS;
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export type LevelPackResult =
+  | { pack: LevelPack; errors: [] }
+  | { pack: null; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isOptionalString = (value: unknown): boolean =>
+  value === undefined || typeof value === 'string';
+
+// The number each objective type is measured by; noMisses only takes an optional block type
+const OBJECTIVE_AMOUNTS: Record<ChallengeObjective['type'], string | null> = {
+  reachHeight: 'blocks',
+  survive: 'seconds',
+  perfects: 'count',
+  combo: 'count',
+  finishUnder: 'seconds',
+  minWidth: 'percent',
+  noMisses: null,
+};
+
+const validateObjectives = (value: unknown, label: string): string[] => {
+  if (!Array.isArray(value) || value.length === 0) return [`${label}: objectives must be a non-empty list`];
+
+  const errors: string[] = [];
+  value.forEach((objective, index) => {
+    const objectiveLabel = `${label}, objective ${index + 1}`;
+    if (!isRecord(objective) || typeof objective.type !== 'string' || !(objective.type in OBJECTIVE_AMOUNTS)) {
+      errors.push(`${objectiveLabel}: unknown objective type`);
+      return;
+    }
+
+    const amount = OBJECTIVE_AMOUNTS[objective.type as ChallengeObjective['type']];
+    if (amount && !isPositiveInteger(objective[amount])) {
+      errors.push(`${objectiveLabel}: ${amount} must be a positive whole number`);
+    }
+    if (objective.type === 'minWidth' && isPositiveInteger(objective.percent) && objective.percent > 100) {
+      errors.push(`${objectiveLabel}: percent can't be more than 100`);
+    }
+    const blockTypes: unknown[] = ['normal', ...SPECIAL_BLOCK_TYPES];
+    if (objective.type === 'noMisses' && objective.blockType !== undefined && !blockTypes.includes(objective.blockType)) {
+      errors.push(`${objectiveLabel}: unknown block type "${String(objective.blockType)}"`);
+    }
+  });
+
+  // Without a goal nothing would ever end the run as a win
+  const goalTypes: unknown[] = GOAL_OBJECTIVES;
+  if (!value.some(objective => isRecord(objective) && goalTypes.includes(objective.type))) {
+    errors.push(`${label}: objectives need a reachHeight or survive goal`);
+  }
+
+  return errors;
+};
+
+const STAR_CRITERION_TYPES: StarCriterion['type'][] = [
+  'score',
+  'perfectPercent',
+  'perfectBlocks',
+  'timeRemaining',
+  'averageSpeed',
+];
+
+// A tier is a list of options, each a list of criteria that must all hold
+const validateStarTier = (value: unknown, label: string): string[] => {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(option => Array.isArray(option) && option.length > 0)) {
+    return [`${label}: must be a list of non-empty criteria lists`];
+  }
+
+  const errors: string[] = [];
+  (value as unknown[][]).flat().forEach(criterion => {
+    if (!isRecord(criterion) || !STAR_CRITERION_TYPES.includes(criterion.type as StarCriterion['type'])) {
+      errors.push(`${label}: unknown star criterion`);
+    } else if (typeof criterion.min !== 'number' || !(criterion.min > 0)) {
+      errors.push(`${label}: ${String(criterion.type)} needs a positive min`);
+    } else if (criterion.type === 'perfectPercent' && criterion.min > 100) {
+      errors.push(`${label}: perfectPercent can't be more than 100`);
+    }
+  });
+  return errors;
+};
+
+// Every problem with one level, prefixed with label so it can be found in the file
+export const validateChallengeLevel = (value: unknown, label: string = 'Level'): string[] => {
+  if (!isRecord(value)) return [`${label} is not an object`];
+
+  const errors: string[] = [];
+  const { id, name, targetBlocks, timeLimit, specialBlocks, perfectBlocksRequired, starCriteria } = value;
+
+  if (!isPositiveInteger(id)) errors.push(`${label}: id must be a positive whole number`);
+  if (typeof name !== 'string' || name.trim() === '') errors.push(`${label}: name is required`);
+  if (!isOptionalString(value.description)) errors.push(`${label}: description must be text`);
+  if (!isOptionalString(value.objective)) errors.push(`${label}: objective must be text`);
+
+  if (!isPositiveInteger(targetBlocks) || targetBlocks > MAX_TARGET_BLOCKS) {
+    errors.push(`${label}: targetBlocks must be a whole number from 1 to ${MAX_TARGET_BLOCKS}`);
+  }
+
+  if (timeLimit !== undefined && !isPositiveInteger(timeLimit)) {
+    errors.push(`${label}: timeLimit must be a positive number of seconds`);
+  }
+
+  if (specialBlocks !== undefined) {
+    if (!Array.isArray(specialBlocks)) {
+      errors.push(`${label}: specialBlocks must be a list`);
+    } else {
+      specialBlocks
+        .filter(type => !SPECIAL_BLOCK_TYPES.includes(type))
+        .forEach(type => errors.push(`${label}: unknown special block "${String(type)}"`));
+    }
+  }
+
+  if (perfectBlocksRequired !== undefined) {
+    if (!isPositiveInteger(perfectBlocksRequired)) {
+      errors.push(`${label}: perfectBlocksRequired must be a positive whole number`);
+    } else if (isPositiveInteger(targetBlocks) && perfectBlocksRequired > targetBlocks) {
+      errors.push(`${label}: perfectBlocksRequired can't be more than targetBlocks`);
+    }
+  }
+
+  if (value.objectives !== undefined) {
+    errors.push(...validateObjectives(value.objectives, label));
+  }
+
+  if (starCriteria !== undefined) {
+    if (!isRecord(starCriteria)) {
+      errors.push(`${label}: starCriteria must be an object`);
+    } else {
+      errors.push(...validateStarTier(starCriteria.twoStars, `${label}, two stars`));
+      errors.push(...validateStarTier(starCriteria.threeStars, `${label}, three stars`));
+    }
+  }
+
+  return errors;
+};
+
+// Build a fresh level from validated input, dropping any progress fields it carried
+const toChallengeLevel = (value: Record<string, unknown>): ChallengeLevel => {
+  const targetBlocks = value.targetBlocks as number;
+  const timeLimit = value.timeLimit as number | undefined;
+  const specialBlocks = value.specialBlocks as Block['type'][] | undefined;
+  const perfectBlocksRequired = value.perfectBlocksRequired as number | undefined;
+
+  return {
+    id: value.id as number,
+    name: (value.name as string).trim(),
+    description: (value.description as string | undefined) || '',
+    objective: (value.objective as string | undefined) ||
+      describeObjective(targetBlocks, timeLimit, specialBlocks, perfectBlocksRequired),
+    targetBlocks,
+    timeLimit,
+    specialBlocks: specialBlocks && specialBlocks.length > 0 ? specialBlocks : undefined,
+    perfectBlocksRequired,
+    starCriteria: value.starCriteria as StarCriteria | undefined,
+    objectives: value.objectives as ChallengeObjective[] | undefined,
+    completed: false,
+    stars: 0,
+  };
+};
+
+// Backups carry My Levels too, so restoring one allows its reserved id
+export const parseLevelPack = (text: string, options: { allowMyLevels?: boolean } = {}): LevelPackResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { pack: null, errors: ['This is not valid JSON'] };
+  }
+
+  if (!isRecord(data)) return { pack: null, errors: ['A level pack must be a JSON object'] };
+
+  const errors: string[] = [];
+  const { version, id, name, levels } = data;
+
+  if (!isPositiveInteger(version)) {
+    errors.push('version must be a positive whole number');
+  } else if (version > LEVEL_PACK_VERSION) {
+    errors.push(`This pack needs a newer version of the game (pack format ${version})`);
+  }
+
+  if (typeof id !== 'string' || !PACK_ID_PATTERN.test(id)) {
+    errors.push('id must be letters, numbers, "-" or "_"');
+  } else if (id === MY_LEVELS_PACK_ID && !options.allowMyLevels) {
+    errors.push(`id "${MY_LEVELS_PACK_ID}" is reserved for levels made in the editor`);
+  }
+  if (typeof name !== 'string' || name.trim() === '') errors.push('name is required');
+  if (!isOptionalString(data.author)) errors.push('author must be text');
+  if (!isOptionalString(data.description)) errors.push('description must be text');
+  if (!isOptionalString(data.recommendedTheme)) errors.push('recommendedTheme must be a theme id');
+
+  if (!Array.isArray(levels) || levels.length === 0) {
+    errors.push('levels must be a non-empty list');
+  } else if (levels.length > MAX_LEVELS) {
+    errors.push(`A pack can hold at most ${MAX_LEVELS} levels`);
+  } else {
+    const seenIds = new Set<unknown>();
+    levels.forEach((level, index) => {
+      const label = `Level ${index + 1}`;
+      errors.push(...validateChallengeLevel(level, label));
+      if (isRecord(level)) {
+        if (seenIds.has(level.id)) errors.push(`${label}: id ${String(level.id)} is used twice`);
+        seenIds.add(level.id);
+      }
+    });
+  }
+
+  if (errors.length > 0) return { pack: null, errors };
+
+  return {
+    pack: {
+      version: LEVEL_PACK_VERSION,
+      id: id as string,
+      name: (name as string).trim(),
+      author: data.author as string | undefined,
+      description: data.description as string | undefined,
+      recommendedTheme: data.recommendedTheme as string | undefined,
+      levels: (levels as Record<string, unknown>[]).map(toChallengeLevel),
+    },
+    errors: [],
+  };
+};
+
+// Put a level into the My Levels pack, replacing any earlier version with the same id
+export const upsertMyLevel = (pack: LevelPack | null, level: ChallengeLevel): LevelPack => {
+  const levels = pack?.levels || [];
+  const exists = levels.some(existing => existing.id === level.id);
+
+  return {
+    version: LEVEL_PACK_VERSION,
+    id: MY_LEVELS_PACK_ID,
+    name: 'My Levels',
+    levels: exists
+      ? levels.map(existing => (existing.id === level.id ? level : existing))
+      : [...levels, level],
+  };
+};
+
+// Ids are never reused, so a new level can't inherit results left by a deleted or unsaved one
+export const getNextLevelId = (pack: LevelPack | null, progressIds: number[] = []): number =>
+  Math.max(0, ...(pack?.levels || []).map(level => level.id), ...progressIds) + 1;
+
+// The pack as a file, without any local progress on its levels
+export const serializeLevelPack = (pack: LevelPack): string =>
+  JSON.stringify(
+    {
+      version: LEVEL_PACK_VERSION,
+      id: pack.id,
+      name: pack.name,
+      author: pack.author,
+      description: pack.description,
+      recommendedTheme: pack.recommendedTheme,
+      levels: pack.levels.map(level => ({
+        id: level.id,
+        name: level.name,
+        description: level.description,
+        objective: level.objective,
+        targetBlocks: level.targetBlocks,
+        timeLimit: level.timeLimit,
+        specialBlocks: level.specialBlocks,
+        perfectBlocksRequired: level.perfectBlocksRequired,
+        starCriteria: level.starCriteria,
+        objectives: level.objectives,
+      })),
+    },
+    null,
+    2
+  );
@@ -0,0 +1,155 @@
+// objectives.ts - Challenge objectives and how a run is measured against them
+//
+// Levels list typed objectives instead of relying on their objective text.
+// The engine feeds the run's numbers through evaluateObjectives after every
+// drop and timer second; the same progress is shown live in the challenge UI.
+
+import { Block, ChallengeLevel, ChallengeObjective, ObjectiveProgress } from '../types/game';
+import { GAME_CONFIG } from '../constants/game';
+
+export interface ObjectiveStats {
+  blocksStacked: number;
+  perfectBlocks: number;
+  combo: number;
+  maxCombo: number;
+  elapsedMs: number;
+  topWidth: number;
+  misses: Partial<Record<NonNullable<Block['type']>, number>>;
+}
+
+export const GOAL_OBJECTIVES: ChallengeObjective['type'][] = ['reachHeight', 'survive'];
+
+export const isGoalObjective = (objective: ChallengeObjective): boolean =>
+  GOAL_OBJECTIVES.includes(objective.type);
+
+// Older and generated levels only carry a target and an optional perfect count
+export const getLevelObjectives = (level: ChallengeLevel): ChallengeObjective[] => {
+  if (level.objectives && level.objectives.length > 0) return level.objectives;
+
+  const objectives: ChallengeObjective[] = [{ type: 'reachHeight', blocks: level.targetBlocks }];
+  if (level.perfectBlocksRequired) {
+    objectives.push({ type: 'perfects', count: level.perfectBlocksRequired });
+  }
+  return objectives;
+};
+
+export const getObjectiveLabel = (objective: ChallengeObjective): string => {
+  switch (objective.type) {
+    case 'reachHeight':
+      return `Stack ${objective.blocks} blocks`;
+    case 'survive':
+      return `Survive ${objective.seconds}s`;
+    case 'perfects':
+      return `${objective.count} perfect drops`;
+    case 'combo':
+      return `Combo of ${objective.count}`;
+    case 'finishUnder':
+      return `Finish within ${objective.seconds}s`;
+    case 'minWidth':
+      return `Keep ${objective.percent}% of the width`;
+    case 'noMisses':
+      return objective.blockType ? `No missed ${objective.blockType} blocks` : 'No missed blocks';
+  }
+};
+
+const countMisses = (stats: ObjectiveStats, blockType?: NonNullable<Block['type']>): number =>
+  blockType
+    ? stats.misses[blockType] || 0
+    : Object.values(stats.misses).reduce((sum, count) => sum + (count || 0), 0);
+
+const evaluateObjective = (
+  objective: ChallengeObjective,
+  stats: ObjectiveStats,
+  blocksLeft: number | undefined
+): ObjectiveProgress => {
+  const seconds = Math.floor(stats.elapsedMs / 1000);
+
+  switch (objective.type) {
+    case 'reachHeight':
+      return {
+        objective,
+        current: stats.blocksStacked,
+        target: objective.blocks,
+        status: stats.blocksStacked >= objective.blocks ? 'met' : 'pending',
+      };
+    case 'survive':
+      return {
+        objective,
+        current: seconds,
+        target: objective.seconds,
+        status: seconds >= objective.seconds ? 'met' : 'pending',
+      };
+    case 'perfects': {
+      // Out of reach once the blocks left before the height goal can't make up the difference
+      const met = stats.perfectBlocks >= objective.count;
+      const failed = !met && blocksLeft !== undefined && stats.perfectBlocks + blocksLeft < objective.count;
+      return {
+        objective,
+        current: stats.perfectBlocks,
+        target: objective.count,
+        status: met ? 'met' : failed ? 'failed' : 'pending',
+      };
+    }
+    case 'combo': {
+      const met = stats.maxCombo >= objective.count;
+      const failed = !met && blocksLeft !== undefined && stats.combo + blocksLeft < objective.count;
+      return {
+        objective,
+        current: stats.maxCombo,
+        target: objective.count,
+        status: met ? 'met' : failed ? 'failed' : 'pending',
+      };
+    }
+    case 'finishUnder':
+      return {
+        objective,
+        current: seconds,
+        target: objective.seconds,
+        status: stats.elapsedMs > objective.seconds * 1000 ? 'failed' : 'met',
+      };
+    case 'minWidth': {
+      // Perfect streaks can win width back, so a narrow tower is only pending
+      const percent = Math.round((stats.topWidth / GAME_CONFIG.INITIAL_BLOCK_WIDTH) * 100);
+      return {
+        objective,
+        current: percent,
+        target: objective.percent,
+        status: percent >= objective.percent ? 'met' : 'pending',
+      };
+    }
+    case 'noMisses': {
+      const misses = countMisses(stats, objective.blockType);
+      return { objective, current: misses, target: 0, status: misses > 0 ? 'failed' : 'met' };
+    }
+  }
+};
+
+export const evaluateObjectives = (
+  objectives: ChallengeObjective[],
+  stats: ObjectiveStats
+): ObjectiveProgress[] => {
+  const heightGoal = objectives.find(
+    (objective): objective is Extract<ChallengeObjective, { type: 'reachHeight' }> =>
+      objective.type === 'reachHeight'
+  );
+  const blocksLeft = heightGoal ? Math.max(0, heightGoal.blocks - stats.blocksStacked) : undefined;
+
+  return objectives.map(objective => evaluateObjective(objective, stats, blocksLeft));
+};
+
+// A run with no objectives can't be won, so an empty list is never complete
+export const areObjectivesMet = (progress: ObjectiveProgress[] | undefined): boolean =>
+  !!progress && progress.length > 0 && progress.every(entry => entry.status === 'met');
+
+export const getFailedObjective = (progress: ObjectiveProgress[]): ObjectiveProgress | undefined =>
+  progress.find(entry => entry.status === 'failed');
+
+// Once every goal is reached the run stops; it's only won if the conditions hold too
+export const areGoalsMet = (progress: ObjectiveProgress[]): boolean => {
+  const goals = progress.filter(entry => isGoalObjective(entry.objective));
+  return goals.length > 0 && goals.every(entry => entry.status === 'met');
+};
+
+// Time-based objectives change without a drop, so the engine re-checks them every second
+export const hasTimedObjectives = (objectives: ChallengeObjective[]): boolean =>
+  objectives.some(objective => objective.type === 'survive' || objective.type === 'finishUnder');
@@ -0,0 +1,34 @@
+// powerUps.ts - In-run power-up effects
+//
+// Effects only ever adjust the blocks fed into the core rules in gameLogic
+// (speed, width, landing position), so the base tuning stays untouched.
+
+import { ActivePowerUps, Block } from '../types/game';
+import { GAME_CONFIG, POWER_UP_CONFIG } from '../constants/game';
+
+export const NO_ACTIVE_POWER_UPS: ActivePowerUps = {
+  slowMotionBlocks: 0,
+  autoPerfect: false,
+  extraLives: 0,
+};
+
+export const applySlowMotion = (block: Block): Block => ({
+  ...block,
+  speed: block.speed * POWER_UP_CONFIG.SLOW_MOTION_FACTOR,
+});
+
+// Returns the same block when it is already as wide as it can get
+export const widenBlock = (block: Block): Block => {
+  const width = Math.min(block.width + POWER_UP_CONFIG.WIDEN_AMOUNT, GAME_CONFIG.INITIAL_BLOCK_WIDTH);
+  if (width <= block.width) return block;
+
+  const x = Math.max(0, Math.min(block.x - (width - block.width) / 2, GAME_CONFIG.SCREEN_WIDTH - width));
+  return { ...block, x, width };
+};
+
+// Line the block's contact span up with the block below, so calculateCollision
+// scores the drop as a perfect landing with nothing sliced off the aligned edge
+export const snapToPerfect = (movingBlock: Block, staticBlock: Block): Block => {
+  const left = movingBlock.footprint?.left || 0;
+  return { ...movingBlock, x: staticBlock.x - left, slideFromX: undefined };
+};
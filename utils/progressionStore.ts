@@ -0,0 +1,105 @@
+// progressionStore.ts - The single owner of persisted progression
+//
+// Coins, themes, challenge progress, high scores and the rest of the saved
+// game data live here and nowhere else. Contexts and screens subscribe for
+// changes and go through updateProgression, which always writes the complete
+// save, so no caller can reset fields it doesn't know about.
+
+import { GameMode, SaveData } from '../types/game';
+import { createDefaultSaveData } from './saveData';
+import {
+  clearAllData,
+  flushPendingWrites,
+  getLegacyHighScores,
+  loadGameData,
+  removeLegacyHighScores,
+  saveGameData,
+} from './storage';
+
+type ProgressionListener = (progression: SaveData) => void;
+export type ProgressionUpdate = (progression: SaveData) => SaveData;
+
+let progression: SaveData = createDefaultSaveData();
+let loadPromise: Promise<SaveData> | null = null;
+let isLoaded = false;
+// Updates made before the save finished loading are replayed on top of it
+let earlyUpdates: ProgressionUpdate[] = [];
+const listeners = new Set<ProgressionListener>();
+
+const notify = () => {
+  listeners.forEach(listener => listener(progression));
+};
+
+const mergeLegacyHighScores = (
+  data: SaveData,
+  legacy: Partial<Record<GameMode, number>>
+): SaveData => {
+  const highScores = { ...data.highScores };
+  (Object.keys(highScores) as GameMode[]).forEach(mode => {
+    highScores[mode] = Math.max(highScores[mode], Math.floor(legacy[mode] || 0));
+  });
+  return { ...data, highScores };
+};
+
+const load = async (): Promise<SaveData> => {
+  let data = await loadGameData();
+  const legacyHighScores = await getLegacyHighScores();
+  if (legacyHighScores) {
+    data = mergeLegacyHighScores(data, legacyHighScores);
+  }
+
+  progression = earlyUpdates.reduce((current, update) => update(current), data);
+  const needsSave = !!legacyHighScores || earlyUpdates.length > 0;
+  earlyUpdates = [];
+  isLoaded = true;
+  notify();
+
+  if (needsSave) {
+    saveGameData(progression);
+    // The old keys only go once their scores are safely in the game data
+    if (legacyHighScores) {
+      await flushPendingWrites();
+      await removeLegacyHighScores();
+    }
+  }
+
+  return progression;
+};
+
+export const getProgression = (): SaveData => progression;
+
+// Reads the save once; later calls share the same result
+export const loadProgression = (): Promise<SaveData> => {
+  if (!loadPromise) {
+    loadPromise = load();
+  }
+  return loadPromise;
+};
+
+export const updateProgression = (update: ProgressionUpdate): SaveData => {
+  progression = update(progression);
+  if (isLoaded) {
+    saveGameData(progression);
+  } else {
+    earlyUpdates.push(update);
+  }
+  notify();
+  return progression;
+};
+
+export const subscribeToProgression = (listener: ProgressionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Clears every stored key, not just progression, and starts over with a fresh save
+export const resetProgression = async (): Promise<void> => {
+  await clearAllData();
+  progression = createDefaultSaveData();
+  earlyUpdates = [];
+  isLoaded = true;
+  loadPromise = Promise.resolve(progression);
+  notify();
+};
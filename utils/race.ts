@@ -0,0 +1,74 @@
+// race.ts - Split-screen races on one device
+//
+// Each lane stacks its own tower with its own engine, all at the same time.
+// The match only mirrors every lane's tower and decides who won.
+
+import { RaceLane, RaceMatch, RaceTower } from '../types/game';
+import { RACE_CONFIG } from '../constants/game';
+import { createInitialBlock } from './gameLogic';
+
+export const createRaceMatch = (targetBlocks: number = RACE_CONFIG.TARGET_BLOCKS): RaceMatch => ({
+  lanes: Array.from({ length: RACE_CONFIG.LANES }, (_, id) => ({
+    id,
+    name: `Player ${id + 1}`,
+    tower: {
+      blocks: [createInitialBlock()],
+      currentBlock: null,
+      score: 0,
+      combo: 0,
+      perfectBlocks: 0,
+      tower_height: 1,
+      stability: 1,
+    },
+    failed: false,
+  })),
+  targetBlocks,
+  winner: null,
+});
+
+export const getRaceTower = (state: RaceTower): RaceTower => ({
+  blocks: state.blocks,
+  currentBlock: state.currentBlock,
+  score: state.score,
+  combo: state.combo,
+  perfectBlocks: state.perfectBlocks,
+  tower_height: state.tower_height,
+  stability: state.stability,
+});
+
+// Refresh every lane's tower from the frame loop; towers are in lane order
+export const updateRaceTowers = (match: RaceMatch, towers: RaceTower[]): RaceMatch => ({
+  ...match,
+  lanes: match.lanes.map((lane, index) => ({ ...lane, tower: towers[index] ?? lane.tower })),
+});
+
+// Store a lane's tower after its drop and settle the race if that drop decided it
+export const recordRaceDrop = (
+  match: RaceMatch,
+  laneId: number,
+  tower: RaceTower,
+  outcome: 'placed' | 'completed' | 'failed'
+): RaceMatch => {
+  const lanes = match.lanes.map(lane =>
+    lane.id === laneId ? { ...lane, tower, failed: outcome === 'failed' } : lane
+  );
+
+  if (outcome === 'completed') {
+    return { ...match, lanes, winner: laneId };
+  }
+
+  // A lane that falls hands the race to whoever is left standing
+  const standing = lanes.filter(lane => !lane.failed);
+  return { ...match, lanes, winner: standing.length === 1 ? standing[0].id : match.winner };
+};
+
+export const getRaceWinner = (match: RaceMatch): RaceLane | undefined =>
+  match.winner === null ? undefined : match.lanes.find(lane => lane.id === match.winner);
+
+// Winner first, then the others by how tall they got
+export const getRaceStandings = (match: RaceMatch): RaceLane[] =>
+  [...match.lanes].sort((a, b) => {
+    const aWon = a.id === match.winner ? 0 : 1;
+    const bWon = b.id === match.winner ? 0 : 1;
+    return aWon - bWon || b.tower.tower_height - a.tower.tower_height || b.tower.score - a.tower.score;
+  });
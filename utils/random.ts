@@ -0,0 +1,29 @@
+// random.ts - Seeded pseudo-random numbers for gameplay
+//
+// Every gameplay roll goes through a RandomFn so a run can be reproduced
+// exactly from its seed and inputs. Math.random() is only used to pick seeds.
+
+export type RandomFn = () => number;
+
+// Mulberry32 - tiny, fast and good enough for game rolls
+export const createSeededRandom = (seed: number): RandomFn => {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a string hash, used to derive stable seeds from keys like dates
+export const hashSeed = (key: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const generateSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
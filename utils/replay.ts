@@ -0,0 +1,130 @@
+// replay.ts - Recording and playback of finished runs
+//
+// A replay is the run's seed plus every input stamped with the engine step it
+// happened on. Playback rebuilds an engine from the seed and steps it exactly
+// to each input, so the run unfolds under exactly the rules the UI uses.
+
+import { ChallengeLevel, Replay, ReplayInput } from '../types/game';
+import { createGameEngine, ENGINE_STEP_MS, EngineEvent, GameEngine } from './gameEngine';
+
+// Recorded x positions must match the simulation within this many pixels
+const POSITION_TOLERANCE = 0.5;
+
+export interface ReplayPlayer {
+  engine: GameEngine;
+  advance: (dtMs: number) => EngineEvent[];
+  runTo: (step: number) => EngineEvent[];
+  isFinished: () => boolean;
+  mismatches: () => number;
+}
+
+export const createReplay = (engine: GameEngine, id: string, packId?: string): Replay => {
+  const state = engine.getState();
+
+  return {
+    id,
+    seed: state.seed,
+    mode: engine.mode,
+    difficulty: engine.startDifficulty,
+    level: engine.challengeLevel?.id,
+    packId,
+    inputs: engine.getInputs(),
+    finalScore: state.score,
+    duration: state.elapsedMs,
+  };
+};
+
+// Replays saved before inputs carried a step were stamped with elapsed milliseconds
+const inputStep = (input: ReplayInput): number => {
+  const legacy = input as ReplayInput & { t?: number };
+  return typeof legacy.step === 'number' ? legacy.step : Math.round((legacy.t || 0) / ENGINE_STEP_MS);
+};
+
+export const createReplayPlayer = (replay: Replay, challengeLevel?: ChallengeLevel): ReplayPlayer => {
+  const engine = createGameEngine({
+    mode: replay.mode,
+    challengeLevel,
+    difficulty: replay.difficulty,
+    seed: replay.seed,
+  });
+
+  const totalSteps = Math.round(replay.duration / ENGINE_STEP_MS);
+  let cursor = 0;
+  let mismatchCount = 0;
+  let playbackMs = 0; // Playback time not yet spent on a whole step
+
+  const applyInput = (input: ReplayInput, events: EngineEvent[]) => {
+    if (input.type === 'drop') {
+      const block = engine.getState().currentBlock;
+      if (!block || Math.abs(block.x - input.x) > POSITION_TOLERANCE) {
+        mismatchCount++;
+      }
+      events.push(...engine.drop());
+    } else if (input.type === 'finish') {
+      engine.finish();
+    } else if (input.type === 'continue') {
+      engine.continueRun();
+    } else if (input.type === 'powerUp') {
+      engine.activatePowerUp(input.powerUp);
+    } else {
+      engine.setDifficulty(input.difficulty);
+    }
+  };
+
+  // Step the engine up to the target step, applying each input on the step it was recorded on
+  const runTo = (targetStep: number): EngineEvent[] => {
+    const events: EngineEvent[] = [];
+    const target = Math.min(targetStep, totalSteps);
+
+    for (;;) {
+      const steps = engine.getState().steps;
+      const next = replay.inputs[cursor];
+      if (next && inputStep(next) <= steps) {
+        cursor++;
+        applyInput(next, events);
+        continue;
+      }
+      if (steps >= target) break;
+
+      events.push(...engine.step());
+      if (engine.getState().steps === steps) break; // Run ended
+    }
+
+    return events;
+  };
+
+  const advance = (dtMs: number): EngineEvent[] => {
+    playbackMs += dtMs;
+    const wholeSteps = Math.floor(playbackMs / ENGINE_STEP_MS);
+    playbackMs -= wholeSteps * ENGINE_STEP_MS;
+    return runTo(engine.getState().steps + wholeSteps);
+  };
+
+  // A failed run may still be continued by a later input
+  const isFinished = () =>
+    cursor >= replay.inputs.length &&
+    (engine.getState().gameOver || engine.getState().steps >= totalSteps);
+
+  return {
+    engine,
+    advance,
+    runTo,
+    isFinished,
+    mismatches: () => mismatchCount,
+  };
+};
+
+// Re-simulate a whole run and confirm it reproduces the recorded score
+export const verifyReplay = (
+  replay: Replay,
+  challengeLevel?: ChallengeLevel
+): { valid: boolean; score: number } => {
+  const player = createReplayPlayer(replay, challengeLevel);
+  player.runTo(Math.round(replay.duration / ENGINE_STEP_MS));
+
+  const score = player.engine.getState().score;
+  return {
+    valid: player.isFinished() && player.mismatches() === 0 && score === replay.finalScore,
+    score,
+  };
+};
@@ -0,0 +1,74 @@
+// runStats.ts - Per-run statistics
+//
+// The engine feeds every drop into a collector as it happens. Unlike the
+// game state, the collector isn't rewound by extra lives or continues, so the
+// summary covers every drop the player actually made. A drop that toppled the
+// tower counts as a miss, not a placement, since the block never stayed.
+
+import { Block, RunStats } from '../types/game';
+
+export interface RunStatsCollector {
+  drops: number;
+  placed: number;
+  perfectBlocks: number;
+  maxCombo: number;
+  accuracyTotal: number;
+  speedTotal: number;
+  slices: number;
+  missesByType: Partial<Record<NonNullable<Block['type']>, number>>;
+}
+
+export const createRunStatsCollector = (): RunStatsCollector => ({
+  drops: 0,
+  placed: 0,
+  perfectBlocks: 0,
+  maxCombo: 0,
+  accuracyTotal: 0,
+  speedTotal: 0,
+  slices: 0,
+  missesByType: {},
+});
+
+export const recordPlacement = (
+  collector: RunStatsCollector,
+  placement: { accuracy: number; speed: number; isPerfect: boolean; sliced: boolean; combo: number }
+): RunStatsCollector => ({
+  ...collector,
+  drops: collector.drops + 1,
+  placed: collector.placed + 1,
+  perfectBlocks: collector.perfectBlocks + (placement.isPerfect ? 1 : 0),
+  maxCombo: Math.max(collector.maxCombo, placement.combo),
+  accuracyTotal: collector.accuracyTotal + placement.accuracy,
+  speedTotal: collector.speedTotal + placement.speed,
+  slices: collector.slices + (placement.sliced ? 1 : 0),
+});
+
+const countMiss = (collector: RunStatsCollector, block: Block): RunStatsCollector['missesByType'] => {
+  const type = block.type || 'normal';
+  return { ...collector.missesByType, [type]: (collector.missesByType[type] || 0) + 1 };
+};
+
+export const recordMiss = (collector: RunStatsCollector, block: Block): RunStatsCollector => ({
+  ...collector,
+  drops: collector.drops + 1,
+  speedTotal: collector.speedTotal + block.speed,
+  missesByType: countMiss(collector, block),
+});
+
+// Takes the collector from before the toppling drop, so its perfect and combo don't count
+export const recordTopple = (collectorBeforeDrop: RunStatsCollector, block: Block): RunStatsCollector =>
+  recordMiss(collectorBeforeDrop, block);
+
+export const getMissCount = (collector: RunStatsCollector): number =>
+  Object.values(collector.missesByType).reduce((sum, count) => sum + (count || 0), 0);
+
+export const summarizeRunStats = (collector: RunStatsCollector, durationMs: number): RunStats => ({
+  drops: collector.drops,
+  perfectBlocks: collector.perfectBlocks,
+  maxCombo: collector.maxCombo,
+  averageAccuracy: collector.placed > 0 ? collector.accuracyTotal / collector.placed : 0,
+  averageSpeed: collector.drops > 0 ? collector.speedTotal / collector.drops : 0,
+  durationMs,
+  slices: collector.slices,
+  misses: getMissCount(collector),
+});
@@ -0,0 +1,202 @@
+// saveData.ts - Versioned schema for the saved game data
+//
+// Every blob is written with a schema version. Older blobs are upgraded one
+// version at a time by the migrations below, then every field is checked:
+// malformed fields are repaired to a safe value and reported, while blobs that
+// can't be read at all (or come from a newer version of the app) are rejected.
+
+import { DifficultyLevel, GameMode, PowerUpType, SaveData } from '../types/game';
+import { EMPTY_POWER_UP_INVENTORY } from '../constants/game';
+
+export type SaveDataResult =
+  | { data: SaveData; repaired: string[]; migratedFrom: number | null }
+  | { data: null; errors: string[] };
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+const DIFFICULTIES: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+const GAME_MODES: GameMode[] = ['classic', 'timeAttack', 'challenge', 'zen', 'versus', 'race'];
+const POWER_UP_TYPES = Object.keys(EMPTY_POWER_UP_INVENTORY) as PowerUpType[];
+const MAX_STARS = 3;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+const EMPTY_HIGH_SCORES: Record<GameMode, number> = {
+  classic: 0,
+  timeAttack: 0,
+  challenge: 0,
+  zen: 0,
+  versus: 0,
+  race: 0,
+};
+
+// Migration n upgrades a version n blob to version n + 1; blobs without a version are version 0
+const MIGRATIONS: Migration[] = [
+  // Saves from before the difficulty setting was stored
+  data => ({
+    ...data,
+    selectedDifficulty: data.selectedDifficulty ?? 'medium',
+  }),
+  // Zen, versus and race high scores arrived together with the power-up inventory
+  data => ({
+    ...data,
+    highScores: { ...EMPTY_HIGH_SCORES, ...(isRecord(data.highScores) ? data.highScores : {}) },
+    powerUps: data.powerUps ?? { ...EMPTY_POWER_UP_INVENTORY },
+  }),
+];
+
+export const SAVE_DATA_VERSION = MIGRATIONS.length;
+
+export const createDefaultSaveData = (): SaveData => ({
+  version: SAVE_DATA_VERSION,
+  coins: 0,
+  currentTheme: 'default',
+  unlockedThemes: ['default'],
+  unlockedSkins: [],
+  dailyChallengeCompleted: false,
+  lastDailyChallengeDate: '',
+  challengeProgress: {},
+  currentUnlockedLevel: 1,
+  highScores: { ...EMPTY_HIGH_SCORES },
+  totalGamesPlayed: 0,
+  selectedDifficulty: 'medium',
+  powerUps: { ...EMPTY_POWER_UP_INVENTORY },
+});
+
+const repairCount = (value: unknown, fallback: number, field: string, repaired: string[]): number => {
+  if (isCount(value)) return value;
+  if (value !== undefined) repaired.push(field);
+  // Fractions and negatives keep what they can rather than dropping to the default
+  return typeof value === 'number' && isFinite(value) ? Math.max(0, Math.floor(value)) : fallback;
+};
+
+const repairChallengeProgress = (value: unknown, repaired: string[]): SaveData['challengeProgress'] => {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    repaired.push('challengeProgress');
+    return {};
+  }
+
+  const progress: SaveData['challengeProgress'] = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    const id = Number(key);
+    if (!Number.isInteger(id) || id < 1 || !isRecord(entry)) {
+      repaired.push(`challengeProgress.${key}`);
+      return;
+    }
+
+    const level = { ...entry } as unknown as SaveData['challengeProgress'][number];
+    if (typeof entry.completed !== 'boolean') {
+      level.completed = entry.completed === true;
+      repaired.push(`challengeProgress.${key}.completed`);
+    }
+    const stars = repairCount(entry.stars, 0, `challengeProgress.${key}.stars`, repaired);
+    if (stars > MAX_STARS) repaired.push(`challengeProgress.${key}.stars`);
+    level.stars = Math.min(MAX_STARS, stars);
+    if (entry.bestScore !== undefined && !isCount(entry.bestScore)) {
+      level.bestScore = repairCount(entry.bestScore, 0, `challengeProgress.${key}.bestScore`, repaired);
+    }
+    progress[id] = level;
+  });
+  return progress;
+};
+
+// Fills every field of the current schema, replacing anything missing or malformed
+export const repairSaveData = (value: Record<string, unknown>): { data: SaveData; repaired: string[] } => {
+  const defaults = createDefaultSaveData();
+  const repaired: string[] = [];
+
+  const savedThemes = isStringList(value.unlockedThemes) ? value.unlockedThemes : defaults.unlockedThemes;
+  if (value.unlockedThemes !== undefined && savedThemes !== value.unlockedThemes) repaired.push('unlockedThemes');
+  // The default theme can never be locked
+  const unlockedThemes = savedThemes.includes('default') ? savedThemes : ['default', ...savedThemes];
+
+  // Only an unlocked theme can be the current one
+  const currentTheme =
+    typeof value.currentTheme === 'string' && unlockedThemes.includes(value.currentTheme)
+      ? value.currentTheme
+      : defaults.currentTheme;
+  if (value.currentTheme !== undefined && currentTheme !== value.currentTheme) repaired.push('currentTheme');
+
+  const unlockedSkins = isStringList(value.unlockedSkins) ? value.unlockedSkins : defaults.unlockedSkins;
+  if (value.unlockedSkins !== undefined && unlockedSkins !== value.unlockedSkins) repaired.push('unlockedSkins');
+
+  const highScores = { ...defaults.highScores };
+  if (value.highScores !== undefined && !isRecord(value.highScores)) repaired.push('highScores');
+  const savedHighScores = isRecord(value.highScores) ? value.highScores : {};
+  GAME_MODES.forEach(mode => {
+    highScores[mode] = repairCount(savedHighScores[mode], 0, `highScores.${mode}`, repaired);
+  });
+
+  const powerUps = { ...defaults.powerUps };
+  if (value.powerUps !== undefined && !isRecord(value.powerUps)) repaired.push('powerUps');
+  const savedPowerUps = isRecord(value.powerUps) ? value.powerUps : {};
+  POWER_UP_TYPES.forEach(type => {
+    powerUps[type] = repairCount(savedPowerUps[type], 0, `powerUps.${type}`, repaired);
+  });
+
+  const selectedDifficulty = DIFFICULTIES.includes(value.selectedDifficulty as DifficultyLevel)
+    ? (value.selectedDifficulty as DifficultyLevel)
+    : defaults.selectedDifficulty;
+  if (value.selectedDifficulty !== undefined && selectedDifficulty !== value.selectedDifficulty) {
+    repaired.push('selectedDifficulty');
+  }
+
+  if (value.dailyChallengeCompleted !== undefined && typeof value.dailyChallengeCompleted !== 'boolean') {
+    repaired.push('dailyChallengeCompleted');
+  }
+  if (value.lastDailyChallengeDate !== undefined && typeof value.lastDailyChallengeDate !== 'string') {
+    repaired.push('lastDailyChallengeDate');
+  }
+
+  const currentUnlockedLevel = Math.max(
+    1,
+    repairCount(value.currentUnlockedLevel, defaults.currentUnlockedLevel, 'currentUnlockedLevel', repaired)
+  );
+
+  return {
+    data: {
+      version: SAVE_DATA_VERSION,
+      coins: repairCount(value.coins, defaults.coins, 'coins', repaired),
+      currentTheme,
+      unlockedThemes,
+      unlockedSkins,
+      dailyChallengeCompleted: value.dailyChallengeCompleted === true,
+      lastDailyChallengeDate:
+        typeof value.lastDailyChallengeDate === 'string' ? value.lastDailyChallengeDate : defaults.lastDailyChallengeDate,
+      challengeProgress: repairChallengeProgress(value.challengeProgress, repaired),
+      currentUnlockedLevel,
+      highScores,
+      totalGamesPlayed: repairCount(value.totalGamesPlayed, defaults.totalGamesPlayed, 'totalGamesPlayed', repaired),
+      selectedDifficulty,
+      powerUps,
+    },
+    repaired: Array.from(new Set(repaired)),
+  };
+};
+
+// Upgrades and repairs a stored blob; anything that isn't a save from this or an older version is rejected
+export const parseSaveData = (value: unknown): SaveDataResult => {
+  if (!isRecord(value)) return { data: null, errors: ['Save data is not an object'] };
+
+  const version = value.version === undefined ? 0 : value.version;
+  if (!isCount(version)) return { data: null, errors: ['Save data has an invalid version'] };
+  if (version > SAVE_DATA_VERSION) {
+    return {
+      data: null,
+      errors: [`Save data is version ${version}, this app reads up to version ${SAVE_DATA_VERSION}`],
+    };
+  }
+
+  const migrated = MIGRATIONS.slice(version).reduce((data, migrate) => migrate(data), value);
+  const { data, repaired } = repairSaveData(migrated);
+
+  return { data, repaired, migratedFrom: version < SAVE_DATA_VERSION ? version : null };
+};
@@ -0,0 +1,186 @@
+// scoreHistory.ts - Layout of the chunked run history
+//
+// Every finished run is appended to the newest chunk of at most CHUNK_SIZE
+// runs, kept in date order. A small index describes each chunk: its date
+// range and how many runs it holds per mode and difficulty, so queries only
+// open chunks that can match. The index also keeps each mode's best runs, so
+// the leaderboard is served without opening any chunk. Retention drops whole
+// chunks, oldest first.
+// The storage itself lives in storage.ts; this file only decides the layout.
+
+import { DifficultyLevel, GameMode, ScoreRecord } from '../types/game';
+import { SCORE_HISTORY_CONFIG } from '../constants/game';
+
+export interface ScoreQuery {
+  mode?: GameMode;
+  difficulty?: DifficultyLevel;
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+  cursor?: string | null; // nextCursor of the previous page
+  limit?: number; // Defaults to SCORE_HISTORY_CONFIG.PAGE_SIZE
+}
+
+// Newest runs first; nextCursor is null once the page came back short
+export interface ScorePage {
+  scores: ScoreRecord[];
+  nextCursor: string | null;
+}
+
+export interface ScoreChunkMeta {
+  id: number;
+  count: number;
+  from: string; // Date of the oldest run in the chunk
+  to: string; // Date of the newest
+  modeCounts: Partial<Record<GameMode, number>>;
+  difficultyCounts: Partial<Record<DifficultyLevel, number>>;
+  bestScores: Partial<Record<GameMode, number>>;
+}
+
+export interface ScoreIndex {
+  nextId: number;
+  chunks: ScoreChunkMeta[]; // Oldest first
+  topScores: Partial<Record<GameMode, ScoreRecord[]>>; // Highest first, up to TOP_SCORES per mode
+}
+
+export interface ScoreChunk {
+  id: number;
+  records: ScoreRecord[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const timeOf = (date: string) => new Date(date).getTime();
+
+// An index saved before it kept top scores doesn't parse either, so it's rebuilt once from the chunks
+export const parseScoreIndex = (value: unknown): ScoreIndex | null => {
+  if (!isRecord(value) || typeof value.nextId !== 'number' || !Array.isArray(value.chunks)) return null;
+  if (!isRecord(value.topScores) || !Object.values(value.topScores).every(Array.isArray)) return null;
+  const chunksValid = value.chunks.every(chunk =>
+    isRecord(chunk) &&
+    typeof chunk.id === 'number' &&
+    typeof chunk.count === 'number' &&
+    typeof chunk.from === 'string' &&
+    typeof chunk.to === 'string' &&
+    isRecord(chunk.modeCounts) &&
+    isRecord(chunk.difficultyCounts) &&
+    isRecord(chunk.bestScores)
+  );
+  return chunksValid ? (value as unknown as ScoreIndex) : null;
+};
+
+// Records must already be in date order
+export const describeScoreChunk = (id: number, records: ScoreRecord[]): ScoreChunkMeta => {
+  const modeCounts: ScoreChunkMeta['modeCounts'] = {};
+  const difficultyCounts: ScoreChunkMeta['difficultyCounts'] = {};
+  const bestScores: ScoreChunkMeta['bestScores'] = {};
+
+  records.forEach(record => {
+    modeCounts[record.mode] = (modeCounts[record.mode] || 0) + 1;
+    difficultyCounts[record.difficulty] = (difficultyCounts[record.difficulty] || 0) + 1;
+    bestScores[record.mode] = Math.max(bestScores[record.mode] || 0, record.score);
+  });
+
+  return {
+    id,
+    count: records.length,
+    from: records[0]?.date ?? '',
+    to: records[records.length - 1]?.date ?? '',
+    modeCounts,
+    difficultyCounts,
+    bestScores,
+  };
+};
+
+// Folds new runs into each mode's best list; ties go to the newer run, as on a date-ordered list
+export const addTopScores = (
+  topScores: ScoreIndex['topScores'],
+  records: ScoreRecord[]
+): ScoreIndex['topScores'] => {
+  const next = { ...topScores };
+  records.forEach(record => {
+    next[record.mode] = [...(next[record.mode] || []), record]
+      .sort((a, b) => b.score - a.score || timeOf(b.date) - timeOf(a.date))
+      .slice(0, SCORE_HISTORY_CONFIG.TOP_SCORES);
+  });
+  return next;
+};
+
+// Sorts by date and cuts the runs into chunks numbered from firstId
+export const splitIntoChunks = (records: ScoreRecord[], firstId: number): ScoreChunk[] => {
+  const sorted = [...records].sort((a, b) => timeOf(a.date) - timeOf(b.date));
+  const chunks: ScoreChunk[] = [];
+  for (let start = 0; start < sorted.length; start += SCORE_HISTORY_CONFIG.CHUNK_SIZE) {
+    chunks.push({
+      id: firstId + chunks.length,
+      records: sorted.slice(start, start + SCORE_HISTORY_CONFIG.CHUNK_SIZE),
+    });
+  }
+  return chunks;
+};
+
+export const chunkMayMatch = (chunk: ScoreChunkMeta, query: ScoreQuery): boolean => {
+  if (query.mode && !chunk.modeCounts[query.mode]) return false;
+  if (query.difficulty && !chunk.difficultyCounts[query.difficulty]) return false;
+  if (query.from && timeOf(chunk.to) < timeOf(query.from)) return false;
+  if (query.to && timeOf(chunk.from) > timeOf(query.to)) return false;
+  return true;
+};
+
+export const matchesScoreQuery = (record: ScoreRecord, query: ScoreQuery): boolean => {
+  if (query.mode && record.mode !== query.mode) return false;
+  if (query.difficulty && record.difficulty !== query.difficulty) return false;
+  if (query.from && timeOf(record.date) < timeOf(query.from)) return false;
+  if (query.to && timeOf(record.date) > timeOf(query.to)) return false;
+  return true;
+};
+
+// A cursor points at the next run to look at: its chunk and position within it
+export const encodeScoreCursor = (chunkId: number, offset: number): string => `${chunkId}:${offset}`;
+
+export const decodeScoreCursor = (cursor?: string | null): { chunkId: number; offset: number } | null => {
+  if (!cursor) return null;
+  const [chunkId, offset] = cursor.split(':').map(Number);
+  return Number.isInteger(chunkId) && Number.isInteger(offset) ? { chunkId, offset } : null;
+};
+
+// Drops chunks past RETENTION_DAYS or MAX_RUNS. The newest chunk and any chunk
+// holding a mode's best run are always kept, so an index rebuilt from the chunks keeps each top score
+export const applyRetention = (
+  index: ScoreIndex,
+  now: Date = new Date()
+): { index: ScoreIndex; removedIds: number[] } => {
+  const bestChunkByMode: Partial<Record<GameMode, ScoreChunkMeta>> = {};
+  index.chunks.forEach(chunk => {
+    (Object.entries(chunk.bestScores) as [GameMode, number][]).forEach(([mode, best]) => {
+      const current = bestChunkByMode[mode];
+      if (!current || best >= (current.bestScores[mode] || 0)) {
+        bestChunkByMode[mode] = chunk;
+      }
+    });
+  });
+  const protectedIds = new Set(Object.values(bestChunkByMode).map(chunk => chunk!.id));
+
+  const cutoff = SCORE_HISTORY_CONFIG.RETENTION_DAYS > 0
+    ? now.getTime() - SCORE_HISTORY_CONFIG.RETENTION_DAYS * DAY_MS
+    : -Infinity;
+  let total = index.chunks.reduce((sum, chunk) => sum + chunk.count, 0);
+  const removedIds: number[] = [];
+
+  for (const chunk of index.chunks.slice(0, -1)) {
+    const expired = timeOf(chunk.to) < cutoff;
+    const overCap = SCORE_HISTORY_CONFIG.MAX_RUNS > 0 && total > SCORE_HISTORY_CONFIG.MAX_RUNS;
+    // Chunks are in date order, so once one is kept everything after it is too
+    if (!expired && !overCap) break;
+    if (protectedIds.has(chunk.id)) continue;
+    removedIds.push(chunk.id);
+    total -= chunk.count;
+  }
+
+  return {
+    index: { ...index, chunks: index.chunks.filter(chunk => !removedIds.includes(chunk.id)) },
+    removedIds,
+  };
+};
@@ -1,5 +1,9 @@
-import { Share, Alert } from 'react-native';
-import { ScoreRecord } from '../types/game';
+import { Share, Alert, Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { LevelPack, ScoreRecord } from '../types/game';
+import { serializeLevelPack } from './levelPacks';
+import { SaveBackup, serializeBackup } from './backup';
 
 export const shareScore = async (scoreRecord: ScoreRecord): Promise<void> => {
   try {
@@ -7,6 +11,9 @@ export const shareScore = async (scoreRecord: ScoreRecord): Promise<void> => {
       classic: 'Classic Mode',
       timeAttack: 'Time Attack',
       challenge: 'Challenge Mode',
+      zen: 'Zen Mode',
+      versus: 'Versus Mode',
+      race: 'Race Mode',
     };
 
     const message = `🏗️ Just scored ${scoreRecord.score.toLocaleString()} points in Stack Tower ${modeNames[scoreRecord.mode]}! 
@@ -44,6 +51,61 @@ export const shareScreenshot = async (uri: string, score: number): Promise<void>
   }
 };
 
+// Export a pack as its JSON file contents, ready to be pasted into another device
+export const shareLevelPack = async (pack: LevelPack): Promise<void> => {
+  try {
+    await Share.share({
+      message: serializeLevelPack(pack),
+      title: `${pack.name} - Stack Tower level pack`,
+    });
+  } catch (error) {
+    console.error('Error sharing level pack:', error);
+    Alert.alert('Error', 'Failed to export level pack. Please try again.');
+  }
+};
+
+// Export a full save backup as a .json file; restoring it on another device reads it back in.
+// Backups with a long history are too big to share as text, so they always go out as a file
+export const shareBackup = async (backup: SaveBackup): Promise<void> => {
+  try {
+    const fileName = `stack-tower-backup-${backup.createdAt.slice(0, 10)}.json`;
+    const contents = serializeBackup(backup);
+
+    if (Platform.OS === 'web') {
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(link.href);
+      return;
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const uri = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(uri, contents);
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/json',
+      UTI: 'public.json',
+      dialogTitle: 'Stack Tower backup',
+    });
+  } catch (error) {
+    console.error('Error sharing backup:', error);
+    Alert.alert('Error', 'Failed to export backup. Please try again.');
+  }
+};
+
+// Web pickers hand back blob URLs, which the file system module can't read
+export const readPickedFile = async (uri: string): Promise<string> => {
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    return response.text();
+  }
+  return FileSystem.readAsStringAsync(uri);
+};
+
 export const formatScoreForSharing = (score: number, mode: string, blocks: number): string => {
   const modeEmojis = {
     classic: '♾️',
@@ -0,0 +1,53 @@
+// stability.ts - Center-of-mass balance check for the tower
+//
+// For every block we take the combined center of mass of everything resting on
+// it and measure how close that point sits to the block's edge. The weakest
+// support decides how stable the whole tower is.
+
+import { Block } from '../types/game';
+import { STABILITY_CONFIG } from '../constants/game';
+
+export interface StabilityResult {
+  stability: number; // 1 = load centered on every support, 0 = load over an edge
+  toppled: boolean;
+  criticalIndex: number; // Support block with the smallest margin, -1 if none
+}
+
+const getMass = (block: Block): number => block.width * (block.weight ?? 1);
+
+export const calculateStability = (blocks: Block[]): StabilityResult => {
+  let stability = 1;
+  let criticalIndex = -1;
+  let toppled = false;
+
+  // Walk down from the top, accumulating the load carried by each block
+  let loadMass = 0;
+  let loadMoment = 0;
+
+  for (let i = blocks.length - 1; i > 0; i--) {
+    const block = blocks[i];
+    const mass = getMass(block);
+    loadMass += mass;
+    loadMoment += mass * (block.x + block.width / 2);
+
+    const support = blocks[i - 1];
+    const halfWidth = support.width / 2;
+    if (halfWidth <= 0) continue;
+
+    const loadCenter = loadMoment / loadMass;
+    const offset = Math.abs(loadCenter - (support.x + halfWidth));
+    const margin = 1 - offset / halfWidth;
+
+    if (margin < stability) {
+      stability = margin;
+      criticalIndex = i - 1;
+    }
+
+    const loadCount = blocks.length - i;
+    if (margin < STABILITY_CONFIG.TOPPLE_THRESHOLD && loadCount >= STABILITY_CONFIG.MIN_TOPPLE_LOAD) {
+      toppled = true;
+    }
+  }
+
+  return { stability: Math.max(0, stability), toppled, criticalIndex };
+};
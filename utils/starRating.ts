@@ -0,0 +1,120 @@
+// starRating.ts - Star ratings for completed challenge levels
+//
+// Each level can list its own criteria for two and three stars; the rest use
+// a default built from the perfect rate, the target and the difficulty.
+// Ratings come back with every criterion checked, so the game over screen
+// can show what earned (or missed) each star.
+
+import { ChallengeLevel, DifficultyLevel, StarCriteria, StarCriterion } from '../types/game';
+import { STAR_RATING_CONFIG } from '../constants/game';
+
+export interface StarStats {
+  score: number;
+  blocksStacked: number;
+  perfectBlocks: number;
+  timeRemaining?: number;
+  averageSpeed?: number;
+}
+
+export interface StarCriterionResult {
+  criterion: StarCriterion;
+  actual: number;
+  met: boolean;
+}
+
+export interface StarTierResult {
+  stars: 2 | 3;
+  options: StarCriterionResult[][];
+  met: boolean;
+}
+
+export interface StarRating {
+  stars: number;
+  tiers: StarTierResult[];
+}
+
+export const getDefaultStarCriteria = (level: ChallengeLevel, difficulty: DifficultyLevel): StarCriteria => {
+  const multiplier = STAR_RATING_CONFIG.DIFFICULTY_MULTIPLIER[difficulty];
+  const speedBonus = STAR_RATING_CONFIG.SPEED_BONUS[difficulty];
+  // Perfect drops are whole numbers, so a fractional threshold is the next one up
+  const perfectBlocks = (share: number) => Math.ceil(level.targetBlocks * share * multiplier);
+
+  const threeStars: StarCriterion[][] = [
+    [{ type: 'perfectPercent', min: STAR_RATING_CONFIG.THREE_STAR_PERFECT_PERCENT * multiplier }],
+    [{ type: 'perfectBlocks', min: perfectBlocks(STAR_RATING_CONFIG.THREE_STAR_PERFECT_SHARE) }],
+    [
+      { type: 'averageSpeed', min: speedBonus.speed },
+      { type: 'perfectPercent', min: speedBonus.perfectPercent },
+    ],
+  ];
+
+  // Meeting a level's perfect requirement is always worth full marks
+  if (level.perfectBlocksRequired) {
+    threeStars.push([{ type: 'perfectBlocks', min: level.perfectBlocksRequired }]);
+  }
+
+  return {
+    twoStars: [
+      [{ type: 'perfectPercent', min: STAR_RATING_CONFIG.TWO_STAR_PERFECT_PERCENT * multiplier }],
+      [{ type: 'perfectBlocks', min: perfectBlocks(STAR_RATING_CONFIG.TWO_STAR_PERFECT_SHARE) }],
+    ],
+    threeStars,
+  };
+};
+
+const getCriterionValue = (criterion: StarCriterion, stats: StarStats): number => {
+  switch (criterion.type) {
+    case 'score':
+      return stats.score;
+    case 'perfectPercent':
+      return stats.blocksStacked > 0 ? (stats.perfectBlocks / stats.blocksStacked) * 100 : 0;
+    case 'perfectBlocks':
+      return stats.perfectBlocks;
+    case 'timeRemaining':
+      return stats.timeRemaining || 0;
+    case 'averageSpeed':
+      return stats.averageSpeed || 0;
+  }
+};
+
+const evaluateTier = (stars: 2 | 3, options: StarCriterion[][], stats: StarStats): StarTierResult => {
+  const results = options.map(option =>
+    option.map(criterion => {
+      const actual = getCriterionValue(criterion, stats);
+      return { criterion, actual, met: actual >= criterion.min };
+    })
+  );
+  return { stars, options: results, met: results.some(option => option.every(result => result.met)) };
+};
+
+// Completing the level is the first star; each tier is checked on its own, so three
+// stars can be earned without meeting the two-star criteria
+export const rateChallengeRun = (
+  level: ChallengeLevel,
+  stats: StarStats,
+  difficulty: DifficultyLevel = 'medium'
+): StarRating => {
+  const criteria = level.starCriteria || getDefaultStarCriteria(level, difficulty);
+  const tiers = [
+    evaluateTier(2, criteria.twoStars, stats),
+    evaluateTier(3, criteria.threeStars, stats),
+  ];
+  const stars = tiers[1].met ? 3 : tiers[0].met ? 2 : 1;
+
+  return { stars, tiers };
+};
+
+export const getStarCriterionLabel = (criterion: StarCriterion): string => {
+  switch (criterion.type) {
+    case 'score':
+      return `Score ${criterion.min.toLocaleString()}`;
+    case 'perfectPercent':
+      return `${Math.round(criterion.min)}% perfect drops`;
+    case 'perfectBlocks':
+      return `${criterion.min} perfect drops`;
+    case 'timeRemaining':
+      return `${criterion.min}s left on the clock`;
+    case 'averageSpeed':
+      return `Average speed ${criterion.min}`;
+  }
+};
@@ -1,30 +1,181 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
-import { ScoreRecord, GameState, GameMode } from '../types/game';
+import { ScoreRecord, GameMode, Replay, DifficultyLevel, LevelPack, PackProgress, SaveData } from '../types/game';
+import { createDefaultSaveData, parseSaveData, repairSaveData } from './saveData';
+import { createDeviceSecret, deriveIntegrityKey, payloadMatches, signPayload } from './integrity';
+import {
+  ScoreChunk,
+  ScoreChunkMeta,
+  ScoreIndex,
+  ScorePage,
+  ScoreQuery,
+  addTopScores,
+  applyRetention,
+  chunkMayMatch,
+  decodeScoreCursor,
+  describeScoreChunk,
+  encodeScoreCursor,
+  matchesScoreQuery,
+  parseScoreIndex,
+  splitIntoChunks,
+} from './scoreHistory';
+import { SCORE_HISTORY_CONFIG } from '../constants/game';
 
-const HIGH_SCORE_KEY = '@stack_tower_high_score';
+// Written by the old high score hook; only read once to fold them into the game data
+const LEGACY_HIGH_SCORE_KEY = '@stack_tower_high_score';
+const LEGACY_HIGH_SCORES_KEY = '@stack_tower_high_scores';
 const GAME_DATA_KEY = '@stack_tower_game_data';
-const SCORES_KEY = '@stack_tower_scores';
-const HIGH_SCORES_KEY = '@stack_tower_high_scores';
+// The old top 50 list; moved into the run history the first time it's read
+const LEGACY_SCORES_KEY = '@stack_tower_scores';
+const SCORE_INDEX_KEY = '@stack_tower_score_index';
+const SCORE_CHUNK_PREFIX = '@stack_tower_score_chunk_';
+const REPLAYS_KEY = '@stack_tower_replays';
+const LEVEL_PACKS_KEY = '@stack_tower_level_packs';
+const PACK_PROGRESS_KEY = '@stack_tower_pack_progress';
+const REJECTED_GAME_DATA_KEY = '@stack_tower_game_data_rejected';
+const SOUND_SETTINGS_KEY = '@stack_tower_sound_settings';
+const DEVICE_SECRET_KEY = '@stack_tower_device_secret';
+// A signed key's checksum, and the copy of its data kept when the checksum fails, sit next to it
+const CHECKSUM_SUFFIX = '_checksum';
+const CORRUPTED_SUFFIX = '_corrupted';
 
-// Cache for frequently accessed data
-let gameDataCache: Partial<GameState> | null = null;
-let cacheTimestamp = 0;
-const CACHE_DURATION = 30000; // 30 seconds
+export type SaveSection = 'gameData' | 'scores';
+
+const scoreChunkKey = (id: number) => `${SCORE_CHUNK_PREFIX}${id}`;
+
+const parseScoreChunkId = (key: string): number | null => {
+  const match = key.match(/^@stack_tower_score_chunk_(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
+
+// The part of the save a signed key belongs to; unsigned keys belong to none
+const getSaveSection = (key: string): SaveSection | null => {
+  if (key === GAME_DATA_KEY) return 'gameData';
+  if (key === LEGACY_SCORES_KEY || key === SCORE_INDEX_KEY || parseScoreChunkId(key) !== null) return 'scores';
+  return null;
+};
+
+// Scores, replays and level packs as one snapshot, for backups
+export interface StoredRecords {
+  scores: ScoreRecord[];
+  replays: Record<string, Replay>;
+  levelPacks: Record<string, LevelPack>;
+  packProgress: PackProgress;
+}
 
 // Batch write operations to improve performance
 let pendingWrites: Array<{ key: string; data: any }> = [];
 let writeTimeout: ReturnType<typeof setTimeout> | null = null;
 
+let integrityKeyPromise: Promise<string> | null = null;
+// Sections that failed their checksum this session, until the player has seen the warning
+const corruptedSections = new Set<SaveSection>();
+
+// Unparseable JSON is handed on as null so the caller's validation reports it
+const parseStoredJson = (data: string): unknown => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+};
+
+// A save from before checksums, brought up to date the way a normal load would so it's signed
+// in its current shape. Game data that can't be read is kept as it is for loadGameData to reject
+const adoptUnsignedValue = (key: string, value: unknown): unknown => {
+  if (key !== GAME_DATA_KEY) return value;
+  return parseSaveData(value).data ?? value;
+};
+
+const loadIntegrityKey = async (): Promise<string> => {
+  const secret = await AsyncStorage.getItem(DEVICE_SECRET_KEY);
+  if (secret !== null) return deriveIntegrityKey(secret);
+
+  // First launch with checksums: data that was never signed predates them and is adopted once.
+  // Data that already has a checksum was signed with a secret that's gone since, so it's left
+  // to fail its check on first read
+  const newSecret = createDeviceSecret();
+  const key = deriveIntegrityKey(newSecret);
+  const signedKeys = (await AsyncStorage.getAllKeys()).filter(storedKey => getSaveSection(storedKey) !== null);
+  const stored = await AsyncStorage.multiGet(signedKeys.flatMap(storedKey => [storedKey, storedKey + CHECKSUM_SUFFIX]));
+
+  const adopted: [string, string][] = [];
+  signedKeys.forEach((storedKey, index) => {
+    const [, raw] = stored[index * 2];
+    const [, checksum] = stored[index * 2 + 1];
+    const value = raw === null ? null : parseStoredJson(raw);
+    // Unreadable JSON isn't adopted either; it goes down the corrupted path like any other damage
+    if (checksum !== null || value === null) return;
+
+    const data = adoptUnsignedValue(storedKey, value);
+    adopted.push([storedKey, JSON.stringify(data)], [storedKey + CHECKSUM_SUFFIX, signPayload(key, data)]);
+  });
+
+  await AsyncStorage.multiSet([[DEVICE_SECRET_KEY, newSecret], ...adopted]);
+  return key;
+};
+
+const getIntegrityKey = (): Promise<string> => {
+  if (!integrityKeyPromise) {
+    integrityKeyPromise = loadIntegrityKey().catch(error => {
+      integrityKeyPromise = null;
+      throw error;
+    });
+  }
+  return integrityKeyPromise;
+};
+
+// Serializes writes (the last one per key wins) and adds a fresh checksum for each signed key
+const toSignedOperations = async (writes: Array<{ key: string; data: any }>): Promise<[string, string][]> => {
+  const latest = new Map<string, unknown>();
+  writes.forEach(({ key, data }) => latest.set(key, data));
+
+  const integrityKey = await getIntegrityKey();
+  const operations: [string, string][] = [];
+  latest.forEach((data, key) => {
+    operations.push([key, JSON.stringify(data)]);
+    if (getSaveSection(key)) {
+      operations.push([key + CHECKSUM_SUFFIX, signPayload(integrityKey, data)]);
+    }
+  });
+  return operations;
+};
+
+// Returns the stored JSON if it matches its checksum. Anything else is copied to the corrupted
+// key and reported through getCorruptedSections; the fallback, if given, takes its place
+const readSignedKey = async (key: string, fallback?: unknown): Promise<string | null> => {
+  const checksumKey = key + CHECKSUM_SUFFIX;
+  const integrityKey = await getIntegrityKey();
+  const [[, raw], [, checksum]] = await AsyncStorage.multiGet([key, checksumKey]);
+  if (raw === null) return null;
+  if (checksum !== null && payloadMatches(integrityKey, parseStoredJson(raw), checksum)) return raw;
+
+  const section = getSaveSection(key)!;
+  console.error(`Saved ${section} failed its integrity check (${key})`);
+  corruptedSections.add(section);
+  await AsyncStorage.setItem(key + CORRUPTED_SUFFIX, raw);
+  if (fallback === undefined) {
+    await AsyncStorage.multiRemove([key, checksumKey]);
+  } else {
+    await AsyncStorage.multiSet(await toSignedOperations([{ key, data: fallback }]));
+  }
+  return null;
+};
+
+export const getCorruptedSections = (): SaveSection[] => Array.from(corruptedSections);
+
+export const dismissCorruptedSections = (): void => {
+  corruptedSections.clear();
+};
+
 const batchWrite = async () => {
   if (pendingWrites.length === 0) return;
 
+  const writes = pendingWrites;
   try {
-    const operations = pendingWrites.map(
-      ({ key, data }): [string, string] => [key, JSON.stringify(data)]
-    );
-    await AsyncStorage.multiSet(operations);
-    pendingWrites = [];
+    await AsyncStorage.multiSet(await toSignedOperations(writes));
+    // Writes queued while this one ran stay for the next batch
+    pendingWrites = pendingWrites.filter(write => !writes.includes(write));
   } catch (error) {
     console.error('Error in batch write:', error);
   }
@@ -35,174 +186,476 @@ const scheduleBatchWrite = () => {
   writeTimeout = setTimeout(batchWrite, 100); // Batch writes every 100ms
 };
 
-export const getHighScore = async (): Promise<number> => {
+// Always writes the complete save; utils/progressionStore.ts is the only caller
+export const saveGameData = async (gameData: SaveData): Promise<void> => {
   try {
-    const score = await AsyncStorage.getItem(HIGH_SCORE_KEY);
-    return score ? parseInt(score, 10) : 0;
+    // Anything malformed is replaced before it reaches disk
+    const { data: dataToSave } = repairSaveData(gameData as unknown as Record<string, unknown>);
+
+    // Use batch writing for better performance
+    pendingWrites.push({ key: GAME_DATA_KEY, data: dataToSave });
+    scheduleBatchWrite();
   } catch (error) {
-    console.error('Error getting high score:', error);
-    return 0;
+    console.error('Error saving game data:', error);
   }
 };
 
-export const saveHighScore = async (score: number): Promise<void> => {
+// Missing, unreadable, rejected or tampered saves load as a fresh one
+export const loadGameData = async (): Promise<SaveData> => {
   try {
-    pendingWrites.push({ key: HIGH_SCORE_KEY, data: score.toString() });
-    scheduleBatchWrite();
+    const data = await readSignedKey(GAME_DATA_KEY, createDefaultSaveData());
+    if (!data) {
+      return createDefaultSaveData();
+    }
+
+    const result = parseSaveData(parseStoredJson(data));
+    if (!result.data) {
+      console.error('Rejected saved game data:', result.errors.join('; '));
+      // Set the unreadable blob aside so the next save doesn't destroy it
+      await AsyncStorage.setItem(REJECTED_GAME_DATA_KEY, data);
+      return createDefaultSaveData();
+    }
+
+    if (result.repaired.length > 0) {
+      console.warn('Repaired saved game data fields:', result.repaired.join(', '));
+    }
+    // Store the upgraded blob straight away so it's only migrated once
+    if (result.migratedFrom !== null || result.repaired.length > 0) {
+      pendingWrites.push({ key: GAME_DATA_KEY, data: result.data });
+      scheduleBatchWrite();
+    }
+
+    return result.data;
   } catch (error) {
-    console.error('Error saving high score:', error);
+    console.error('Error loading game data:', error);
+    return createDefaultSaveData();
   }
 };
 
-// Optimized game data saving with caching
-export const saveGameData = async (gameData: Partial<GameState>): Promise<void> => {
-  try {
-    // Update cache
-    gameDataCache = { ...gameDataCache, ...gameData };
-    cacheTimestamp = Date.now();
+// Replays are far bigger than score records, so only the best runs keep theirs
+// Runs that race the same ghost: getBestReplay picks the best replay of each group
+const replayGroupKey = (replay: Pick<Replay, 'mode' | 'difficulty' | 'level' | 'packId'>): string =>
+  `${replay.mode}|${replay.difficulty}|${replay.level ?? ''}|${replay.packId ?? ''}`;
 
-    const dataToSave = {
-      coins: gameData.coins || 0,
-      currentTheme: gameData.currentTheme || 'default',
-      unlockedThemes: gameData.unlockedThemes || ['default'],
-      unlockedSkins: gameData.unlockedSkins || [],
-      dailyChallengeCompleted: gameData.dailyChallengeCompleted || false,
-      lastDailyChallengeDate: gameData.lastDailyChallengeDate || '',
-      challengeProgress: gameData.challengeProgress || {},
-      currentUnlockedLevel: gameData.currentUnlockedLevel || 1,
-      highScores: gameData.highScores || { classic: 0, timeAttack: 0, challenge: 0 },
-      totalGamesPlayed: gameData.totalGamesPlayed || 0,
-      selectedDifficulty: gameData.selectedDifficulty || 'medium', // Added difficulty
-    };
+// The best replay of every group is always kept, so no ghost is lost; the rest of the
+// MAX_REPLAYS slots go to the next best runs overall
+const keepBestReplays = (replays: Record<string, Replay>): Record<string, Replay> => {
+  const sorted = Object.values(replays).sort((a, b) => b.finalScore - a.finalScore);
+  const kept: Record<string, Replay> = {};
+  const groups = new Set<string>();
 
-    // Use batch writing for better performance
-    pendingWrites.push({ key: GAME_DATA_KEY, data: dataToSave });
-    scheduleBatchWrite();
-  } catch (error) {
-    console.error('Error saving game data:', error);
+  sorted.forEach(replay => {
+    const group = replayGroupKey(replay);
+    if (groups.has(group)) return;
+    groups.add(group);
+    kept[replay.id] = replay;
+  });
+
+  let spare = SCORE_HISTORY_CONFIG.MAX_REPLAYS - groups.size;
+  sorted.forEach(replay => {
+    if (spare <= 0 || kept[replay.id]) return;
+    kept[replay.id] = replay;
+    spare--;
+  });
+
+  return kept;
+};
+
+let scoreHistoryQueue: Promise<unknown> = Promise.resolve();
+
+// Appends, rebuilds and replacements run one at a time so none of them reads a half-written index
+const queueScoreHistoryTask = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = scoreHistoryQueue.then(task);
+  scoreHistoryQueue = result.catch(() => undefined);
+  return result;
+};
+
+const readScoreChunk = async (id: number): Promise<ScoreRecord[]> => {
+  const raw = await readSignedKey(scoreChunkKey(id), []);
+  const records = raw ? parseStoredJson(raw) : null;
+  return Array.isArray(records) ? records : [];
+};
+
+const getScoreChunkIdsOnDisk = async (): Promise<number[]> => {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys
+    .map(parseScoreChunkId)
+    .filter((id): id is number => id !== null)
+    .sort((a, b) => a - b);
+};
+
+// Chunks and index go out together; chunks dropped by retention are removed afterwards
+const writeScoreHistory = async (index: ScoreIndex, chunks: ScoreChunk[], removedIds: number[]) => {
+  await AsyncStorage.multiSet(await toSignedOperations([
+    ...chunks.map(chunk => ({ key: scoreChunkKey(chunk.id), data: chunk.records })),
+    { key: SCORE_INDEX_KEY, data: index },
+  ]));
+  if (removedIds.length > 0) {
+    await AsyncStorage.multiRemove(
+      removedIds.flatMap(id => [scoreChunkKey(id), scoreChunkKey(id) + CHECKSUM_SUFFIX])
+    );
   }
 };
 
-// Optimized game data loading with caching
-export const loadGameData = async (): Promise<Partial<GameState>> => {
-  try {
-    // Return cached data if still valid
-    if (gameDataCache && (Date.now() - cacheTimestamp) < CACHE_DURATION) {
-      return gameDataCache;
+const readScoreIndex = async (): Promise<ScoreIndex | null> => {
+  const raw = await readSignedKey(SCORE_INDEX_KEY);
+  return raw ? parseScoreIndex(parseStoredJson(raw)) : null;
+};
+
+// For a missing or failed index: every chunk on disk is described again, and the old
+// top 50 list, if it's still around, is moved into new chunks after them
+const rebuildScoreIndex = async (): Promise<ScoreIndex> => {
+  const chunks: ScoreChunkMeta[] = [];
+  const emptyIds: number[] = [];
+  let topScores: ScoreIndex['topScores'] = {};
+  const idsOnDisk = await getScoreChunkIdsOnDisk();
+  for (const id of idsOnDisk) {
+    const records = await readScoreChunk(id);
+    if (records.length > 0) {
+      chunks.push(describeScoreChunk(id, records));
+      topScores = addTopScores(topScores, records);
+    } else {
+      emptyIds.push(id);
     }
+  }
 
-    const data = await AsyncStorage.getItem(GAME_DATA_KEY);
-    const parsedData = data ? JSON.parse(data) : {};
+  const nextId = idsOnDisk.length > 0 ? idsOnDisk[idsOnDisk.length - 1] + 1 : 1;
+  const legacyRaw = await readSignedKey(LEGACY_SCORES_KEY);
+  const legacy = legacyRaw ? parseStoredJson(legacyRaw) : null;
+  const legacyChunks = Array.isArray(legacy) ? splitIntoChunks(legacy, nextId) : [];
 
-    // Ensure selectedDifficulty has a default value if not present
-    if (!parsedData.selectedDifficulty) {
-      parsedData.selectedDifficulty = 'medium';
+  const index: ScoreIndex = {
+    nextId: nextId + legacyChunks.length,
+    chunks: [...chunks, ...legacyChunks.map(chunk => describeScoreChunk(chunk.id, chunk.records))],
+    topScores: addTopScores(topScores, Array.isArray(legacy) ? legacy : []),
+  };
+  await writeScoreHistory(index, legacyChunks, emptyIds);
+  // The old list only goes once its runs are safely in the history
+  if (legacyRaw !== null) {
+    await AsyncStorage.multiRemove([LEGACY_SCORES_KEY, LEGACY_SCORES_KEY + CHECKSUM_SUFFIX]);
+  }
+  return index;
+};
+
+// Only for use inside queued tasks; everything else goes through loadScoreIndex
+const ensureScoreIndex = async (): Promise<ScoreIndex> =>
+  (await readScoreIndex()) ?? rebuildScoreIndex();
+
+const loadScoreIndex = async (): Promise<ScoreIndex> =>
+  (await readScoreIndex()) ?? queueScoreHistoryTask(ensureScoreIndex);
+
+const appendScore = (record: ScoreRecord): Promise<void> =>
+  queueScoreHistoryTask(async () => {
+    const index = await ensureScoreIndex();
+    const last = index.chunks[index.chunks.length - 1];
+    const lastRecords = last ? await readScoreChunk(last.id) : [];
+    const topScores = addTopScores(index.topScores, [record]);
+
+    if (last && lastRecords.length < SCORE_HISTORY_CONFIG.CHUNK_SIZE) {
+      const records = [...lastRecords, record];
+      const chunks = [...index.chunks.slice(0, -1), describeScoreChunk(last.id, records)];
+      await writeScoreHistory({ ...index, chunks, topScores }, [{ id: last.id, records }], []);
+      return;
     }
 
-    // Update cache
-    gameDataCache = parsedData;
-    cacheTimestamp = Date.now();
+    // Opening a new chunk is the only time the history grows, so retention is applied here
+    const chunk = { id: index.nextId, records: [record] };
+    const { index: retained, removedIds } = applyRetention({
+      nextId: chunk.id + 1,
+      chunks: [...index.chunks, describeScoreChunk(chunk.id, chunk.records)],
+      topScores,
+    });
+    await writeScoreHistory(retained, [chunk], removedIds);
+  });
+
+// Swaps the whole history for these runs, under fresh chunk ids so no old chunk is overwritten in place
+const replaceScoreHistory = (records: ScoreRecord[]): Promise<void> =>
+  queueScoreHistoryTask(async () => {
+    const oldIds = await getScoreChunkIdsOnDisk();
+    const firstId = oldIds.length > 0 ? oldIds[oldIds.length - 1] + 1 : 1;
+    const chunks = splitIntoChunks(records, firstId);
+    const { index, removedIds } = applyRetention({
+      nextId: firstId + chunks.length,
+      chunks: chunks.map(chunk => describeScoreChunk(chunk.id, chunk.records)),
+      topScores: addTopScores({}, records),
+    });
+    const kept = chunks.filter(chunk => !removedIds.includes(chunk.id));
+    await writeScoreHistory(index, kept, oldIds);
+  });
 
-    return parsedData;
+export const saveScore = async (scoreRecord: ScoreRecord, replay?: Replay): Promise<void> => {
+  try {
+    await appendScore(scoreRecord);
+
+    if (replay) {
+      const existingReplays = await getReplays();
+      pendingWrites.push({
+        key: REPLAYS_KEY,
+        data: keepBestReplays({ ...existingReplays, [replay.id]: replay }),
+      });
+      scheduleBatchWrite();
+    }
   } catch (error) {
-    console.error('Error loading game data:', error);
-    return { selectedDifficulty: 'medium' }; // Return default difficulty on error
+    console.error('Error saving score:', error);
   }
 };
 
-// Optimized score saving with batching
-export const saveScore = async (scoreRecord: ScoreRecord): Promise<void> => {
+export const getReplays = async (): Promise<Record<string, Replay>> => {
   try {
-    const existingScores = await getScores();
-    const updatedScores = [scoreRecord, ...existingScores]
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 50); // Keep top 50 scores
-
-    pendingWrites.push({ key: SCORES_KEY, data: updatedScores });
-    scheduleBatchWrite();
+    const replays = await AsyncStorage.getItem(REPLAYS_KEY);
+    return replays ? JSON.parse(replays) : {};
   } catch (error) {
-    console.error('Error saving score:', error);
+    console.error('Error getting replays:', error);
+    return {};
   }
 };
 
-export const getScores = async (mode?: GameMode): Promise<ScoreRecord[]> => {
+export const getReplay = async (replayId: string): Promise<Replay | null> => {
+  const replays = await getReplays();
+  return replays[replayId] || null;
+};
+
+// The highest-scoring recorded run for this mode, level and starting difficulty
+export const getBestReplay = async (
+  mode: GameMode,
+  difficulty: DifficultyLevel,
+  level?: number,
+  packId?: string
+): Promise<Replay | null> => {
+  const replays = await getReplays();
+  const group = replayGroupKey({ mode, difficulty, level, packId });
+  const best = Object.values(replays)
+    .filter(replay => replayGroupKey(replay) === group)
+    .sort((a, b) => b.finalScore - a.finalScore)[0];
+
+  return best || null;
+};
+
+// One page of run history, newest first; pass the page's nextCursor back in for the next one
+export const getScores = async (query: ScoreQuery = {}): Promise<ScorePage> => {
   try {
-    const scores = await AsyncStorage.getItem(SCORES_KEY);
-    const allScores = scores ? JSON.parse(scores) : [];
-    
-    if (mode) {
-      return allScores.filter((score: ScoreRecord) => score.mode === mode);
+    const index = await loadScoreIndex();
+    const limit = query.limit ?? SCORE_HISTORY_CONFIG.PAGE_SIZE;
+    const start = decodeScoreCursor(query.cursor);
+    const chunks = index.chunks
+      .filter(chunk => (!start || chunk.id <= start.chunkId) && chunkMayMatch(chunk, query))
+      .reverse();
+
+    const scores: ScoreRecord[] = [];
+    for (const chunk of chunks) {
+      const records = await readScoreChunk(chunk.id);
+      const first = start && chunk.id === start.chunkId
+        ? Math.min(start.offset, records.length - 1)
+        : records.length - 1;
+
+      for (let i = first; i >= 0; i--) {
+        if (!matchesScoreQuery(records[i], query)) continue;
+        scores.push(records[i]);
+        if (scores.length === limit) {
+          return { scores, nextCursor: encodeScoreCursor(chunk.id, i - 1) };
+        }
+      }
     }
-    
-    return allScores;
+
+    return { scores, nextCursor: null };
   } catch (error) {
     console.error('Error getting scores:', error);
-    return [];
+    return { scores: [], nextCursor: null };
   }
 };
 
-export const getTopScores = async (mode?: GameMode, limit: number = 10): Promise<ScoreRecord[]> => {
-  try {
-    const allScores = await getScores();
-    const filteredScores = mode
-      ? allScores.filter((score: ScoreRecord) => score.mode === mode)
-      : allScores;
+// Every matching run, newest first, for views that aggregate over the whole history
+export const getAllScores = async (query: Omit<ScoreQuery, 'cursor' | 'limit'> = {}): Promise<ScoreRecord[]> => {
+  const { scores } = await getScores({ ...query, limit: Infinity });
+  return scores;
+};
 
-    return filteredScores.slice(0, limit);
+// Served from the index alone, so at most SCORE_HISTORY_CONFIG.TOP_SCORES runs come back
+export const getTopScores = async (
+  mode?: GameMode,
+  limit: number = SCORE_HISTORY_CONFIG.TOP_SCORES
+): Promise<ScoreRecord[]> => {
+  try {
+    const { topScores } = await loadScoreIndex();
+    const scores = mode ? topScores[mode] || [] : Object.values(topScores).flat();
+    return [...scores].sort((a, b) => b.score - a.score).slice(0, limit);
   } catch (error) {
     console.error('Error getting top scores:', error);
     return [];
   }
 };
 
-// New functions for mode-specific high scores
-export const saveHighScores = async (highScores: Record<GameMode, number>): Promise<void> => {
+// Imported level packs, keyed by pack id; importing a pack again replaces it
+export const getLevelPacks = async (): Promise<Record<string, LevelPack>> => {
   try {
-    pendingWrites.push({ key: HIGH_SCORES_KEY, data: highScores });
-    scheduleBatchWrite();
+    const packs = await AsyncStorage.getItem(LEVEL_PACKS_KEY);
+    return packs ? JSON.parse(packs) : {};
+  } catch (error) {
+    console.error('Error getting level packs:', error);
+    return {};
+  }
+};
+
+export const getLevelPack = async (packId: string): Promise<LevelPack | null> => {
+  const packs = await getLevelPacks();
+  return packs[packId] || null;
+};
+
+// Written straight through, since the challenges screen reads the list right back
+export const saveLevelPack = async (pack: LevelPack): Promise<void> => {
+  try {
+    const packs = await getLevelPacks();
+    await AsyncStorage.setItem(LEVEL_PACKS_KEY, JSON.stringify({ ...packs, [pack.id]: pack }));
+  } catch (error) {
+    console.error('Error saving level pack:', error);
+  }
+};
+
+export const deleteLevelPack = async (packId: string): Promise<void> => {
+  try {
+    const { [packId]: _removedPack, ...packs } = await getLevelPacks();
+    const { [packId]: _removedProgress, ...progress } = await getPackProgress();
+    await AsyncStorage.multiSet([
+      [LEVEL_PACKS_KEY, JSON.stringify(packs)],
+      [PACK_PROGRESS_KEY, JSON.stringify(progress)],
+    ]);
+  } catch (error) {
+    console.error('Error deleting level pack:', error);
+  }
+};
+
+// Pack results live apart from the built-in challengeProgress in the game data
+export const getPackProgress = async (): Promise<PackProgress> => {
+  try {
+    const progress = await AsyncStorage.getItem(PACK_PROGRESS_KEY);
+    return progress ? JSON.parse(progress) : {};
+  } catch (error) {
+    console.error('Error getting pack progress:', error);
+    return {};
+  }
+};
+
+// Keep the best stars and score seen on a pack level
+export const savePackLevelResult = async (
+  packId: string,
+  levelId: number,
+  stars: number,
+  score: number
+): Promise<void> => {
+  try {
+    const progress = await getPackProgress();
+    const packProgress = progress[packId] || {};
+    const previous = packProgress[levelId];
+
+    await AsyncStorage.setItem(PACK_PROGRESS_KEY, JSON.stringify({
+      ...progress,
+      [packId]: {
+        ...packProgress,
+        [levelId]: {
+          completed: true,
+          stars: Math.max(previous?.stars || 0, stars),
+          bestScore: Math.max(previous?.bestScore || 0, score),
+        },
+      },
+    }));
+  } catch (error) {
+    console.error('Error saving pack progress:', error);
+  }
+};
+
+// High scores the old hook kept under its own keys; the progression store merges them in once
+export const getLegacyHighScores = async (): Promise<Partial<Record<GameMode, number>> | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(LEGACY_HIGH_SCORES_KEY);
+    const parsed = stored ? parseStoredJson(stored) : null;
+    if (typeof parsed !== 'object' || parsed === null) return null;
+
+    const scores: Partial<Record<GameMode, number>> = {};
+    Object.entries(parsed).forEach(([mode, score]) => {
+      if (typeof score === 'number' && isFinite(score)) {
+        scores[mode as GameMode] = score;
+      }
+    });
+    return scores;
+  } catch (error) {
+    console.error('Error getting legacy high scores:', error);
+    return null;
+  }
+};
+
+export const removeLegacyHighScores = async (): Promise<void> => {
+  try {
+    await AsyncStorage.multiRemove([LEGACY_HIGH_SCORE_KEY, LEGACY_HIGH_SCORES_KEY]);
+  } catch (error) {
+    console.error('Error removing legacy high scores:', error);
+  }
+};
+
+export const getStoredRecords = async (): Promise<StoredRecords> => {
+  const [scores, replays, levelPacks, packProgress] = await Promise.all([
+    getAllScores(),
+    getReplays(),
+    getLevelPacks(),
+    getPackProgress(),
+  ]);
+  return { scores, replays, levelPacks, packProgress };
+};
+
+// Overwrites every record at once; history and replays are pruned the same way saveScore does
+export const replaceStoredRecords = async (records: StoredRecords): Promise<void> => {
+  // A queued replay write would otherwise land on top of the restored replays
+  pendingWrites = pendingWrites.filter(write => write.key !== REPLAYS_KEY);
+  await replaceScoreHistory(records.scores);
+  await AsyncStorage.multiSet(await toSignedOperations([
+    { key: REPLAYS_KEY, data: keepBestReplays(records.replays) },
+    { key: LEVEL_PACKS_KEY, data: records.levelPacks },
+    { key: PACK_PROGRESS_KEY, data: records.packProgress },
+  ]));
+};
+
+// Null until the player has changed the setting once
+export const getSoundEnabled = async (): Promise<boolean | null> => {
+  try {
+    const saved = await AsyncStorage.getItem(SOUND_SETTINGS_KEY);
+    return saved !== null ? JSON.parse(saved) === true : null;
   } catch (error) {
-    console.error('Error saving high scores:', error);
+    console.warn('Failed to load sound settings:', error);
+    return null;
   }
 };
 
-export const getHighScores = async (): Promise<Record<GameMode, number>> => {
+export const saveSoundEnabled = async (enabled: boolean): Promise<void> => {
   try {
-    const scores = await AsyncStorage.getItem(HIGH_SCORES_KEY);
-    return scores ? JSON.parse(scores) : { classic: 0, timeAttack: 0, challenge: 0 };
+    await AsyncStorage.setItem(SOUND_SETTINGS_KEY, JSON.stringify(enabled));
   } catch (error) {
-    console.error('Error getting high scores:', error);
-    return { classic: 0, timeAttack: 0, challenge: 0 };
+    console.warn('Failed to save sound settings:', error);
   }
 };
 
-// Clear cache when clearing all data - resets difficulty to medium
+// Wipes every stored key and writes a fresh save - resets difficulty to medium
 export const clearAllData = async (): Promise<void> => {
   try {
-    gameDataCache = null;
-    cacheTimestamp = 0;
     pendingWrites = [];
     if (writeTimeout) {
       clearTimeout(writeTimeout);
       writeTimeout = null;
     }
-    await AsyncStorage.multiRemove([HIGH_SCORE_KEY, GAME_DATA_KEY, SCORES_KEY, HIGH_SCORES_KEY]);
+    const signedKeys = [GAME_DATA_KEY, LEGACY_SCORES_KEY, SCORE_INDEX_KEY];
+    const chunkKeys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(SCORE_CHUNK_PREFIX));
+    await queueScoreHistoryTask(() => AsyncStorage.multiRemove([
+      LEGACY_HIGH_SCORE_KEY,
+      LEGACY_HIGH_SCORES_KEY,
+      REPLAYS_KEY,
+      LEVEL_PACKS_KEY,
+      PACK_PROGRESS_KEY,
+      REJECTED_GAME_DATA_KEY,
+      ...signedKeys.flatMap(key => [key, key + CHECKSUM_SUFFIX, key + CORRUPTED_SUFFIX]),
+      ...chunkKeys,
+    ]));
+    corruptedSections.clear();
     
     // After clearing, save default data with medium difficulty
-    const defaultGameData = {
-      coins: 0,
-      currentTheme: 'default',
-      unlockedThemes: ['default'],
-      unlockedSkins: [],
-      dailyChallengeCompleted: false,
-      lastDailyChallengeDate: '',
-      challengeProgress: {},
-      currentUnlockedLevel: 1,
-      highScores: { classic: 0, timeAttack: 0, challenge: 0 },
-      totalGamesPlayed: 0,
-      selectedDifficulty: 'medium' as const, // Reset to default difficulty
-    };
-    
-    await saveGameData(defaultGameData);
+    await saveGameData(createDefaultSaveData());
   } catch (error) {
     console.error('Error clearing data:', error);
   }
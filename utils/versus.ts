@@ -0,0 +1,63 @@
+// versus.ts - Local pass-and-play matches
+//
+// Every player stacks their own tower with their own engine. The match only
+// tracks whose turn it is, the latest state of each tower and who lost.
+
+import { VersusMatch, VersusPlayer, VersusTower } from '../types/game';
+import { VERSUS_CONFIG } from '../constants/game';
+import { createInitialBlock } from './gameLogic';
+
+export const createVersusMatch = (playerCount: number): VersusMatch => {
+  const count = Math.max(VERSUS_CONFIG.MIN_PLAYERS, Math.min(playerCount, VERSUS_CONFIG.MAX_PLAYERS));
+
+  return {
+    players: Array.from({ length: count }, (_, id) => ({
+      id,
+      name: `Player ${id + 1}`,
+      tower: {
+        blocks: [createInitialBlock()],
+        score: 0,
+        combo: 0,
+        perfectBlocks: 0,
+        tower_height: 1,
+      },
+    })),
+    currentPlayer: 0,
+    loser: null,
+    handoff: false,
+  };
+};
+
+export const getVersusTower = (state: VersusTower): VersusTower => ({
+  blocks: state.blocks,
+  score: state.score,
+  combo: state.combo,
+  perfectBlocks: state.perfectBlocks,
+  tower_height: state.tower_height,
+});
+
+// Store the current player's tower after their drop, then end the match or pass the turn on
+export const recordVersusTurn = (match: VersusMatch, tower: VersusTower, failed: boolean): VersusMatch => {
+  const players = match.players.map(player =>
+    player.id === match.currentPlayer ? { ...player, tower } : player
+  );
+
+  if (failed) {
+    return { ...match, players, loser: match.currentPlayer, handoff: false };
+  }
+
+  return {
+    ...match,
+    players,
+    currentPlayer: (match.currentPlayer + 1) % players.length,
+    handoff: true,
+  };
+};
+
+// Highest score among the players still standing first; the loser is always last
+export const getVersusStandings = (match: VersusMatch): VersusPlayer[] =>
+  [...match.players].sort((a, b) => {
+    const aLost = a.id === match.loser ? 1 : 0;
+    const bLost = b.id === match.loser ? 1 : 0;
+    return aLost - bLost || b.tower.score - a.tower.score;
+  });